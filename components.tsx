@@ -1,14 +1,28 @@
 import React, { useState, useMemo, useEffect, useRef, useCallback, memo, FC, ReactNode } from 'react';
 import * as htmlToImage from 'html-to-image';
 import { GenerateContentResponse } from "@google/genai";
-import { AudioService, AstrianEngine } from './services';
-import { useCorpusBooks } from './hooks';
+import { AudioService, AstrianEngine, ExternalEventRegistry, IntegrityService } from './services';
+import { useCorpusBooks, useElsSearch, useElsBatchSearch, useExternalEventRegistry } from './hooks';
+import { DEFAULT_ELS_RESULT_LIMIT, describeElsDirection, hitToElsResult } from './src/els/elsEngine';
+import { buildHitGrid } from './src/els/matrix';
+import { compileElsPattern } from './src/els/pattern';
+import { formatVerseLocation } from './src/corpus/verseIndex';
+import { DEFAULT_ENGLISH_CIPHER, ENGLISH_CIPHERS } from './src/gematria/englishCiphers';
+import { CANTILLATION_TRADITIONS, DEFAULT_CANTILLATION_TRADITION, findCantillationTradition, hasCantillation, MAX_CHANT_WORDS, parseCantillation, renderChant, SAMPLE_CANTILLATION_TEXT } from './src/music/cantillation';
+import { attachMonteCarlo } from './src/els/monteCarlo';
+import { getHebrewAlphabetNetwork, HebrewAlphabetNetwork, hebrewAlphabetNetwork, HebrewLetterNode, importHebrewAlphabetNetwork } from './src/dataModels';
+import { NETWORK_FORMATS, networkFormatOfFile } from './src/network/serializers';
+import { SPELLING_TRADITIONS } from './src/gematria/alphabetData';
+import { MAX_MILUI_DEPTH, MAX_MILUI_TREE_NODES } from './src/gematria/milui';
+import { layoutNetwork } from './src/network/layout';
+import { extractHebrewLetters } from './src/corpus/hebrewNormalizer';
+import { bestHebrewSpelling } from './src/corpus/transliteration';
 import { StrongsEntry, corpusList } from './corpora';
 import {
     GematriaAnalysis, DeepELSAnalysisResult, CartographerAnalysisResults, AWEFormData, TextualCartographerFormData,
     ELSInvestigatorFormData, EntrainmentProfile, SessionRecord, GeneralAnalysisResult, AWEAnalysisResult,
     ApocryphalAnalysisResult, View, StrongsResult, ELSResult, GuidingIntent, ExhaustiveResonanceResult,
-    PalmistryAnalysisResult, AstrianDayPlannerResult, VoiceResonanceAnalysisResult, Toast, AIMessage, ProactiveSuggestion
+    PalmistryAnalysisResult, AstrianDayPlannerResult, VoiceResonanceAnalysisResult, Toast, AIMessage, ProactiveSuggestion, ElsJobProgress, ElsMonteCarloStat, ElsControlKind, ElsDirection, ElsAxis, ElsBatchRow, ElsBatchScope, ElsSignificantFinding, ExternalEvent, ElsHit, IntegrityReport, IntegrityStats, IntegrityClaimKind, EnglishCipherId, GematriaIndexEntry, GematriaSystem, VerseLocation, NetworkPathAnalysis, MiluiTreeNode, NetworkFormat, NetworkAnalysis
 } from './types';
 
 /**
@@ -313,12 +327,12 @@ export const RevelatoryScroll: FC<{ children: ReactNode }> = ({ children }) => {
 // --- AUDIO COMPONENTS ---
 // =================================================================================================
 
-export const AudioPlayer: FC<{ frequencies: number[], fileName: string, mode: 'chord' | 'arpeggio', waveform: OscillatorType, noteDuration?: number }> = memo(({ frequencies, fileName, mode, waveform, noteDuration = 0.4 }) => {
+export const AudioPlayer: FC<{ frequencies: number[], fileName: string, mode: 'chord' | 'arpeggio', waveform: OscillatorType, noteDuration?: number | number[] }> = memo(({ frequencies, fileName, mode, waveform, noteDuration = 0.4 }) => {
     const [isPlaying, setIsPlaying] = useState(false);
     const audioContextRef = useRef<AudioContext | null>(null);
     const timeoutsRef = useRef<number[]>([]);
     const stopAudio = useCallback(() => { if (audioContextRef.current) { audioContextRef.current.close(); audioContextRef.current = null; } timeoutsRef.current.forEach(clearTimeout); timeoutsRef.current = []; setIsPlaying(false); }, []);
-    const playAudio = useCallback(() => { if (isPlaying) return; const context = new (window.AudioContext || (window as any).webkitAudioContext)(); audioContextRef.current = context; setIsPlaying(true); if (mode === 'chord') { const masterGain = context.createGain(); masterGain.gain.setValueAtTime(0.2, context.currentTime); masterGain.connect(context.destination); frequencies.forEach(freq => { const osc = context.createOscillator(); osc.type = waveform; osc.frequency.setValueAtTime(freq, context.currentTime); osc.connect(masterGain); osc.start(); }); } else { frequencies.forEach((freq, i) => { const timeoutId = window.setTimeout(() => { if (!audioContextRef.current || audioContextRef.current.state === 'closed') return; const masterGain = context.createGain(); masterGain.connect(context.destination); masterGain.gain.setValueAtTime(0, context.currentTime); masterGain.gain.linearRampToValueAtTime(0.25, context.currentTime + 0.05); masterGain.gain.linearRampToValueAtTime(0, context.currentTime + noteDuration - 0.05); const osc = context.createOscillator(); osc.type = waveform; osc.frequency.setValueAtTime(freq, context.currentTime); osc.connect(masterGain); osc.start(); osc.stop(context.currentTime + noteDuration); }, i * noteDuration * 1000); timeoutsRef.current.push(timeoutId); }); const finalTimeout = window.setTimeout(stopAudio, frequencies.length * noteDuration * 1000); timeoutsRef.current.push(finalTimeout); } }, [isPlaying, frequencies, mode, waveform, noteDuration, stopAudio]);
+    const playAudio = useCallback(() => { if (isPlaying) return; const context = new (window.AudioContext || (window as any).webkitAudioContext)(); audioContextRef.current = context; setIsPlaying(true); if (mode === 'chord') { const masterGain = context.createGain(); masterGain.gain.setValueAtTime(0.2, context.currentTime); masterGain.connect(context.destination); frequencies.forEach(freq => { const osc = context.createOscillator(); osc.type = waveform; osc.frequency.setValueAtTime(freq, context.currentTime); osc.connect(masterGain); osc.start(); }); } else { let start = 0; frequencies.forEach((freq, i) => { const duration = Array.isArray(noteDuration) ? noteDuration[i] : noteDuration; const timeoutId = window.setTimeout(() => { if (!audioContextRef.current || audioContextRef.current.state === 'closed') return; const masterGain = context.createGain(); masterGain.connect(context.destination); masterGain.gain.setValueAtTime(0, context.currentTime); masterGain.gain.linearRampToValueAtTime(0.25, context.currentTime + Math.min(0.05, duration / 4)); masterGain.gain.linearRampToValueAtTime(0, context.currentTime + duration - Math.min(0.05, duration / 4)); const osc = context.createOscillator(); osc.type = waveform; osc.frequency.setValueAtTime(freq, context.currentTime); osc.connect(masterGain); osc.start(); osc.stop(context.currentTime + duration); }, start * 1000); timeoutsRef.current.push(timeoutId); start += duration; }); const finalTimeout = window.setTimeout(stopAudio, start * 1000); timeoutsRef.current.push(finalTimeout); } }, [isPlaying, frequencies, mode, waveform, noteDuration, stopAudio]);
     const handleDownload = useCallback(async () => { try { const blob = await AudioService.renderAudioToWav(frequencies, mode === 'chord' ? 2 : noteDuration, waveform); const link = document.createElement('a'); link.href = URL.createObjectURL(blob); link.download = `${fileName}.wav`; link.click(); URL.revokeObjectURL(link.href); } catch (e) { console.error("Failed to render audio:", e); } }, [frequencies, fileName, mode, waveform, noteDuration]);
     useEffect(() => stopAudio, [stopAudio]);
     return <div className="temple-arpeggio-player-container"><button onClick={isPlaying ? stopAudio : playAudio} className="action-btn secondary-action">{isPlaying ? `■ Stop` : `► Play`}</button><button onClick={handleDownload} className="els-action-btn download-audio-btn">Download</button></div>;
@@ -328,15 +342,35 @@ export const AudioPlayer: FC<{ frequencies: number[], fileName: string, mode: 'c
 // --- DISPLAY COMPONENTS (SUB-COMPONENTS) ---
 // =================================================================================================
 
-const GematriaDisplay: FC<{ analysis: GematriaAnalysis[], onNumberInteract: (num: number) => void }> = memo(({ analysis, onNumberInteract }) => <CollapsibleCard title="Gematria Analysis" startOpen>{analysis.map(item => <div key={item.word} className="gematria-word-card"><h3><span className="hebrew-letter">{item.word}</span> ({item.transliteration})</h3><p><em>{item.englishMeaning}</em></p><div className="gematria-grid"><div>Standard</div><div><InteractiveNumber value={item.standard} onInteract={onNumberInteract} /></div><div>Ordinal</div><div><InteractiveNumber value={item.ordinal} onInteract={onNumberInteract} /></div><div>Reduced</div><div><InteractiveNumber value={item.reduced} onInteract={onNumberInteract} /></div><div>Atbash</div><div><InteractiveNumber value={item.atbashValue} onInteract={onNumberInteract} /> ({item.atbashWord})</div></div><AudioPlayer frequencies={AstrianEngine.getTempleMusicologyNotes(item.standard)} fileName={`gematria-${item.transliteration}-${item.standard}`} mode="arpeggio" waveform="sawtooth" /></div>)}</CollapsibleCard>);
-const ELSDisplay: FC<{ analysis: DeepELSAnalysisResult; textLang?: 'hebrew' | 'english' | 'greek', onNumberInteract: (num: number) => void }> = memo(({ analysis, textLang = 'hebrew', onNumberInteract }) => {
-    const [highlightedPath, setHighlightedPath] = useState<number[] | null>(null);
+const IntegrityFlags: FC<{ report?: IntegrityReport, prefix: string }> = ({ report, prefix }) => {
+    const flagged = report?.discrepancies.filter(d => d.path === prefix || d.path.startsWith(`${prefix}.`)) ?? [];
+    return flagged.length > 0 ? <ul className="integrity-flags">{flagged.map(d => <li key={d.path} title={`The model claimed ${d.claimed}.`}>⚠ {d.reason}{d.corrected !== null ? ' Corrected.' : ''}</li>)}</ul> : null;
+};
+const IntegrityReportCard: FC<{ report: IntegrityReport }> = memo(({ report }) => {
+    const checked = Object.values(report.checked).reduce((sum: number, count: number) => sum + count, 0);
+    return <CollapsibleCard title="Mathematical Integrity Check" startOpen={report.discrepancies.length > 0}><p className="explanation-text">{report.discrepancies.length === 0 ? `All ${checked} number(s) in this analysis were recomputed and match.` : `${report.discrepancies.length} of ${checked} number(s) in this analysis did not match their recomputation; the corrected values are shown.`}</p>{report.discrepancies.length > 0 && <ul className="integrity-flags">{report.discrepancies.map(d => <li key={d.path}>{d.reason}</li>)}</ul>}</CollapsibleCard>;
+});
+const GematriaDisplay: FC<{ analysis: GematriaAnalysis[], onNumberInteract: (num: number) => void }> = memo(({ analysis, onNumberInteract }) => <CollapsibleCard title="Gematria Analysis" startOpen>{analysis.map(item => <div key={item.word} className="gematria-word-card"><h3><span className="hebrew-letter">{item.word}</span> ({item.transliteration})</h3><p><em>{item.englishMeaning}</em></p><div className="gematria-grid"><div>Standard</div><div><InteractiveNumber value={item.standard} onInteract={onNumberInteract} /></div><div>Ordinal</div><div><InteractiveNumber value={item.ordinal} onInteract={onNumberInteract} /></div><div>Reduced</div><div><InteractiveNumber value={item.reduced} onInteract={onNumberInteract} /></div><div>Kolel</div><div><InteractiveNumber value={item.kolel} onInteract={onNumberInteract} /></div>{item.gadol !== undefined && <><div>Gadol</div><div><InteractiveNumber value={item.gadol} onInteract={onNumberInteract} /></div></>}<div>Atbash</div><div><InteractiveNumber value={item.atbashValue} onInteract={onNumberInteract} /> ({item.atbashWord})</div>{item.albamWord !== undefined && <><div>Albam</div><div><InteractiveNumber value={item.albamValue} onInteract={onNumberInteract} /> ({item.albamWord})</div></>}{item.milui !== undefined && <><div>Milui</div><div><InteractiveNumber value={item.milui} onInteract={onNumberInteract} /></div></>}</div><AudioPlayer frequencies={AstrianEngine.getTempleMusicologyNotes(item.standard)} fileName={`gematria-${item.transliteration}-${item.standard}`} mode="arpeggio" waveform="sawtooth" /></div>)}</CollapsibleCard>);
+const CantillationDisplay: FC<{ text: string }> = memo(({ text }) => {
+    const [traditionId, setTraditionId] = useState(DEFAULT_CANTILLATION_TRADITION);
+    const words = useMemo(() => parseCantillation(text), [text]);
+    const melody = useMemo(() => renderChant(words, findCantillationTradition(traditionId) ?? CANTILLATION_TRADITIONS[0]), [words, traditionId]);
+    return <CollapsibleCard title="Cantillation" startOpen><p className="explanation-text">Each word is sung on the motif of its ta'am{words.length >= MAX_CHANT_WORDS ? `; the first ${MAX_CHANT_WORDS} words are chanted` : ''}.</p><div className="form-field"><label htmlFor="cantillation-tradition">Tradition</label><select id="cantillation-tradition" value={traditionId} onChange={e => setTraditionId(e.target.value)}>{CANTILLATION_TRADITIONS.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}</select></div><div className="cantillation-words">{melody.words.map((w, i) => <span key={i} className="cantillation-word" title={`${w.noteCount} note(s)`}><span className="hebrew-text">{w.word}</span><small>{w.taam.replace(/([A-Z])/g, ' $1').toLowerCase()}</small></span>)}</div><AudioPlayer frequencies={melody.notes.map(n => n.frequency)} noteDuration={melody.notes.map(n => n.duration)} fileName={`cantillation-${melody.tradition.id}`} mode="arpeggio" waveform="triangle" /></CollapsibleCard>;
+});
+const ElsMonteCarloSummary: FC<{ stat: ElsMonteCarloStat, trials: number }> = memo(({ stat, trials }) => {
+    const controlLabels: Record<ElsControlKind, string> = { letter: 'letter-shuffled', word: 'word-shuffled' };
+    return <div className="els-monte-carlo"><p>Observed {stat.observed} {stat.skip ? `at skip ${stat.skip}` : 'in total'} · {trials} trial(s) per control</p><ul>{(Object.keys(stat.expected) as ElsControlKind[]).map(kind => <li key={kind}>{controlLabels[kind]}: expected {stat.expected[kind]!.toFixed(2)}, p = {stat.pValue[kind]!.toFixed(3)}</li>)}</ul></div>;
+});
+const ELSDisplay: FC<{ analysis: DeepELSAnalysisResult; textLang?: 'hebrew' | 'english' | 'greek', integrity?: IntegrityReport, onNumberInteract: (num: number) => void }> = memo(({ analysis, textLang = 'hebrew', integrity, onNumberInteract }) => {
+    const [hoveredPath, setHoveredPath] = useState<number[] | null>(null);
     const gridRef = useRef<HTMLDivElement>(null);
     if (!analysis?.textGrid?.text) return null;
     const gridCols = Math.max(...analysis.textGrid.text.split('\n').map(row => row.length));
     const chars = analysis.textGrid.text.replace(/\n/g, '').split('');
+    // Locally built matrix grids highlight every term until one is hovered.
+    const highlightedPath = hoveredPath ?? (analysis.matrix ? analysis.elsAnalysis.flatMap(e => e.path.map(p => p.row * gridCols + p.col)) : null);
     const handleDownload = useCallback(() => { if (gridRef.current) htmlToImage.toPng(gridRef.current, { backgroundColor: '#0c0a1d' }).then(url => { const link = document.createElement('a'); link.download = 'astrian-key-els-grid.png'; link.href = url; link.click(); }); }, [gridRef]);
-    return <CollapsibleCard title="Equidistant Letter Sequence (ELS) Analysis" startOpen><p className="explanation-text">{analysis.textGrid.explanation}</p><div ref={gridRef} className={`text-grid-container ${textLang}-grid`} style={{ '--grid-cols': gridCols } as React.CSSProperties}>{chars.map((char, index) => <span key={index} className={`grid-char ${highlightedPath?.includes(index) ? 'highlight' : ''}`} style={{ '--highlight-index': highlightedPath?.includes(index) ? analysis.elsAnalysis.findIndex(e => e.path.map(p => p.row * gridCols + p.col).includes(index)) : 0 } as React.CSSProperties}>{char}</span>)}</div><div className="els-list">{analysis.elsAnalysis.map((result, index) => <div key={index} className="els-result-item" style={{'--highlight-index': index} as React.CSSProperties} onMouseEnter={() => setHighlightedPath(result.path.map(p => p.row * gridCols + p.col))} onMouseLeave={() => setHighlightedPath(null)}><h4>Found: <span className={`${textLang}-text`}>{result.word}</span></h4><p>Direction: {result.direction}, Skip: <InteractiveNumber value={result.skip} onInteract={onNumberInteract} /></p></div>)}</div><div className="els-actions"><button onClick={handleDownload} className="els-action-btn download-grid-btn">Download Grid</button></div></CollapsibleCard>;
+    return <CollapsibleCard title="Equidistant Letter Sequence (ELS) Analysis" startOpen><p className="explanation-text">{analysis.textGrid.explanation}</p><div ref={gridRef} className={`text-grid-container ${textLang}-grid`} style={{ '--grid-cols': gridCols } as React.CSSProperties}>{chars.map((char, index) => <span key={index} className={`grid-char ${highlightedPath?.includes(index) ? 'highlight' : ''}`} style={{ '--highlight-index': highlightedPath?.includes(index) ? analysis.elsAnalysis.findIndex(e => e.path.map(p => p.row * gridCols + p.col).includes(index)) : 0 } as React.CSSProperties}>{char}</span>)}</div><div className="els-list">{analysis.elsAnalysis.map((result, index) => <div key={index} className="els-result-item" style={{'--highlight-index': index} as React.CSSProperties} onMouseEnter={() => setHoveredPath(result.path.map(p => p.row * gridCols + p.col))} onMouseLeave={() => setHoveredPath(null)}><h4>Found: <span className={`${textLang}-text`}>{result.word}</span></h4><p>Direction: {result.direction}, Skip: <InteractiveNumber value={result.skip} onInteract={onNumberInteract} /></p><IntegrityFlags report={integrity} prefix={`deepElsAnalysis.elsAnalysis.${index}`} />{result.monteCarlo && <ElsMonteCarloSummary stat={result.monteCarlo} trials={result.monteCarlo.trials} />}</div>)}</div><div className="els-actions"><button onClick={handleDownload} className="els-action-btn download-grid-btn">Download Grid</button></div></CollapsibleCard>;
 });
 
 const ResonanceCascadeDisplay: FC<{ cascade: any[], value: number, onNumberInteract: (num: number) => void }> = memo(({ cascade, value, onNumberInteract }) => {
@@ -354,12 +388,17 @@ const StrongsLookup: FC<{ value: number; isHebrew: boolean; onNumberInteract: (n
 // --- DISPLAY COMPONENTS (PRIMARY) ---
 // =================================================================================================
 
+const CipherComparison: FC<{ values: Record<EnglishCipherId, number>, selected: EnglishCipherId, onNumberInteract: (num: number) => void }> = ({ values, selected, onNumberInteract }) => (
+    <CollapsibleCard title="Cipher Comparison"><table className="cipher-table"><thead><tr><th>Cipher</th><th>Value</th><th>Reduced</th></tr></thead><tbody>{ENGLISH_CIPHERS.map(c => <tr key={c.id} className={c.id === selected ? 'selected' : ''} title={c.description}><td>{c.name}{c.id === selected ? ' (primary)' : ''}</td><td><InteractiveNumber value={values[c.id]} onInteract={onNumberInteract}/></td><td>{AstrianEngine.reduceNumber(values[c.id])}</td></tr>)}</tbody></table></CollapsibleCard>
+);
+
 export const AstrianKeyDisplay: FC<{ data: GeneralAnalysisResult, onStartEntrainment: (profile: EntrainmentProfile) => void, onNumberInteract: (num: number) => void }> = memo(({ data, onStartEntrainment, onNumberInteract }) => (
     <div className="astrian-key-display-container">
         <CollapsibleCard title={`Astrian Key for: "${data.exhaustiveResonance.query}"`} startOpen>
             <div className="astrian-key-header"><h3>Primary Resonance Value: <InteractiveNumber value={data.exhaustiveResonance.gematriaValue} onInteract={onNumberInteract}/></h3></div>
             <p className="key-response">{data.interpretation}</p>
         </CollapsibleCard>
+        {data.exhaustiveResonance.cipherValues && <CipherComparison values={data.exhaustiveResonance.cipherValues} selected={data.exhaustiveResonance.cipher} onNumberInteract={onNumberInteract} />}
         <CollapsibleCard title="Multi-Modal Resonance Profile" startOpen>
             <h4>Sonic Resonance</h4><p>A harmonic chord based on the value <InteractiveNumber value={data.exhaustiveResonance.gematriaValue} onInteract={onNumberInteract}/> ({data.exhaustiveResonance.primaryResonance.sonic.chordName})</p>
             <AudioPlayer frequencies={[data.exhaustiveResonance.primaryResonance.sonic.root.hz, data.exhaustiveResonance.primaryResonance.sonic.third.hz, data.exhaustiveResonance.primaryResonance.sonic.fifth.hz]} fileName={`resonance-${data.exhaustiveResonance.query}-${data.exhaustiveResonance.gematriaValue}`} mode="chord" waveform="sine" />
@@ -386,6 +425,17 @@ const ApocryphalDisplay: FC<{ data: ApocryphalAnalysisResult, onNumberInteract:
     </div>
 ));
 
+/** How a passage walks the Willow network: its islands, spelling-edge steps, loops and hubs. */
+const NetworkPathDisplay: FC<{ path: NetworkPathAnalysis, onNumberInteract: (num: number) => void }> = ({ path, onNumberInteract }) => (
+    <CollapsibleCard title="Willow Network Path">
+        <p className="explanation-text">The passage read as a walk over the letter-spelling network: <NetworkPathSummary path={path} />.</p>
+        <p>Gematria of the walk: <InteractiveNumber value={path.gematria} onInteract={onNumberInteract} /></p>
+        <div className="willow-islands">{path.islands.map(island => <span key={island.name} className="cantillation-word">{island.name}<small>{island.letterCount} letter(s)</small></span>)}</div>
+    </CollapsibleCard>
+);
+
+const NetworkPathSummary: FC<{ path: NetworkPathAnalysis }> = ({ path }) => <>{path.edgeSteps} of {path.steps.length} step(s) follow spelling edges ({Math.round(path.edgeRatio * 100)}%) · {path.islandTransitions} island transition(s) · {path.loopHits} loop and {path.hubHits} hub letter(s){path.meanDistance !== null ? ` · mean distance ${path.meanDistance.toFixed(2)}` : ''}</>;
+
 const HebraicDisplay: FC<{ data: CartographerAnalysisResults, onNumberInteract: (num: number) => void }> = memo(({ data, onNumberInteract }) => (
     <div className="hebraic-cartographic-map-container">
         <CollapsibleCard title="Primary Analysis" startOpen>
@@ -393,9 +443,12 @@ const HebraicDisplay: FC<{ data: CartographerAnalysisResults, onNumberInteract:
             <p><strong>Transliteration:</strong> {data.transliteration}</p>
             <p><strong>Translation:</strong> {data.englishTranslation}</p>
         </CollapsibleCard>
+        {(data.cantillationText || hasCantillation(data.hebrewText ?? '')) && <CantillationDisplay text={data.cantillationText ?? data.hebrewText!} />}
+        {data.networkPath && data.networkPath.letters.length > 0 && <NetworkPathDisplay path={data.networkPath} onNumberInteract={onNumberInteract} />}
+        {data.integrity && <IntegrityReportCard report={data.integrity} />}
         {data.gematriaAnalysis && <GematriaDisplay analysis={data.gematriaAnalysis} onNumberInteract={onNumberInteract} />}
         {data.gematriaAnalysis?.[0]?.standard && <StrongsLookup value={data.gematriaAnalysis[0].standard} isHebrew={true} onNumberInteract={onNumberInteract} />}
-        {data.deepElsAnalysis && <ELSDisplay analysis={data.deepElsAnalysis} textLang="hebrew" onNumberInteract={onNumberInteract} />}
+        {data.deepElsAnalysis && <ELSDisplay analysis={data.deepElsAnalysis} textLang="hebrew" integrity={data.integrity} onNumberInteract={onNumberInteract} />}
         {Object.entries({
             "Vibrational Analysis": data.vibrationalAnalysis, 
             "Cosmic Architecture": data.cosmicArchitecture, 
@@ -413,13 +466,14 @@ const HellenisticDisplay: FC<{ data: CartographerAnalysisResults, onNumberIntera
             <p><strong>Transliteration:</strong> {data.transliteration}</p>
             <p><strong>Translation:</strong> {data.englishTranslation}</p>
         </CollapsibleCard>
+        {data.integrity && <IntegrityReportCard report={data.integrity} />}
         {data.isopsephyAnalysis && (
             <CollapsibleCard title="Isopsephy Analysis">
-                {data.isopsephyAnalysis.map(item => <p key={item.word}><strong>{item.word}:</strong> <InteractiveNumber value={item.value} onInteract={onNumberInteract} /></p>)}
+                {data.isopsephyAnalysis.map(item => <div key={item.word} className="gematria-word-card"><h3><span className="greek-text">{item.word}</span></h3>{item.englishMeaning && <p><em>{item.englishMeaning}</em></p>}<div className="gematria-grid"><div>Standard</div><div><InteractiveNumber value={item.value} onInteract={onNumberInteract} /></div>{item.ordinal !== undefined && <><div>Ordinal</div><div><InteractiveNumber value={item.ordinal} onInteract={onNumberInteract} /></div><div>Reduced</div><div><InteractiveNumber value={item.reduced} onInteract={onNumberInteract} /></div></>}</div></div>)}
             </CollapsibleCard>
         )}
         {data.isopsephyAnalysis?.[0]?.value && <StrongsLookup value={data.isopsephyAnalysis[0].value} isHebrew={false} onNumberInteract={onNumberInteract} />}
-        {data.deepElsAnalysis && <ELSDisplay analysis={data.deepElsAnalysis} textLang="greek" onNumberInteract={onNumberInteract} />}
+        {data.deepElsAnalysis && <ELSDisplay analysis={data.deepElsAnalysis} textLang="greek" integrity={data.integrity} onNumberInteract={onNumberInteract} />}
         {Object.entries({
             "Vibrational Analysis": data.vibrationalAnalysis, 
             "Cosmic Architecture (Gnostic)": data.cosmicArchitecture, 
@@ -525,7 +579,7 @@ export const AWEForm: FC<{ data: AWEFormData, onUpdate: (data: AWEFormData) => v
         setFormData(data);
     }, [data]);
 
-    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
         const updatedData = { ...formData, [e.target.name]: e.target.value };
         setFormData(updatedData);
         onUpdate(updatedData);
@@ -568,6 +622,7 @@ export const AWEForm: FC<{ data: AWEFormData, onUpdate: (data: AWEFormData) => v
             <form onSubmit={handleSubmit} className="awe-form">
                 <div className="awe-section">
                     <div className="form-subgrid"><div className="form-field"><label>Full Name at Birth</label><input type="text" name="fullNameAtBirth" value={formData.fullNameAtBirth} onChange={handleInputChange} maxLength={100} /></div><div className="form-field"><label>Current Name Used</label><input type="text" name="currentNameUsed" value={formData.currentNameUsed} onChange={handleInputChange} maxLength={100}/></div></div>
+                    <div className="form-field"><label htmlFor="cipher">Name Cipher</label><select id="cipher" name="cipher" value={formData.cipher ?? DEFAULT_ENGLISH_CIPHER} onChange={handleInputChange}>{ENGLISH_CIPHERS.map(c => <option key={c.id} value={c.id} title={c.description}>{c.name}</option>)}</select></div>
                     <div className="form-subgrid"><div className="form-field"><label>Birth Date</label><input type="date" name="birthDate" value={formData.birthDate} onChange={handleInputChange}/></div><div className="form-field"><label>Birth Time</label><input type="time" name="birthTime" value={formData.birthTime} onChange={handleInputChange}/></div></div>
                     <div className="form-field"><label>Birth Location (City, Country)</label><input type="text" name="birthLocation" value={formData.birthLocation} onChange={handleInputChange} maxLength={200}/></div>
                 </div>
@@ -601,19 +656,58 @@ export const TextualCartographerForm: FC<{ onQuery: (data: TextualCartographerFo
         }
     }, [availableBooks, formData.book]);
 
-    const handleInputChange = (e: React.ChangeEvent<HTMLSelectElement>) => setFormData({ ...formData, [e.target.name]: e.target.value });
+    // Chapter and verse numbers of the selected book, from its verse index
+    const chapters = useMemo(() => {
+        const spans = formData.book ? AstrianEngine.getBookIndex(formData.corpus, formData.book)?.spans ?? [] : [];
+        return spans.reduce((map, span) => map.set(span.chapter, [...(map.get(span.chapter) || []), span.verse]), new Map<number, number[]>());
+    }, [formData.corpus, formData.book]);
+
+    const handleInputChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        if (name === 'chapter' || name === 'verse') {
+            const number = value ? Number(value) : undefined;
+            setFormData(f => name === 'chapter' ? { ...f, chapter: number, verse: undefined } : { ...f, verse: number });
+        } else {
+            setFormData(f => ({ ...f, [name]: value, chapter: undefined, verse: undefined }));
+        }
+    };
     const handleSubmit = (e: React.FormEvent) => { e.preventDefault(); onQuery(formData); };
 
-    return <AnalysisForm title="Textual Cartographer" onBack={onBack}><form onSubmit={handleSubmit} className="atc-form"><div className="atc-section"><h4 className="atc-section-title">Source Text Selection</h4><p className="section-description">Select a corpus and a book to perform a deep, general analysis from the internal library.</p><div className="form-field"><label htmlFor="corpus">Corpus</label><select id="corpus" name="corpus" value={formData.corpus} onChange={handleInputChange}>{corpusList.map(c => <option key={c} value={c}>{c}</option>)}</select></div><div className="form-field"><label htmlFor="book">Book</label><select id="book" name="book" value={formData.book} onChange={handleInputChange} disabled={!availableBooks.length}>{availableBooks.map(b => <option key={b} value={b}>{b}</option>)}</select></div></div><div className="form-actions" style={{justifyContent: 'center'}}><button type="submit" className="action-btn deepen-btn">Chart the Territory</button></div></form></AnalysisForm>;
+    return <AnalysisForm title="Textual Cartographer" onBack={onBack}><form onSubmit={handleSubmit} className="atc-form"><div className="atc-section"><h4 className="atc-section-title">Source Text Selection</h4><p className="section-description">Select a corpus and a book to perform a deep, general analysis from the internal library, or narrow it to a chapter or verse.</p><div className="form-field"><label htmlFor="corpus">Corpus</label><select id="corpus" name="corpus" value={formData.corpus} onChange={handleInputChange}>{corpusList.map(c => <option key={c} value={c}>{c}</option>)}</select></div><div className="form-field"><label htmlFor="book">Book</label><select id="book" name="book" value={formData.book} onChange={handleInputChange} disabled={!availableBooks.length}>{availableBooks.map(b => <option key={b} value={b}>{b}</option>)}</select></div><div className="form-field"><label htmlFor="chapter">Chapter (Optional)</label><select id="chapter" name="chapter" value={formData.chapter ?? ''} onChange={handleInputChange} disabled={!chapters.size}><option value="">Whole book</option>{Array.from(chapters.keys()).map(c => <option key={c} value={c}>{c}</option>)}</select></div><div className="form-field"><label htmlFor="verse">Verse (Optional)</label><select id="verse" name="verse" value={formData.verse ?? ''} onChange={handleInputChange} disabled={!formData.chapter}><option value="">Whole chapter</option>{(formData.chapter ? chapters.get(formData.chapter) || [] : []).map(v => <option key={v} value={v}>{v}</option>)}</select></div></div><div className="form-actions" style={{justifyContent: 'center'}}><button type="submit" className="action-btn deepen-btn">Chart the Territory</button></div></form></AnalysisForm>;
 };
 
-export const ELSInvestigator: FC<{ onBack: () => void, onAnalyze: (result: ELSResult, context: { corpus: string, book: string }) => void }> = ({ onBack, onAnalyze }) => {
-    const [formData, setFormData] = useState<ELSInvestigatorFormData>({ corpus: corpusList[0], book: '', searchTerm: '', contextualSeed: '' });
-    const [results, setResults] = useState<ELSResult[] | null>(null);
-    const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+const ELS_PAGE_SIZE = 10;
+const ELS_DIRECTION_OPTIONS: { value: ElsDirection, label: string }[] = [{ value: 'forward', label: 'Forward' }, { value: 'backward', label: 'Reversed' }];
+const ELS_SCOPE_OPTIONS: { value: ElsBatchScope, label: string }[] = [{ value: 'book', label: 'This Book' }, { value: 'corpus', label: 'Every Book in Corpus' }, { value: 'all', label: 'Every Corpus' }];
+const ELS_AXIS_OPTIONS: { value: ElsAxis, label: string }[] = [{ value: 'linear', label: 'Linear' }, { value: 'vertical', label: 'Vertical' }, { value: 'diagonal', label: 'Diagonal' }, { value: 'antiDiagonal', label: 'Anti-diagonal' }];
+
+export const ELSInvestigator: FC<{ onBack: () => void, onAnalyze: (result: ELSResult, context: { corpus: string, book: string }) => void, onNumberInteract: (num: number) => void, onSendMessage: (message: string) => void }> = ({ onBack, onAnalyze, onNumberInteract, onSendMessage }) => {
+    const [formData, setFormData] = useState<ELSInvestigatorFormData>(() => ({ corpus: corpusList[0], book: '', searchTerm: '', contextualSeed: '', monteCarloTrials: 0, relatedTerms: '', minSkip: 1, maxSkip: 199, directions: ['forward', 'backward'], axes: ['linear'], maxResults: DEFAULT_ELS_RESULT_LIMIT, matchFinalForms: true, scope: 'book', correlateEvents: false, eventMaxSkip: ExternalEventRegistry.getThresholds().maxSkip, eventProximity: ExternalEventRegistry.getThresholds().proximity }));
+    const [hasSearched, setHasSearched] = useState(false);
+    const [page, setPage] = useState(0);
+    const [formError, setFormError] = useState<string | null>(null);
+    const { hits, findings, monteCarlo, matrix, progress, isRunning: isSearchRunning, error: searchError, start, cancel: cancelSearch } = useElsSearch();
+    const batch = useElsBatchSearch();
+    const [selectedRow, setSelectedRow] = useState<ElsBatchRow | null>(null);
+    const [searchedBook, setSearchedBook] = useState<{ corpus: string, book: string } | null>(null);
+    const isBatch = formData.scope !== undefined && formData.scope !== 'book';
+    const isRunning = isSearchRunning || batch.isRunning;
+    const cancel = () => { cancelSearch(); batch.cancel(); };
+    const selectedGrid = useMemo(() => {
+        const prepared = selectedRow && AstrianEngine.getElsIndex(selectedRow.corpus, selectedRow.book);
+        return prepared ? buildHitGrid(prepared, selectedRow.hit) : null;
+    }, [selectedRow]);
     const availableBooks = useCorpusBooks(formData.corpus);
     const isHebrewCorpus = useMemo(() => formData.corpus.includes("Hebrew"), [formData.corpus]);
+    const textLang = formData.corpus.includes("Greek") ? 'greek' : isHebrewCorpus ? 'hebrew' : 'english';
+    const results = useMemo(() => {
+        if (!hasSearched) return null;
+        const elsResults = hits.map(hit => withVerseLocation(hitToElsResult(hit), searchedBook, hit));
+        return monteCarlo ? attachMonteCarlo(elsResults, monteCarlo) : elsResults;
+    }, [hits, hasSearched, monteCarlo, searchedBook]);
+    const error = formError || searchError || batch.error;
+    const pageCount = Math.max(1, Math.ceil((results?.length ?? 0) / ELS_PAGE_SIZE));
+    const usesGridAxes = formData.axes?.some(axis => axis !== 'linear');
     
     useEffect(() => { 
         if (availableBooks.length > 0 && !availableBooks.includes(formData.book)) {
@@ -622,20 +716,301 @@ export const ELSInvestigator: FC<{ onBack: () => void, onAnalyze: (result: ELSRe
     }, [availableBooks, formData.book]);
     
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setFormData({ ...formData, [e.target.name]: e.target.value });
+    const toggleOption = (name: 'directions' | 'axes', value: string) => setFormData(f => {
+        const current: string[] = f[name] || [];
+        return { ...f, [name]: current.includes(value) ? current.filter(v => v !== value) : [...current, value] } as ELSInvestigatorFormData;
+    });
     
     const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault(); setError(null); setResults(null);
-        if (!formData.searchTerm) { setError("A search term is required."); return; }
-        setIsLoading(true);
-        setTimeout(() => {
-            const corpusData = AstrianEngine.getCorpus(formData.corpus);
-            const fullText = corpusData ? corpusData[formData.book] : undefined;
-            if (!fullText) { setError(`Corpus or book not found.`); setIsLoading(false); return; }
-            const elsResults = AstrianEngine.findELS(fullText, formData.searchTerm, formData.contextualSeed);
-            setResults(elsResults); setIsLoading(false);
-        }, 0);
+        e.preventDefault(); setFormError(null); setHasSearched(false); setPage(0); setSelectedRow(null); cancel();
+        if (!formData.searchTerm) { setFormError("A search term is required."); return; }
+        const corpusData = AstrianEngine.getCorpus(formData.corpus);
+        const fullText = isBatch ? '' : corpusData ? corpusData[formData.book] : undefined;
+        if (fullText === undefined) { setFormError(`Corpus or book not found.`); return; }
+        const minSkip = Number(formData.minSkip) || 1;
+        const maxSkip = Number(formData.maxSkip) || minSkip;
+        if (minSkip < 1 || maxSkip < minSkip) { setFormError("The skip range must start at 1 or more and end at or after its start."); return; }
+        if (!formData.directions?.length || !formData.axes?.length) { setFormError("Select at least one direction and one axis."); return; }
+        const terms = isBatch ? formData.searchTerm.split(',').map(term => term.trim()).filter(Boolean) : [formData.searchTerm];
+        const relatedTerms = (formData.relatedTerms || '').split(',').map(term => term.trim()).filter(Boolean);
+        try { [...terms, ...relatedTerms].forEach(term => compileElsPattern(term)); } catch (e) { setFormError(e instanceof Error ? e.message : "Invalid search pattern."); return; }
+        const request = AstrianEngine.buildFindElsRequest(fullText, formData.searchTerm, formData.contextualSeed, {
+            minSkip, maxSkip, directions: formData.directions, axes: formData.axes,
+            cylinderWidth: Number(formData.cylinderWidth) || undefined,
+            maxResults: Number(formData.maxResults) || DEFAULT_ELS_RESULT_LIMIT,
+            matchFinalForms: formData.matchFinalForms,
+        });
+        if (!request) { setFormError("The Contextual Seed has no Gematria value to use as a skip."); return; }
+        if (formData.correlateEvents) {
+            const eventMaxSkip = Number(formData.eventMaxSkip);
+            const eventProximity = Number(formData.eventProximity);
+            if (!Number.isInteger(eventMaxSkip) || eventMaxSkip < 1 || !Number.isInteger(eventProximity) || eventProximity < 0) { setFormError("The event skip range must be 1 or more and the proximity 0 or more, in whole letters."); return; }
+            request.significance = true;
+            request.externalEvents = ExternalEventRegistry.getRunOptions({ maxSkip: eventMaxSkip, proximity: eventProximity });
+        }
+        if (isBatch) {
+            const corpora = formData.scope === 'all' ? corpusList : [formData.corpus];
+            const targets = corpora.flatMap(corpus => Object.keys(AstrianEngine.getCorpus(corpus)).map(book => ({ corpus, book })));
+            request.terms = terms;
+            batch.start(targets, request);
+            return;
+        }
+        request.textKey = `${formData.corpus}/${formData.book}`;
+        const trials = Number(formData.monteCarloTrials) || 0;
+        if (trials > 0) request.monteCarlo = { trials, controls: ['letter', 'word'] };
+        if (relatedTerms.length > 0) request.matrix = { relatedTerms };
+        setSearchedBook({ corpus: formData.corpus, book: formData.book });
+        setHasSearched(true);
+        start(request);
     };
-    return <AnalysisForm title="ELS Investigator" onBack={onBack}><form onSubmit={handleSubmit}><div className="atc-section"><h4 className="atc-section-title">Investigation Parameters</h4><p className="section-description">Find hidden sequences. For a deeper search, provide a Contextual Seed (e.g., a name) to use its Gematria value as the required skip distance.</p><div className="form-field"><label>Corpus</label><select name="corpus" value={formData.corpus} onChange={handleInputChange}>{corpusList.map(c => <option key={c} value={c}>{c}</option>)}</select></div><div className="form-field"><label>Book</label><select name="book" value={formData.book} onChange={handleInputChange} disabled={!availableBooks.length}>{availableBooks.map(b => <option key={b} value={b}>{b}</option>)}</select></div><div className="form-field"><label>Search Term (in original language)</label><input type="text" name="searchTerm" className={isHebrewCorpus ? "hebrew-input" : ""} value={formData.searchTerm} onChange={handleInputChange} required maxLength={50} /></div><div className="form-field"><label>Contextual Seed (Optional, Hebrew)</label><input type="text" name="contextualSeed" className={isHebrewCorpus ? "hebrew-input" : ""} placeholder={isHebrewCorpus ? "e.g., דוד" : "e.g., David"} value={formData.contextualSeed} onChange={handleInputChange} maxLength={50}/></div></div><div className="form-actions" style={{justifyContent: 'center'}}><button type="submit" className="action-btn deepen-btn" disabled={isLoading}>{isLoading ? 'Investigating...' : 'Investigate'}</button></div></form>{isLoading && <LoadingIndicator text="INVESTIGATING..." />}{error && <ErrorMessage message={error} />}{results && (<div className="els-investigator-results card"><h3 className="results-title">{results.length > 0 ? `Found ${results.length} sequence(s)` : `No sequences found`}</h3><div className="els-list">{results.map((result, index) => (<div key={index} className="els-result-item" style={{'--highlight-index': index} as React.CSSProperties}><h4>Found: <span className="hebrew-text">{result.word}</span></h4><p>Direction: {result.direction}, Skip: {result.skip}</p><button onClick={() => onAnalyze(result, { corpus: formData.corpus, book: formData.book })} className="action-btn secondary-action">Analyze with ATC</button></div>))}</div></div>)}</AnalysisForm>;
+    return <AnalysisForm title="ELS Investigator" onBack={onBack}><form onSubmit={handleSubmit}><div className="atc-section"><h4 className="atc-section-title">Investigation Parameters</h4><p className="section-description">Find hidden sequences. For a deeper search, provide a Contextual Seed (e.g., a name) to use its Gematria value as the required skip distance.</p><div className="form-field"><label>Corpus</label><select name="corpus" value={formData.corpus} onChange={handleInputChange}>{corpusList.map(c => <option key={c} value={c}>{c}</option>)}</select></div><div className="form-field"><label>Scope</label><select name="scope" value={formData.scope} onChange={handleInputChange}>{ELS_SCOPE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}</select></div><div className="form-field"><label>Book</label><select name="book" value={formData.book} onChange={handleInputChange} disabled={!availableBooks.length || isBatch}>{availableBooks.map(b => <option key={b} value={b}>{b}</option>)}</select></div><div className="form-field"><label>{isBatch ? 'Search Terms (comma-separated)' : 'Search Term (in original language)'}</label><input type="text" name="searchTerm" className={isHebrewCorpus ? "hebrew-input" : ""} value={formData.searchTerm} onChange={handleInputChange} required maxLength={isBatch ? 200 : 50} /><p className="section-description">Patterns are allowed: <code>.</code> matches any letter, <code>[יו]</code> any one of the listed letters, and <code>?</code> makes the preceding letter optional, e.g. <span className="hebrew-text">ד[יו]?ד</span>.</p></div><div className="form-field"><label>Contextual Seed (Optional, Hebrew)</label><input type="text" name="contextualSeed" className={isHebrewCorpus ? "hebrew-input" : ""} placeholder={isHebrewCorpus ? "e.g., דוד" : "e.g., David"} value={formData.contextualSeed} onChange={handleInputChange} maxLength={50}/></div><div className="form-field"><label>Related Terms (Optional, comma-separated)</label><input type="text" name="relatedTerms" className={isHebrewCorpus ? "hebrew-input" : ""} placeholder={isHebrewCorpus ? "e.g., ישי, בית לחם" : "e.g., Jesse, Bethlehem"} value={formData.relatedTerms} onChange={handleInputChange} maxLength={200} /><p className="section-description">Searches for these terms around each finding and lays the most compact cluster out on a cylinder whose width divides the skip.</p></div><div className="form-field"><label>Monte Carlo Trials (Optional)</label><input type="number" name="monteCarloTrials" min={0} max={500} value={formData.monteCarloTrials} onChange={handleInputChange} /><p className="section-description">Reruns the search over this many letter-shuffled and word-shuffled copies of the book to estimate how often the findings occur by chance.</p></div><div className="form-field"><label className="checkbox-group"><input type="checkbox" checked={!!formData.correlateEvents} onChange={e => setFormData(f => ({ ...f, correlateEvents: e.target.checked }))} /> Correlate findings with external events (°events)</label>{formData.correlateEvents && <div className="els-skip-range"><input type="number" name="eventMaxSkip" min={1} value={formData.eventMaxSkip} onChange={handleInputChange} aria-label="Largest event skip" title="Largest skip at which event terms are searched" /><span>skips, within</span><input type="number" name="eventProximity" min={0} value={formData.eventProximity} onChange={handleInputChange} aria-label="Proximity in letters" title="Largest distance in letters between a finding and an event term" /><span>letters</span></div>}</div></div><div className="atc-section"><h4 className="atc-section-title">Search Options</h4><p className="section-description">Linear sequences read the book as one line. Vertical and diagonal sequences read it wrapped onto a cylinder, where the skip counts rows. A Contextual Seed overrides the skip range.</p><div className="form-field"><label>Skip Range</label><div className="els-skip-range"><input type="number" name="minSkip" min={1} value={formData.minSkip} onChange={handleInputChange} aria-label="Minimum skip" /><span>to</span><input type="number" name="maxSkip" min={1} value={formData.maxSkip} onChange={handleInputChange} aria-label="Maximum skip" /></div></div><div className="form-field"><label>Directions</label><div className="checkbox-group">{ELS_DIRECTION_OPTIONS.map(o => <label key={o.value}><input type="checkbox" checked={!!formData.directions?.includes(o.value)} onChange={() => toggleOption('directions', o.value)} /> {o.label}</label>)}</div></div><div className="form-field"><label>Axes</label><div className="checkbox-group">{ELS_AXIS_OPTIONS.map(o => <label key={o.value}><input type="checkbox" checked={!!formData.axes?.includes(o.value)} onChange={() => toggleOption('axes', o.value)} /> {o.label}</label>)}</div></div>{usesGridAxes && <div className="form-field"><label>Cylinder Width (Optional)</label><input type="number" name="cylinderWidth" min={2} placeholder="Square root of the book length" value={formData.cylinderWidth ?? ''} onChange={handleInputChange} /></div>}<div className="form-field"><label className="checkbox-group"><input type="checkbox" checked={!!formData.matchFinalForms} onChange={e => setFormData(f => ({ ...f, matchFinalForms: e.target.checked }))} /> Treat final letter forms (ך ם ן ף ץ) as their regular forms</label></div><div className="form-field"><label>Result Limit</label><input type="number" name="maxResults" min={1} value={formData.maxResults} onChange={handleInputChange} /></div></div><div className="form-actions" style={{justifyContent: 'center'}}><button type="submit" className="action-btn deepen-btn" disabled={isRunning}>{isRunning ? 'Investigating...' : 'Investigate'}</button>{isRunning && <button type="button" onClick={cancel} className="action-btn secondary-action">Cancel</button>}</div></form>{isSearchRunning && <ElsProgressBar percent={progress?.percent ?? 0} label={progress?.phase === 'monteCarlo' ? `${progress.percent}% · Monte Carlo controls` : progress ? `${progress.percent}% · skips ${progress.skipRange[0]}–${progress.skipRange[1]} · ${progress.hitsSoFar} hit(s)` : 'INVESTIGATING...'} />}{batch.isRunning && <ElsProgressBar percent={batch.progress ? Math.round((batch.progress.booksDone / Math.max(1, batch.progress.booksTotal)) * 100) : 0} label={batch.progress ? `${batch.progress.booksDone} of ${batch.progress.booksTotal} book(s) · ${batch.progress.current} · ${batch.rows.length} hit(s)` : 'INVESTIGATING...'} />}{error && <ErrorMessage message={error} />}{results && (results.length > 0 || !isRunning) && (<div className="els-investigator-results card"><h3 className="results-title">{results.length > 0 ? `Found ${results.length} sequence(s)${isRunning ? ' so far' : ''}` : `No sequences found`}</h3>{monteCarlo && <ElsMonteCarloSummary stat={monteCarlo.total} trials={monteCarlo.trials} />}<ElsEventCorrelations findings={findings} /><div className="els-list">{results.slice(page * ELS_PAGE_SIZE, (page + 1) * ELS_PAGE_SIZE).map((result, i) => { const index = page * ELS_PAGE_SIZE + i; return (<div key={index} className="els-result-item" style={{'--highlight-index': index} as React.CSSProperties}><h4>Found: <span className="hebrew-text">{result.word}</span></h4><p>Direction: {result.direction}, Skip: {result.skip}</p><p>{result.verses}</p>{result.monteCarlo && <ElsMonteCarloSummary stat={result.monteCarlo} trials={result.monteCarlo.trials} />}<button onClick={() => onAnalyze(result, { corpus: formData.corpus, book: formData.book })} className="action-btn secondary-action">Analyze with ATC</button>{isHebrewCorpus && <button type="button" onClick={() => onSendMessage(`°willow ${result.word}`)} className="action-btn secondary-action">Trace in Willow Network</button>}</div>); })}</div>{pageCount > 1 && <div className="els-pagination"><button type="button" onClick={() => setPage(p => p - 1)} disabled={page === 0} className="action-btn secondary-action">Previous</button><span>Page {page + 1} of {pageCount}</span><button type="button" onClick={() => setPage(p => p + 1)} disabled={page >= pageCount - 1} className="action-btn secondary-action">Next</button></div>}</div>)}{matrix && <ELSDisplay analysis={matrix} textLang={textLang} onNumberInteract={onNumberInteract} />}{isBatch && (batch.rows.length > 0 || batch.progress) && <ElsBatchResultsTable rows={batch.rows} selected={selectedRow} onSelect={setSelectedRow} />}{selectedRow && selectedGrid && <><ELSDisplay analysis={selectedGrid} textLang={selectedRow.corpus.includes("Greek") ? 'greek' : selectedRow.corpus.includes("Hebrew") ? 'hebrew' : 'english'} onNumberInteract={onNumberInteract} /><div className="form-actions" style={{justifyContent: 'center'}}><button onClick={() => onAnalyze(withVerseLocation(hitToElsResult(selectedRow.hit), selectedRow, selectedRow.hit), { corpus: selectedRow.corpus, book: selectedRow.book })} className="action-btn secondary-action">Analyze with ATC</button></div></>}</AnalysisForm>;
+};
+
+const ElsEventCorrelations: FC<{ findings: ElsSignificantFinding[] }> = ({ findings }) => {
+    const rows = findings.flatMap(finding => (finding.correlations || []).map(correlation => ({ finding, correlation })));
+    if (rows.length === 0) return null;
+    return <div className="els-event-correlations"><h4>External Event Correlations</h4><ul>{rows.map(({ finding, correlation }, i) => <li key={i}><strong>{correlation.eventName}</strong> · {correlation.kind}{correlation.datePart ? ` (${correlation.datePart})` : ''} · <span className="hebrew-text">{correlation.term}</span> · skip {finding.skip}</li>)}</ul></div>;
+};
+
+const ElsProgressBar: FC<{ percent: number, label: string }> = ({ percent, label }) => (
+    <div className="els-progress">
+        <div className="els-progress-track"><div className="els-progress-fill" style={{ width: `${percent}%` }} /></div>
+        <p className="els-progress-label">{label}</p>
+    </div>
+);
+
+/** The verse a hit starts in, e.g. "Genesis 1:3"; empty if the book has no verse index. */
+const locateElsHit = (corpus: string, book: string, hit: ElsHit): string => {
+    const location = AstrianEngine.locateTextIndex(corpus, book, hit.indices[0]);
+    return location ? formatVerseLocation(location) : '';
+};
+
+const withVerseLocation = (result: ELSResult, source: { corpus: string, book: string } | null, hit: ElsHit): ELSResult => {
+    const location = source ? locateElsHit(source.corpus, source.book, hit) : '';
+    return location ? { ...result, verses: `${location} · ${result.verses}` } : result;
+};
+
+type ElsBatchSortKey = 'corpus' | 'book' | 'location' | 'term' | 'matched' | 'skip' | 'direction' | 'start' | 'significance';
+const ELS_BATCH_COLUMNS: { key: ElsBatchSortKey, label: string, value: (row: ElsBatchRow) => string | number }[] = [
+    { key: 'corpus', label: 'Corpus', value: row => row.corpus },
+    { key: 'book', label: 'Book', value: row => row.book },
+    { key: 'location', label: 'Location', value: row => locateElsHit(row.corpus, row.book, row.hit) },
+    { key: 'term', label: 'Term', value: row => row.hit.term },
+    { key: 'matched', label: 'Matched', value: row => row.hit.matched },
+    { key: 'skip', label: 'Skip', value: row => row.hit.skip },
+    { key: 'direction', label: 'Direction', value: row => describeElsDirection(row.hit) },
+    { key: 'start', label: 'Start Index', value: row => row.hit.cleanedIndices[0] },
+    { key: 'significance', label: 'Significance', value: row => row.score },
+];
+
+const ElsBatchResultsTable: FC<{ rows: ElsBatchRow[], selected: ElsBatchRow | null, onSelect: (row: ElsBatchRow) => void }> = ({ rows, selected, onSelect }) => {
+    const [sort, setSort] = useState<{ key: ElsBatchSortKey, ascending: boolean }>({ key: 'significance', ascending: false });
+    const sortedRows = useMemo(() => {
+        const column = ELS_BATCH_COLUMNS.find(c => c.key === sort.key)!;
+        return [...rows].sort((a, b) => {
+            const x = column.value(a), y = column.value(b);
+            const order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+            return sort.ascending ? order : -order;
+        });
+    }, [rows, sort]);
+    const toggleSort = (key: ElsBatchSortKey) => setSort(s => ({ key, ascending: s.key === key ? !s.ascending : true }));
+
+    return <div className="els-investigator-results card"><h3 className="results-title">{rows.length > 0 ? `Found ${rows.length} sequence(s)` : 'No sequences found yet'}</h3><div className="els-batch-table-container"><table className="els-batch-table"><thead><tr>{ELS_BATCH_COLUMNS.map(c => <th key={c.key} onClick={() => toggleSort(c.key)} aria-sort={sort.key === c.key ? (sort.ascending ? 'ascending' : 'descending') : 'none'}>{c.label}{sort.key === c.key ? (sort.ascending ? ' ▲' : ' ▼') : ''}</th>)}</tr></thead><tbody>{sortedRows.map((row, index) => <tr key={index} className={row === selected ? 'selected' : ''} onClick={() => onSelect(row)} title={row.significance.join('\n')}>{ELS_BATCH_COLUMNS.map(c => <td key={c.key} className={c.key === 'term' || c.key === 'matched' ? 'hebrew-text' : ''}>{c.value(row)}</td>)}</tr>)}</tbody></table></div></div>;
+};
+
+const EMPTY_EVENT_FORM = { id: '', name: '', date: '', keywords: '', location: '' };
+
+export const ExternalEventsManager: FC<{ onBack: () => void }> = ({ onBack }) => {
+    const registry = useExternalEventRegistry();
+    const [form, setForm] = useState(EMPTY_EVENT_FORM);
+    const [thresholds, setThresholds] = useState(registry.thresholds);
+    const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => setThresholds(registry.thresholds), [registry.thresholds]);
+
+    const handleFormChange = (e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, [e.target.name]: e.target.value });
+    const editEvent = (event: ExternalEvent) => setForm({ id: event.id, name: event.name, date: event.date, keywords: event.keywords.join(', '), location: event.location ?? '' });
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        const saved = registry.save({ id: form.id || undefined, name: form.name, date: form.date, keywords: form.keywords.split(',').map(k => k.trim()).filter(Boolean), location: form.location || undefined });
+        if (saved) setForm(EMPTY_EVENT_FORM);
+    };
+    const handleExport = () => {
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(new Blob([registry.exportJson()], { type: 'application/json' }));
+        link.download = 'astrian-key-external-events.json';
+        link.click();
+        URL.revokeObjectURL(link.href);
+    };
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) registry.importJson(await file.text(), importMode);
+        e.target.value = '';
+    };
+
+    return <AnalysisForm title="External Events" onBack={onBack} description="ELS findings are checked for nearby encodings of each event's name, date, Hebrew keywords and location.">
+        <div className="atc-section"><h4 className="atc-section-title">Registered Events</h4>{registry.events.length > 0 ? <ul className="history-list">{registry.events.map(event => <li key={event.id} className="history-item external-event-item"><div><p className="history-query">{event.name} <span>({event.date}{event.location ? `, ${event.location}` : ''})</span></p><p className="hebrew-text">{event.keywords.join(' · ')}</p></div><div className="external-event-actions"><button type="button" onClick={() => editEvent(event)} className="action-btn secondary-action">Edit</button><button type="button" onClick={() => registry.remove(event.id)} className="action-btn error-action">Remove</button></div></li>)}</ul> : <p>No events are registered.</p>}</div>
+        <form onSubmit={handleSave} className="atc-section"><h4 className="atc-section-title">{form.id ? 'Edit Event' : 'Add Event'}</h4><div className="form-field"><label>Name</label><input type="text" name="name" value={form.name} onChange={handleFormChange} required maxLength={100} /></div><div className="form-field"><label>Date</label><input type="date" name="date" value={form.date} onChange={handleFormChange} required /></div><div className="form-field"><label>Hebrew Keywords (comma-separated)</label><input type="text" name="keywords" className="hebrew-input" placeholder="e.g., ירח, נחיתה" value={form.keywords} onChange={handleFormChange} maxLength={200} /></div><div className="form-field"><label>Location (Optional)</label><input type="text" name="location" value={form.location} onChange={handleFormChange} maxLength={100} /></div><div className="form-actions" style={{justifyContent: 'center'}}><button type="submit" className="action-btn deepen-btn">{form.id ? 'Save Event' : 'Add Event'}</button>{form.id && <button type="button" onClick={() => setForm(EMPTY_EVENT_FORM)} className="action-btn secondary-action">Cancel</button>}</div></form>
+        <div className="atc-section"><h4 className="atc-section-title">Default Thresholds</h4><p className="section-description">Used by runs that do not set their own; the ELS Investigator can override them per run.</p><div className="form-field"><label>Event Skip Range and Proximity</label><div className="els-skip-range"><input type="number" min={1} value={thresholds.maxSkip} onChange={e => setThresholds({ ...thresholds, maxSkip: Number(e.target.value) })} aria-label="Largest event skip" /><span>skips, within</span><input type="number" min={0} value={thresholds.proximity} onChange={e => setThresholds({ ...thresholds, proximity: Number(e.target.value) })} aria-label="Proximity in letters" /><span>letters</span></div></div><div className="form-actions" style={{justifyContent: 'center'}}><button type="button" onClick={() => registry.setThresholds(thresholds)} className="action-btn secondary-action">Save Thresholds</button></div></div>
+        {registry.error && <ErrorMessage message={registry.error} />}
+        <div className="session-actions"><button type="button" onClick={handleExport} className="action-btn">Export JSON</button><select value={importMode} onChange={e => setImportMode(e.target.value as 'merge' | 'replace')} aria-label="Import mode"><option value="merge">Merge on import</option><option value="replace">Replace on import</option></select><button type="button" onClick={() => fileRef.current?.click()} className="action-btn">Import JSON</button><input ref={fileRef} type="file" accept="application/json,.json" onChange={handleImport} style={{ display: 'none' }} /><button type="button" onClick={registry.reset} className="action-btn error-action">Restore Defaults</button></div>
+    </AnalysisForm>;
+};
+
+const GEMATRIA_SYSTEM_LABELS: Record<GematriaSystem, string> = { hebrew: 'Hebrew (standard)', greek: 'Greek (isopsephy)', english: 'English (Chaldean)' };
+const MAX_LOOKUP_ROWS = 200;
+
+/** Reverse gematria: every word and phrase in the corpora with a value, each location opening its verse. */
+export const GematriaLookupView: FC<{ value?: number, onBack: () => void, onJump: (corpus: string, location: VerseLocation) => void, onNumberInteract: (num: number) => void }> = ({ value, onBack, onJump, onNumberInteract }) => {
+    const [query, setQuery] = useState(value !== undefined ? String(value) : '');
+    const [system, setSystem] = useState<GematriaSystem | ''>('');
+    const [corpus, setCorpus] = useState('');
+    const target = Number(query);
+
+    const { entries, error } = useMemo(() => {
+        if (!query || !Number.isInteger(target) || target <= 0) return { entries: [] as GematriaIndexEntry[], error: null };
+        try {
+            return { entries: AstrianEngine.reverseGematria(target, { system: system || undefined, corpus: corpus || undefined }), error: null };
+        } catch (e) {
+            return { entries: [] as GematriaIndexEntry[], error: e instanceof Error ? e.message : 'The lookup failed.' };
+        }
+    }, [query, target, system, corpus]);
+
+    return <AnalysisForm title="Reverse Gematria" onBack={onBack} description="Words and two-word phrases from every corpus with a value: Hebrew in standard gematria, Greek in isopsephy, English in Chaldean.">
+        <div className="atc-section"><div className="form-subgrid"><div className="form-field"><label htmlFor="lookup-value">Value</label><input id="lookup-value" type="number" min={1} value={query} onChange={e => setQuery(e.target.value)} /></div><div className="form-field"><label htmlFor="lookup-system">System</label><select id="lookup-system" value={system} onChange={e => setSystem(e.target.value as GematriaSystem | '')}><option value="">All systems</option>{Object.entries(GEMATRIA_SYSTEM_LABELS).map(([id, label]) => <option key={id} value={id}>{label}</option>)}</select></div><div className="form-field"><label htmlFor="lookup-corpus">Corpus</label><select id="lookup-corpus" value={corpus} onChange={e => setCorpus(e.target.value)}><option value="">All corpora</option>{corpusList.map(c => <option key={c} value={c}>{c}</option>)}</select></div></div></div>
+        {error && <ErrorMessage message={error} />}
+        {query && !error && <div className="atc-section"><h4 className="atc-section-title">{entries.length > 0 ? `${entries.length} match(es) for ` : 'No matches for '}<InteractiveNumber value={target} onInteract={onNumberInteract}/>{entries.length > MAX_LOOKUP_ROWS ? ` (showing ${MAX_LOOKUP_ROWS})` : ''}</h4>{entries.length > 0 && <div className="els-batch-table-container"><table className="cipher-table"><thead><tr><th>Word</th><th>System</th><th>Corpus</th><th>Occurrences</th><th>Locations</th></tr></thead><tbody>{entries.slice(0, MAX_LOOKUP_ROWS).map(entry => <tr key={`${entry.corpus}-${entry.system}-${entry.text}`}><td className={entry.system === 'hebrew' ? 'hebrew-text' : ''}>{entry.text}</td><td>{GEMATRIA_SYSTEM_LABELS[entry.system]}</td><td>{entry.corpus}</td><td>{entry.occurrences}</td><td className="lookup-locations">{entry.locations.map((location, i) => <button key={i} type="button" className="lookup-location" onClick={() => onJump(entry.corpus, location)}>{formatVerseLocation(location)}</button>)}{entry.occurrences > entry.locations.length ? ` +${entry.occurrences - entry.locations.length} more` : ''}</td></tr>)}</tbody></table></div>}</div>}
+    </AnalysisForm>;
+};
+
+const WILLOW_NODE_RADIUS = 16;
+const WILLOW_STEP_MS = 700;
+const WILLOW_WALK_COLOR = '#ffd700';
+
+// A line between two letters, trimmed to the rims of their circles so arrowheads stay visible.
+const willowSegment = (from: { x: number, y: number }, to: { x: number, y: number }) => {
+    const dx = to.x - from.x, dy = to.y - from.y, length = Math.hypot(dx, dy) || 1;
+    const ux = dx / length, uy = dy / length;
+    return { x1: from.x + ux * WILLOW_NODE_RADIUS, y1: from.y + uy * WILLOW_NODE_RADIUS, x2: to.x - ux * (WILLOW_NODE_RADIUS + 3), y2: to.y - uy * (WILLOW_NODE_RADIUS + 3) };
+};
+
+/** The Willow network of letter spellings, with any word traced through it letter by letter. */
+export const WillowNetworkView: FC<{ word?: string, onBack: () => void, onNumberInteract: (num: number) => void }> = ({ word, onBack, onNumberInteract }) => {
+    const [query, setQuery] = useState(word ?? '');
+    const [hovered, setHovered] = useState<string | null>(null);
+    const [step, setStep] = useState(0);
+    const [replay, setReplay] = useState(0);
+    const [network, setNetwork] = useState<HebrewAlphabetNetwork>(hebrewAlphabetNetwork);
+    const [networkName, setNetworkName] = useState('Willow Network');
+    const [importError, setImportError] = useState<string | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const fileRef = useRef<HTMLInputElement>(null);
+    const nodes: Map<string, HebrewLetterNode> = network.getAllNodes();
+    const analysis: NetworkAnalysis = network.analyze();
+    const layout = useMemo(() => layoutNetwork(nodes, analysis), [nodes, analysis]);
+    const path = useMemo(() => network.projectPath(extractHebrewLetters(query).length > 0 ? query : bestHebrewSpelling(query)), [network, query]);
+    const walk = path.letters;
+
+    useEffect(() => setStep(0), [walk, replay]);
+    useEffect(() => {
+        if (step >= walk.length) return;
+        const timer = setTimeout(() => setStep(step + 1), WILLOW_STEP_MS);
+        return () => clearTimeout(timer);
+    }, [step, walk]);
+
+    const visited = new Set(walk.slice(0, step));
+    const walkedEdges = walk.slice(0, step).slice(1).map((letter, i) => ({ from: walk[i], to: letter }));
+    const islandOf = (letter: string) => analysis.islands.find(island => island.letters.includes(letter));
+    const detail = hovered ? nodes.get(hovered) : undefined;
+    const download = (href: string, extension: string) => { const link = document.createElement('a'); link.href = href; link.download = `willow-network.${extension}`; link.click(); };
+    const handleSvgDownload = () => { if (!svgRef.current) return; const href = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(svgRef.current)], { type: 'image/svg+xml' })); download(href, 'svg'); URL.revokeObjectURL(href); };
+    const handlePngDownload = () => { if (containerRef.current) htmlToImage.toPng(containerRef.current, { backgroundColor: '#0c0a1d' }).then(url => download(url, 'png')); };
+    const handleNetworkDownload = (format: NetworkFormat) => { const href = URL.createObjectURL(new Blob([network.serialize(format.id, networkName)], { type: format.mimeType })); download(href, format.extensions[0]); URL.revokeObjectURL(href); };
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const format = networkFormatOfFile(file.name);
+        try {
+            if (!format) throw new Error(`${file.name} is not a network file; import ${NETWORK_FORMATS.map(f => `.${f.extensions[0]}`).join(', ')}.`);
+            setNetwork(importHebrewAlphabetNetwork(await file.text(), format.id));
+            setNetworkName(file.name.replace(/\.[^.]+$/, ''));
+            setImportError(null);
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : 'The network could not be imported.');
+        }
+    };
+    const handleRestore = () => { setNetwork(hebrewAlphabetNetwork); setNetworkName('Willow Network'); setImportError(null); };
+
+    return <AnalysisForm title="The Willow Network" onBack={onBack} description="Each letter points to the letters of its name. Islands gather around their loops; hubs are ringed in gold. Hover a letter for its values, trace a word through the network, or export it to GraphML, DOT or JSON-LD and import networks built in other graph tools.">
+        <div className="atc-section"><div className="form-field"><label htmlFor="willow-word">Word to trace (Hebrew, or a name in English)</label><input id="willow-word" type="text" className="hebrew-input" value={query} onChange={e => setQuery(e.target.value)} maxLength={50} /></div>{walk.length > 0 && <p className="section-description">Tracing <span className="hebrew-text">{walk.join('')}</span> · <NetworkPathSummary path={path} /></p>}{network !== hebrewAlphabetNetwork && <p className="section-description">Showing the imported network {networkName}: {analysis.islands.length} islands, {analysis.hubs.length} hubs, {analysis.selfLoops.length} self-loops.</p>}</div>
+        <div ref={containerRef} className="willow-network">
+            <svg ref={svgRef} xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${layout.size} ${layout.size}`} role="img" aria-label="The Willow network of Hebrew letter spellings">
+                <defs>
+                    <marker id="willow-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill="rgba(255,255,255,0.45)" /></marker>
+                    <marker id="willow-walk-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill={WILLOW_WALK_COLOR} /></marker>
+                </defs>
+                <rect width={layout.size} height={layout.size} fill="#0c0a1d" />
+                {layout.islandLabels.map(label => <text key={label.name} x={label.x} y={label.y} textAnchor="middle" fontSize={12} fill="rgba(255,255,255,0.6)" fontFamily="sans-serif">{label.name}</text>)}
+                {layout.edges.map(edge => <line key={`${edge.from}${edge.to}`} {...willowSegment(layout.positions.get(edge.from)!, layout.positions.get(edge.to)!)} stroke={hovered && (edge.from === hovered || edge.to === hovered) ? 'rgba(255,255,255,0.9)' : 'rgba(255,255,255,0.25)'} strokeWidth={1} markerEnd="url(#willow-arrow)" />)}
+                {analysis.selfLoops.map(letter => { const { x, y } = layout.positions.get(letter)!; const angle = Math.atan2(y - layout.size / 2, x - layout.size / 2); return <circle key={letter} cx={x + Math.cos(angle) * WILLOW_NODE_RADIUS * 1.4} cy={y + Math.sin(angle) * WILLOW_NODE_RADIUS * 1.4} r={WILLOW_NODE_RADIUS * 0.7} fill="none" stroke="rgba(255,255,255,0.35)" />; })}
+                {walkedEdges.filter(edge => edge.from !== edge.to).map((edge, i) => <line key={`walk-${i}`} {...willowSegment(layout.positions.get(edge.from)!, layout.positions.get(edge.to)!)} stroke={WILLOW_WALK_COLOR} strokeWidth={2.5} markerEnd="url(#willow-walk-arrow)" />)}
+                {Array.from(nodes.values()).filter(node => layout.positions.has(node.letter)).map(node => { const { x, y } = layout.positions.get(node.letter)!; const isHub = analysis.hubs.includes(node.letter); return <g key={node.letter} onMouseEnter={() => setHovered(node.letter)} onMouseLeave={() => setHovered(null)} style={{ cursor: 'pointer' }}><circle cx={x} cy={y} r={WILLOW_NODE_RADIUS} fill={node.color || '#888'} stroke={visited.has(node.letter) ? '#ffffff' : isHub ? WILLOW_WALK_COLOR : 'none'} strokeWidth={visited.has(node.letter) ? 3 : 2} opacity={walk.length > 0 && !visited.has(node.letter) ? 0.55 : 1} /><text x={x} y={y + 6} textAnchor="middle" fontSize={17} fill="#0c0a1d" fontFamily="serif">{node.letter}</text><title>{`${node.letter} ${node.phonetic}`}</title></g>; })}
+            </svg>
+        </div>
+        {detail && <div className="atc-section willow-detail"><h4 className="atc-section-title"><span className="hebrew-text">{detail.letter}</span> {detail.phonetic}</h4><p>Gematria <InteractiveNumber value={detail.gematria} onInteract={onNumberInteract} /> · Full value <InteractiveNumber value={detail.fullValue} onInteract={onNumberInteract} /> · Spelling <span className="hebrew-text">{detail.spelling.join('')}</span></p><p>Island {islandOf(detail.letter)?.name ?? '—'} (tier {islandOf(detail.letter)?.tier ?? '—'}){analysis.hubs.includes(detail.letter) ? ' · Hub' : ''}{analysis.selfLoops.includes(detail.letter) ? ' · Self-loop' : ''}</p></div>}
+        <div className="els-actions">{walk.length > 0 && <button type="button" onClick={() => setReplay(r => r + 1)} className="els-action-btn">Replay Trace</button>}<button type="button" onClick={handleSvgDownload} className="els-action-btn">Download SVG</button><button type="button" onClick={handlePngDownload} className="els-action-btn">Download PNG</button>{NETWORK_FORMATS.map(format => <button key={format.id} type="button" onClick={() => handleNetworkDownload(format)} className="els-action-btn">Download {format.name}</button>)}<button type="button" onClick={() => fileRef.current?.click()} className="els-action-btn">Import Network</button><input ref={fileRef} type="file" accept={NETWORK_FORMATS.flatMap(format => format.extensions.map(extension => `.${extension}`)).join(',')} onChange={handleImport} style={{ display: 'none' }} />{network !== hebrewAlphabetNetwork && <button type="button" onClick={handleRestore} className="els-action-btn">Restore Willow Network</button>}</div>
+        {importError && <ErrorMessage message={importError} />}
+    </AnalysisForm>;
+};
+
+/** Chants any pointed Hebrew pasted in, by its ta'amim. */
+export const CantillationView: FC<{ text?: string, onBack: () => void }> = ({ text, onBack }) => {
+    const [pointed, setPointed] = useState(text || SAMPLE_CANTILLATION_TEXT);
+    return <AnalysisForm title="Cantillation" onBack={onBack} description="Paste Hebrew with its niqqud and ta'amim (the cantillation marks) to hear it chanted. The corpora are unpointed, so Genesis 1:1 is given to start with.">
+        <div className="atc-section"><div className="form-field"><label htmlFor="cantillation-text">Pointed Hebrew</label><textarea id="cantillation-text" className="hebrew-input" dir="rtl" rows={4} value={pointed} onChange={e => setPointed(e.target.value)} maxLength={4000} /></div><div className="els-actions"><button type="button" onClick={() => setPointed(SAMPLE_CANTILLATION_TEXT)} className="els-action-btn">Use Genesis 1:1</button></div></div>
+        {hasCantillation(pointed) ? <CantillationDisplay text={pointed} /> : <p className="section-description">This text carries no ta'amim (U+0591–U+05AF), so there is nothing to chant.</p>}
+    </AnalysisForm>;
+};
+
+const MiluiTreeBranch: FC<{ node: MiluiTreeNode, depth: number }> = ({ node, depth }) => {
+    const label = <><span className="hebrew-text">{node.letter}</span> {node.value}{node.children.length > 0 ? ` → ${node.expandedValue}` : ''}</>;
+    if (node.children.length === 0) return <li className="milui-leaf">{label}</li>;
+    return <li><details open={depth === 0}><summary>{label}</summary><ul className="milui-tree">{node.children.map((child, i) => <MiluiTreeBranch key={i} node={child} depth={depth + 1} />)}</ul></details></li>;
+};
+
+/** Recursive milui: a text spelled out letter by letter, and those letters in turn, level by level. */
+export const MiluiExpansionView: FC<{ text?: string, onBack: () => void, onNumberInteract: (num: number) => void }> = ({ text, onBack, onNumberInteract }) => {
+    const [query, setQuery] = useState(text || 'יהוה');
+    const [traditionId, setTraditionId] = useState('mah');
+    const [depth, setDepth] = useState('3');
+    const { expansion, error } = useMemo(() => {
+        try {
+            return { expansion: getHebrewAlphabetNetwork(traditionId).expandMilui(query, Number(depth)), error: null };
+        } catch (e) {
+            return { expansion: null, error: e instanceof Error ? e.message : 'The expansion failed.' };
+        }
+    }, [query, traditionId, depth]);
+    const handleDownload = () => {
+        if (!expansion) return;
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(new Blob([JSON.stringify({ tradition: traditionId, ...expansion }, null, 2)], { type: 'application/json' }));
+        link.download = `milui-${traditionId}-depth-${expansion.depth}.json`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+    };
+
+    return <AnalysisForm title="Milui Expansion" onBack={onBack} description="Spell each letter out as its name, then spell out the letters of the names, to any depth. The fillings of the Name (ע״ב, ס״ג, מ״ה, ב״ן) differ in how they spell yud, he and vav.">
+        <div className="atc-section"><div className="form-subgrid"><div className="form-field"><label htmlFor="milui-text">Hebrew text</label><input id="milui-text" type="text" className="hebrew-input" value={query} onChange={e => setQuery(e.target.value)} maxLength={50} /></div><div className="form-field"><label htmlFor="milui-tradition">Spelling</label><select id="milui-tradition" value={traditionId} onChange={e => setTraditionId(e.target.value)}>{SPELLING_TRADITIONS.map(t => <option key={t.id} value={t.id} title={t.description}>{t.name}</option>)}</select></div><div className="form-field"><label htmlFor="milui-depth">Depth</label><input id="milui-depth" type="number" min={0} max={MAX_MILUI_DEPTH} value={depth} onChange={e => setDepth(e.target.value)} /></div></div></div>
+        {error && <ErrorMessage message={error} />}
+        {expansion && expansion.tree.length > 0 && <>
+            <div className="atc-section"><h4 className="atc-section-title">Gematria by Level</h4><div className="els-batch-table-container"><table className="cipher-table"><thead><tr><th>Depth</th><th>Letters</th><th>Gematria</th><th>Growth</th></tr></thead><tbody>{expansion.levels.map(level => <tr key={level.depth} className={level.depth === expansion.convergedAt ? 'selected' : ''}><td>{level.depth}</td><td>{level.letterCount.toLocaleString()}</td><td><InteractiveNumber value={level.gematria} onInteract={onNumberInteract} /></td><td>{level.growth !== null ? `×${level.growth.toFixed(4)}` : '—'}</td></tr>)}</tbody></table></div><p className="section-description">{expansion.convergedAt !== null ? `The growth ratio holds steady from depth ${expansion.convergedAt}.` : `The growth ratio has not settled by depth ${expansion.depth}.`}</p></div>
+            <div className="atc-section"><h4 className="atc-section-title">Spelling Tree</h4><p className="section-description">Each letter with its value and, where it is spelled out, the value of its expansion to depth {expansion.depth}.{expansion.treeTruncated ? ` The tree is cut short at ${MAX_MILUI_TREE_NODES} letters; the table above covers every level.` : ''}</p><ul className="milui-tree">{expansion.tree.map((node, i) => <MiluiTreeBranch key={i} node={node} depth={0} />)}</ul></div>
+            <div className="els-actions"><button type="button" onClick={handleDownload} className="els-action-btn">Download JSON</button></div>
+        </>}
+    </AnalysisForm>;
 };
 
 export const GenericQueryForm: FC<{ onQuery: (query: string) => void, onBack: () => void, title: string, prompt: string, inputLabel: string }> = ({ onQuery, onBack, title, prompt, inputLabel }) => {
@@ -695,10 +1070,16 @@ const CallSignMenu: FC<{ onSelect: (sign: string) => void, onClose: () => void,
     const callSigns = [
         { sign: '°atc', name: 'Textual Cartographer', description: 'Analyze a book from a corpus.' },
         { sign: '°els', name: 'ELS Investigator', description: 'Find equidistant letter sequences.' },
+        { sign: '°events', name: 'External Events', description: 'Manage the events ELS findings are correlated with.' },
         { sign: '°awe', name: 'Astrian Signature', description: 'View/edit your personal resonance profile.' },
         { sign: '°oracular', name: 'Oracular Lens', description: 'Ask a question using search grounding.' },
         { sign: '°palm', name: 'Palmistry', description: 'Read the lines of your hand.' },
         { sign: '°voice', name: 'Voice Resonance', description: 'Analyze your vocal signature.' },
+        { sign: '°lookup', name: 'Reverse Gematria', description: 'Find the words with a value: °lookup <number>.' },
+        { sign: '°willow', name: 'Willow Network', description: 'Explore the alphabet network, or trace a word through it: °willow [word].' },
+        { sign: '°milui', name: 'Milui Expansion', description: 'Spell letters out recursively to any depth: °milui [text].' },
+        { sign: '°chant', name: 'Cantillation', description: "Chant pointed Hebrew by its ta'amim: °chant [pointed text]." },
+        { sign: '°key', name: 'Astrian Key', description: 'Resonate a word or phrase: °key [cipher] <query>.' },
         { sign: '°entrain', name: 'Brainwave Entrainment', description: 'Select a consciousness state.' },
         { sign: '°planner', name: 'Astrian Day Planner', description: 'Requires complete Signature.', disabled: !isPlannerUnlocked },
         { sign: '°session', name: 'Session Management', description: 'View and manage session history.' },
@@ -778,6 +1159,11 @@ export const ChatView: FC<{
             case 'aweForm': return <AWEForm {...componentProps} />;
             case 'atcForm': return <TextualCartographerForm {...componentProps} />;
             case 'elsInvestigator': return <ELSInvestigator {...componentProps} />;
+            case 'externalEvents': return <ExternalEventsManager {...componentProps} />;
+            case 'gematriaLookup': return <GematriaLookupView {...componentProps} />;
+            case 'willowNetwork': return <WillowNetworkView {...componentProps} />;
+            case 'miluiExpansion': return <MiluiExpansionView {...componentProps} />;
+            case 'cantillation': return <CantillationView {...componentProps} />;
             case 'oracularLens': return <GenericQueryForm {...componentProps} title="The Oracular Lens" prompt="Ask any question. The system will use Google Search to provide a grounded answer." inputLabel="Your Question"/>;
             case 'session': return <SessionManagementView {...componentProps}/>;
             case 'palmistry': return <PalmistryView {...componentProps} />;
@@ -886,8 +1272,13 @@ export const EntrainmentView: FC<{ profile: EntrainmentProfile, onStop: () => vo
     return <div className="entrainment-view"><div className="entrainment-controls card"><div className="entrainment-display"><canvas ref={visualizerRef} id="visual-entrainment" width="400" height="400"></canvas></div><p>{profile.explanation}</p><button className="action-btn secondary-action" onClick={onStop}>End Session</button></div></div>;
 };
 
+const IntegrityStatsSummary: FC<{ stats: IntegrityStats }> = ({ stats }) => {
+    const kinds = (Object.keys(stats.byKind) as IntegrityClaimKind[]).filter(kind => stats.byKind[kind].checked > 0);
+    return <div className="integrity-stats"><h4>Mathematical Integrity Check</h4>{stats.responses === 0 ? <p>No model numbers have been checked this session.</p> : <><p>{stats.responsesWithDiscrepancies} of {stats.responses} checked response(s) held a wrong number.</p><ul>{kinds.map(kind => <li key={kind}>{kind}: {stats.byKind[kind].mismatched} of {stats.byKind[kind].checked} claim(s) corrected</li>)}</ul></>}</div>;
+};
+
 export const SessionManagementView: FC<{ history: AIMessage[], onBack: () => void, onClear?: () => void, onDownload?: () => void }> = ({ history, onBack, onClear, onDownload }) => (
-    <div className="session-management-view card"><h1>Session History</h1>{history.length > 0 ? (<ul className="history-list">{history.map(record => (<li key={record.id} className="history-item" ><p className="history-query">{record.id} <span>({record.analysisType})</span></p><p className="history-timestamp">{record.timestamp.toLocaleString()}</p></li>))}</ul>) : (<p>No analysis records in this session yet.</p>)}<div className="session-actions"><button onClick={onBack} className="action-btn secondary-action">Back</button><button onClick={onDownload} disabled={history.length === 0 || !onDownload} className="action-btn">Download</button><button onClick={onClear} disabled={history.length === 0 || !onClear} className="action-btn error-action">Clear</button></div></div>
+    <div className="session-management-view card"><h1>Session History</h1><IntegrityStatsSummary stats={IntegrityService.getStats()} />{history.length > 0 ? (<ul className="history-list">{history.map(record => (<li key={record.id} className="history-item" ><p className="history-query">{record.id} <span>({record.analysisType})</span></p><p className="history-timestamp">{record.timestamp.toLocaleString()}</p></li>))}</ul>) : (<p>No analysis records in this session yet.</p>)}<div className="session-actions"><button onClick={onBack} className="action-btn secondary-action">Back</button><button onClick={onDownload} disabled={history.length === 0 || !onDownload} className="action-btn">Download</button><button onClick={onClear} disabled={history.length === 0 || !onClear} className="action-btn error-action">Clear</button></div></div>
 );
 
 export const CrossReferenceModal: FC<{ value: number, history: SessionRecord[], onClose: () => void, onSynthesize: (num: number) => void, isSynthesizing: boolean, synthesisResult: string | null }> = ({ value, history, onClose, onSynthesize, isSynthesizing, synthesisResult }) => {
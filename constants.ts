@@ -12,7 +12,8 @@ import { Type } from "@google/genai";
 // --- API SCHEMAS ---
 // =================================================================================================
 
-const gematriaAnalysisSchema = { type: Type.OBJECT, properties: { word: { type: Type.STRING }, englishMeaning: { type: Type.STRING }, transliteration: { type: Type.STRING }, standard: { type: Type.NUMBER }, ordinal: { type: Type.NUMBER }, reduced: { type: Type.NUMBER }, kolel: { type: Type.NUMBER }, atbashWord: { type: Type.STRING }, atbashValue: { type: Type.NUMBER }, }, required: ["word", "englishMeaning", "transliteration", "standard", "ordinal", "reduced", "kolel", "atbashWord", "atbashValue"] };
+// Only the words, their meanings and readings come from the model; the values are computed locally (see src/gematria/hebrewGematria.ts), as are the readings of pointed words (see src/corpus/transliteration.ts).
+const gematriaAnalysisSchema = { type: Type.OBJECT, properties: { word: { type: Type.STRING, description: "The key term in Hebrew letters, with niqqud." }, englishMeaning: { type: Type.STRING }, transliteration: { type: Type.STRING }, }, required: ["word", "englishMeaning", "transliteration"] };
 const deepElsAnalysisSchema = { type: Type.OBJECT, properties: { textGrid: { type: Type.OBJECT, properties: { text: { type: Type.STRING }, explanation: { type: Type.STRING } }, required: ["text", "explanation"] }, elsAnalysis: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { word: { type: Type.STRING }, englishMeaning: { type: Type.STRING }, transliteration: { type: Type.STRING }, direction: { type: Type.STRING }, skip: { type: Type.NUMBER }, verses: { type: Type.STRING }, path: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { row: { type: Type.NUMBER }, col: { type: Type.NUMBER } }, required: ["row", "col"] } } }, required: ["word", "transliteration", "direction", "skip", "verses", "path"] } } }, required: ["textGrid", "elsAnalysis"] };
 
 export const hebraicCartographerSchema = {
@@ -21,7 +22,7 @@ export const hebraicCartographerSchema = {
         hebrewText: { type: Type.STRING, description: "The original Hebrew text for the query, if applicable." },
         transliteration: { type: Type.STRING, description: "A phonetic transliteration of the Hebrew text." },
         englishTranslation: { type: Type.STRING, description: "A literal English translation of the Hebrew text." },
-        gematriaAnalysis: { type: Type.ARRAY, description: "Gematria breakdown for key terms.", items: gematriaAnalysisSchema },
+        gematriaAnalysis: { type: Type.ARRAY, description: "Key terms to compute gematria for, with their meanings.", items: gematriaAnalysisSchema },
         vibrationalAnalysis: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, explanation: { type: Type.STRING } }, required: ["title", "explanation"] },
         cosmicArchitecture: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, explanation: { type: Type.STRING } }, required: ["title", "explanation"] },
         archetypalDrivers: { type: Type.OBJECT, properties: { title: { type: 'STRING' }, explanation: { type: Type.STRING } }, required: ["title", "explanation"] },
@@ -38,7 +39,8 @@ export const hellenisticCartographerSchema = {
         greekText: { type: Type.STRING, description: "The original Greek text for the query." },
         transliteration: { type: Type.STRING, description: "A phonetic transliteration of the Greek text." },
         englishTranslation: { type: Type.STRING, description: "A literal English translation of the Greek text." },
-        isopsephyAnalysis: { type: Type.ARRAY, description: "Isopsephy (Greek Gematria) breakdown for key terms.", items: { type: Type.OBJECT, properties: { word: { type: Type.STRING }, value: { type: Type.NUMBER } }, required: ["word", "value"] } },
+        // Only the words come from the model; their values are computed locally (see src/gematria/greekIsopsephy.ts).
+        isopsephyAnalysis: { type: Type.ARRAY, description: "Key Greek terms to compute isopsephy for, with their meanings.", items: { type: Type.OBJECT, properties: { word: { type: Type.STRING, description: "The key term in Greek letters." }, englishMeaning: { type: Type.STRING } }, required: ["word", "englishMeaning"] } },
         vibrationalAnalysis: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, explanation: { type: Type.STRING } }, required: ["title", "explanation"] },
         cosmicArchitecture: { type: Type.OBJECT, properties: { title: { type: Type.STRING, description: "Analysis through the lens of Neoplatonism, Pleroma, Aeons." }, explanation: { type: Type.STRING } }, required: ["title", "explanation"] },
         archetypalDrivers: { type: Type.OBJECT, properties: { title: { type: Type.STRING, description: "Analysis through the lens of Gnostic archetypes (e.g., The Logos, Sophia)." }, explanation: { type: Type.STRING } }, required: ["title", "explanation"] },
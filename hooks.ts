@@ -1,11 +1,20 @@
-okimport { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { GenerateContentResponse, Chat } from "@google/genai";
-import { View, SessionRecord, EntrainmentProfile, AWEFormData, ELSResult, GuidingIntent, GeneralAnalysisResult, ExhaustiveResonanceResult, Toast, UserMessage, AIMessage, SystemMessage, ComponentMessage, BaseSessionRecord, TextualCartographerFormData, ELSInvestigatorFormData, AWEAnalysisResult, PalmistryAnalysisResult, VoiceResonanceAnalysisResult, AstrianDayPlannerResult, ProactiveSuggestion } from './types';
-import { GeminiService, AstrianEngine } from './services';
+import { View, ElsDirection, ElsJobProgress, ElsHit, ElsSearchRequest, ElsSignificantFinding, ElsMonteCarloResult, DeepELSAnalysisResult, ElsBatchRow, ElsBatchProgress, ExternalEvent, ExternalEventThresholds, ScriptureReference, ScriptureReferenceCommand, VerseLocation, SessionRecord, EntrainmentProfile, AWEFormData, EnglishCipherId, ELSResult, GuidingIntent, GeneralAnalysisResult, ExhaustiveResonanceResult, Toast, UserMessage, AIMessage, SystemMessage, ComponentMessage, BaseSessionRecord, TextualCartographerFormData, ELSInvestigatorFormData, AWEAnalysisResult, PalmistryAnalysisResult, VoiceResonanceAnalysisResult, AstrianDayPlannerResult, ProactiveSuggestion } from './types';
+import { GeminiService, AstrianEngine, ElsSearchService, ElsJobHandle, ElsBatchHandle, ElsBatchTarget, ExternalEventRegistry } from './services';
 import { hebraicCartographerSchema, hellenisticCartographerSchema, apocryphalAnalysisSchema, aweSynthesisSchema, palmistryAnalysisSchema, astrianDayPlannerSchema, aweExtractionSchema, voiceResonanceAnalysisSchema } from './constants';
 import { decodeCorporaFromImage } from './steganography';
 import { SOURCE_STELA_URL } from './corpora';
-import { HebrewAlphabetNetwork, hebrewNetwork } from './src/dataModels'; // Corrected import path and added HebrewAlphabetNetwork type
+import { hebrewAlphabetNetwork } from './src/dataModels';
+import { groupHitsBySkip } from './src/els/elsEngine';
+import { formatVerseLocation, formatVerseRange } from './src/corpus/verseIndex';
+import { looksLikeScriptureReference, parseScriptureReferences } from './src/corpus/referenceParser';
+import { extractHebrewLetters } from './src/corpus/hebrewNormalizer';
+import { standardGematria, withLocalGematria } from './src/gematria/hebrewGematria';
+import { bestHebrewSpelling, withLocalTransliteration } from './src/corpus/transliteration';
+import { hasCantillation, MAX_CHANT_WORDS } from './src/music/cantillation';
+import { computeIsopsephy, withLocalIsopsephy } from './src/gematria/greekIsopsephy';
+import { DEFAULT_ENGLISH_CIPHER, ENGLISH_CIPHERS, findEnglishCipher } from './src/gematria/englishCiphers';
 
 /**
  * hooks.ts
@@ -22,11 +31,19 @@ const CALL_SIGN_VIEWS: { [key: string]: View } = {
     oracular: 'oracularLens',
     session: 'session',
     els: 'elsInvestigator',
+    events: 'externalEvents',
     palm: 'palmistry',
     entrain: 'entrainmentSelection',
-    voice: 'voiceAnalysis'
+    voice: 'voiceAnalysis',
+    lookup: 'gematriaLookup',
+    willow: 'willowNetwork',
+    milui: 'miluiExpansion',
+    chant: 'cantillation'
 };
 
+/** Call signs that run an analysis directly rather than opening a view. */
+const CALL_SIGN_COMMANDS = ['planner', 'key'];
+
 /** A hook to get the list of available books for a given corpus. */
 export const useCorpusBooks = (selectedCorpus: string) => {
     return useMemo(() => {
@@ -35,17 +52,112 @@ export const useCorpusBooks = (selectedCorpus: string) => {
     }, [selectedCorpus]);
 };
 
-// Helper function to calculate Gematria of a string
-const calculateStringGematria = (text: string, network: HebrewAlphabetNetwork): number => {
-    const cleaned = cleanText(text);
-    return network.calculatePathGematria(cleaned.split(''));
+/**
+ * A hook that runs ELS jobs through `ElsSearchService`, exposing streamed hits,
+ * per-skip-range progress and cancellation. Starting a new job cancels the previous one.
+ */
+export const useElsSearch = () => {
+    const [hits, setHits] = useState<ElsHit[]>([]);
+    const [findings, setFindings] = useState<ElsSignificantFinding[]>([]);
+    const [monteCarlo, setMonteCarlo] = useState<ElsMonteCarloResult | null>(null);
+    const [matrix, setMatrix] = useState<DeepELSAnalysisResult | null>(null);
+    const [progress, setProgress] = useState<ElsJobProgress | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const jobRef = useRef<ElsJobHandle | null>(null);
+
+    const cancel = useCallback(() => {
+        jobRef.current?.cancel();
+        jobRef.current = null;
+        setIsRunning(false);
+    }, []);
+
+    const start = useCallback((request: ElsSearchRequest) => {
+        jobRef.current?.cancel();
+        setHits([]); setFindings([]); setMonteCarlo(null); setMatrix(null); setProgress(null); setError(null); setIsRunning(true);
+
+        const job = ElsSearchService.startJob(request, {
+            onHits: newHits => { if (jobRef.current === job) setHits(prev => [...prev, ...newHits]); },
+            onProgress: p => { if (jobRef.current === job) setProgress(p); },
+            onMonteCarlo: mc => { if (jobRef.current === job) setMonteCarlo(mc); },
+            onMatrix: m => { if (jobRef.current === job) setMatrix(m); },
+            onFindings: f => { if (jobRef.current === job) setFindings(f); },
+        });
+        jobRef.current = job;
+        job.result
+            .catch((e: Error) => { if (jobRef.current === job) setError(e.message); })
+            .finally(() => { if (jobRef.current === job) { jobRef.current = null; setIsRunning(false); } });
+    }, []);
+
+    useEffect(() => () => jobRef.current?.cancel(), []);
+
+    return { hits, findings, monteCarlo, matrix, progress, isRunning, error, start, cancel };
+};
+
+/**
+ * A hook that runs batch ELS searches over many books through `ElsSearchService`,
+ * exposing rows as each book completes. Starting a new batch cancels the previous one.
+ */
+export const useElsBatchSearch = () => {
+    const [rows, setRows] = useState<ElsBatchRow[]>([]);
+    const [progress, setProgress] = useState<ElsBatchProgress | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const batchRef = useRef<ElsBatchHandle | null>(null);
+
+    const cancel = useCallback(() => {
+        batchRef.current?.cancel();
+        batchRef.current = null;
+        setIsRunning(false);
+    }, []);
+
+    const start = useCallback((targets: ElsBatchTarget[], request: ElsSearchRequest) => {
+        batchRef.current?.cancel();
+        setRows([]); setProgress(null); setError(null); setIsRunning(true);
+
+        const batch = ElsSearchService.startBatch(targets, request, {
+            onRows: newRows => { if (batchRef.current === batch) setRows(prev => [...prev, ...newRows]); },
+            onProgress: p => { if (batchRef.current === batch) setProgress(p); },
+        });
+        batchRef.current = batch;
+        batch.result
+            .catch((e: Error) => { if (batchRef.current === batch) setError(e.message); })
+            .finally(() => { if (batchRef.current === batch) { batchRef.current = null; setIsRunning(false); } });
+    }, []);
+
+    useEffect(() => () => batchRef.current?.cancel(), []);
+
+    return { rows, progress, isRunning, error, start, cancel };
 };
 
-// Helper function to remove non-letter characters and convert to lowercase
-const cleanText = (text: string): string => {
-    // This regex keeps only Hebrew letters
-    const cleaned = text.replace(/[^א-ת]/g, '').toLowerCase();
-    return cleaned;
+/**
+ * A hook over `ExternalEventRegistry` that keeps the stored events and thresholds
+ * in state. Failed changes (e.g. a malformed import) leave the registry untouched and set `error`.
+ */
+export const useExternalEventRegistry = () => {
+    const [events, setEvents] = useState<ExternalEvent[]>(() => ExternalEventRegistry.list());
+    const [thresholds, setThresholdsState] = useState<ExternalEventThresholds>(() => ExternalEventRegistry.getThresholds());
+    const [error, setError] = useState<string | null>(null);
+
+    const apply = useCallback((change: () => void): boolean => {
+        try {
+            change();
+            setError(null);
+            return true;
+        } catch (e) {
+            setError(e instanceof Error ? e.message : "The event registry could not be updated.");
+            return false;
+        }
+    }, []);
+
+    const save = useCallback((event: Omit<ExternalEvent, 'id'> & { id?: string }) => apply(() => setEvents(ExternalEventRegistry.save(event))), [apply]);
+    const remove = useCallback((id: string) => apply(() => setEvents(ExternalEventRegistry.remove(id))), [apply]);
+    const reset = useCallback(() => apply(() => { setEvents(ExternalEventRegistry.reset()); setThresholdsState(ExternalEventRegistry.getThresholds()); }), [apply]);
+    const setThresholds = useCallback((next: ExternalEventThresholds) => apply(() => setThresholdsState(ExternalEventRegistry.setThresholds(next))), [apply]);
+    const importJson = useCallback((json: string, mode: 'merge' | 'replace') => apply(() => { setEvents(ExternalEventRegistry.importJson(json, mode)); setThresholdsState(ExternalEventRegistry.getThresholds()); }), [apply]);
+    const exportJson = useCallback(() => ExternalEventRegistry.exportJson(), []);
+
+    return { events, thresholds, error, save, remove, reset, setThresholds, importJson, exportJson };
 };
 
 
@@ -203,1155 +315,86 @@ export const useAstrianSystem = () => {
         }
     }, [addMessage]);
 
-    // Basic ELS Search Function
-    const performBasicElsSearch = useCallback((text: string, keyword: string): number[][] => {
-        const results: number[] = [];
-        if (!text || !keyword) {
-            console.warn("ELS search requires both text and a keyword.");
-            return results;
-        }
-
-        const cleanedText = cleanText(text);
-        const cleanedKeyword = cleanText(keyword);
-
-        if (cleanedKeyword.length === 0) {
-            console.warn("ELS keyword is empty after cleaning.");
-            return results;
-        }
-
-        const originalText = text; // Keep original text to get correct indices
-
-        let currentIndex = 0;
-        while (currentIndex !== -1) {
-            currentIndex = originalText.indexOf(keyword, currentIndex); // Search in original text
-            if (currentIndex !== -1) {
-                results.push(currentIndex);
-                currentIndex += keyword.length; // Move past the found keyword
-            }
-        }
-
-        return results; // These are indices in the cleaned text, not original text
-    }, []);
-
-    // ELS Search Function with Skip Interval
-    const performElsSearchWithSkip = useCallback((text: string, keyword: string, skip: number): number[][] => {
-        const foundSequences: number[][] = [];
-        if (!text || !keyword || typeof skip !== 'number' || !Number.isInteger(skip) || skip === 0) {
-            console.warn("ELS search with skip requires text, a keyword, and a valid non-zero integer skip.");
-            return foundSequences;
-        }
-
-        const originalText = text; // Keep original text for index tracking
-        const cleanedKeyword = cleanText(keyword);
-
-        if (cleanedKeyword.length === 0) {
-            console.warn("ELS keyword is empty after cleaning.");
-            return foundSequences;
-        }
-
-        const originalTextLength = originalText.length;
-        const keywordLength = cleanedKeyword.length;
-
-        for (let i = 0; i < originalTextLength; i++) {
-            // Check if the first letter of the keyword matches
-            if (cleanText(originalText[i]) === cleanedKeyword[0]) { // Clean individual character for comparison
-                const currentSequence: number[] = [i];
-                let keywordIndex = 1;
-                let currentTextIndex = i + skip;
-
-                while (keywordIndex < keywordLength && currentTextIndex >= 0 && currentTextIndex < originalTextLength) {
-                    if (cleanText(originalText[currentTextIndex]) === cleanedKeyword[keywordIndex]) { // Clean individual character for comparison
-                        currentSequence.push(currentTextIndex);
-                        keywordIndex++;
-                        currentTextIndex += skip; // Skip remains positive for forward search
-                    } else {
-                        // Sequence broken, move to the next potential starting point
-                        break;
-                    }
-                }
-
-                if (keywordIndex === keywordLength) {
-                    // Found a complete sequence
-                    foundSequences.push(currentSequence);
-                }
-            }
-        }
-        // The returned indices are now relative to the original text string.
-        return foundSequences; // These are indices in the cleaned text, not original text
-    }, [cleanText]); // Dependency on cleanText
-
-    // ELS Search Function with Skip Interval and Direction - Returns indices relative to the original text
-    const performElsSearchWithSkipAndDirection = useCallback((text: string, keyword: string, skip: number, direction: 'forward' | 'backward'): number[][] => {
-        const foundSequences: number[][] = []; // Indices are relative to the original text
-        if (!text || typeof text !== 'string' || !keyword || typeof keyword !== 'string' || typeof skip !== 'number' || !Number.isInteger(skip) || skip === 0) {
-            console.error("Invalid arguments provided to performElsSearchWithSkipAndDirection", { text, keyword, skip, direction });
-
-            console.warn("ELS search with skip and direction requires text, a keyword, a valid non-zero integer skip, and a direction.");
-            return foundSequences;
-        }
-
-        const originalText = text; // Keep original text for index tracking
-        const cleanedKeyword = cleanText(keyword);
-
-        if (cleanedKeyword.length === 0) {
-            console.warn("ELS keyword is empty after cleaning.");
-            return foundSequences;
-        }
-
-        const originalTextLength = originalText.length;
-        const cleanedText = cleanText(originalText);
-        const keywordLength = cleanedKeyword.length;
-        const cleanedTextLength = cleanedText.length;
-
-        const step = direction === 'forward' ? skip : -skip; // Use 'step' for clarity with direction
-
-        // Iterate through the cleaned text
-        for (let i = (direction === 'forward' ? 0 : cleanedTextLength - 1); (direction === 'forward' ? i < cleanedTextLength : i >= 0); i += (direction === 'forward' ? 1 : -1)) { // Iteration direction based on ELS direction
-             // Check if the current character matches the first letter of the keyword after cleaning
-            if (cleanedText[i] && cleanedText[i] === cleanedKeyword[0]) { // Added check for cleanedText[i] existence
-                const currentSequence: number[] = [i];
-                let keywordIndex = 1;
-                let currentTextIndex = i + step; // Use step
-
-                while (keywordIndex < keywordLength && currentTextIndex >= 0 && currentTextIndex < cleanedTextLength) {
-                     if (cleanedText[currentTextIndex] === cleanedKeyword[keywordIndex]) {
-                        currentSequence.push(currentTextIndex);
-
-                        keywordIndex++;
-                        currentTextIndex += step;
-                    } else {
-                        // Sequence broken
-                        break;
-                    }
-                }
-
-                if (keywordIndex === keywordLength) {
-                    // Found a complete sequence
-                    foundSequences.push(currentSequence);
-                }
-            }
-
-         }
-        // The returned indices are relative to the cleaned text string.
-        // We need to map them back to the original text indices.
-        const originalIndices: number[][] = [];
-        const cleanedToOriginalMap = new Map<number, number>();
-        let cleanedIndex = 0;
-        for (let i = 0; i < originalTextLength; i++) {
-            if (cleanText(originalText[i]) !== '') { // If it's a Hebrew letter
-                 cleanedToOriginalMap.set(cleanedIndex, i);
-                 cleanedIndex++;
-            }
-        }
-
-        foundSequences.forEach(seq => {
-            const originalSeq: number[] = [];
-            seq.forEach(cleanedIdx => {
-                 if (cleanedToOriginalMap.has(cleanedIdx)) {
-                    originalSeq.push(cleanedToOriginalMap.get(cleanedIdx)!);
-                 } else {
-                    // This should not happen if the mapping is correct, but as a safeguard
-                    console.warn(`Could not map cleaned index ${cleanedIdx} back to original text. Original text length: ${originalTextLength}, cleaned text length: ${cleanedTextLength}`);
-                 }
-            });
-             // Ensure all indices were mapped and the sequence is still valid in the original text
-             // This check might be redundant if mapping is correct, but good for safety.
-             // A more robust check would be to re-verify the ELS in the original text based on mapped indices.
-             if (originalSeq.length === seq.length) {
-                originalIndices.push(originalSeq);
-            }
-        });
-
-        return originalIndices; // These are indices relative to the original text string
-    }, [cleanText]); // Dependency on cleanText
-
-    const checkForMeaningfulPhrases = useCallback((indices: number[], text: string): string[] => {
-        const sequenceLetters = indices.map(index => text[index] || '').join(''); // Use original letters for phrase matching
-        const reasons: string[] = []; // Initialize as empty array
-
-        // Define an array of common Hebrew consonant roots
-        const commonHebrewRoots = [
-            'קדש', 'שלם', 'ברא', 'אלה', 'שמים', 'ארץ', 'חי', 'אמת', 'כליל', 'ספר', 'עולם', 'נפש', 'רוח', 'גוף', 'דעת'
-        ];
-
-        // Define lists of common Hebrew prefixes and suffixes
-        const commonHebrewPrefixes = ['ב', 'כ', 'ל', 'מ', 'ש', 'ה', 'ו']; // Example prefixes (without vowels)
-        const commonHebrewSuffixes = ['ים', 'ות', 'ה']; // Example suffixes (without vowels)
-
-
-
-
-        // A significantly larger predefined list of common and relevant Hebrew words
-        const commonHebrewPhrases = [
-            "בראשית ברא אלהים", "יהוה אלהים", "ארץ ושמים", "והארץ היתה תהו ובהו", "ורוח אלהים מרחפת על פני המים", "יהי אור ויהי אור", "אלהים ראה את האור כי טוב", "ויבדל אלהים בין האור ובין החשך"
-        ];
-        // This list includes words related to biblical concepts, gematria, kabbalah, etc., and their base forms.
-        // Words are in base form and lowercase for comparison.
-        const commonHebrewWords = [
-            "אב", "אבא", "אבה", "אבן", "אדם", "אדמה", "אדני", "אהב", "אהבה", "אוהב", "אור", "אות", "אזן", "אח", "אחר", "אחות", "איש", "אלה", "אלהים", "אלף", "אם", "אמן", "אמר", "אמת",
-            "אנכי", "אני", "אף", "אפר", "ארבע", "ארון", "ארץ", "אש", "אשר", "את", "אתה", "אתם", "בגד", "בהמה", "בוקר", "בורא", "בית", "בכור", "בל", "בן", "בנה", "בני", "בקר", "ברא", "ברכה",
-            "ברית", "בשר", "בת", "גב", "גדול", "גוז", "גוי", "גוף", "גור", "גזע", "גיל", "גל", "גלגל", "גם", "גן", "גנב", "געש", "גפן", "גר", "דרך", "דבר", "דבש", "דוד", "דור", "דם", "דמע",
-            "דעת", "דק", "דקל", "דשן", "הוא", "היה", "הלך", "הלל", "הנה", "הר", "ורד", "זה", "זכר", "זמן", "זרע", "חוה", "חזה", "חטא", "חטא", "חי", "חיה", "חכם", "חכמה", "חלום", "חלב",
-            "חם", "חמס", "חסד", "חסר", "חרב", "חרי", "חרם", "חשב", "חשך", "חתן", "טוב", "טובע", "טהר", "טהרה", "טמא", "טמאה", "טעם", "טרם", "ים", "ידע", "יד", "יהודה", "יהוה", "יום",
-            "יוצר", "יחד", "יחיד", "ילד", "ילד", "ימין", "יסוד", "יעד", "יפה", "יצא", "יצר", "יצחק", "יקיר", "ירא", "ירא", "ירד", "ישב", "ישועה", "ישראל", "יתר", "כבד", "כבוד", "כהן",
-            "כול", "כוכב", "כי", "כלי", "כם", "כמו", "כסף", "כסא", "כעס", "כפר", "כתב", "כתר", "לב", "לבד", "לבוש", "לחם", "למד", "למשל", "למטה", "למערב", "למעלה", "למזרח", "לנו",
-            "לעולם", "לפני", "לקח", "לשון", "לשם", "מאד", "מאה", "מאור", "מבוא", "מגדל", "מדי", "מדבר", "מה", "מובא", "מוצא", "מזבח", "מזל", "מחנה", "מחשבה", "מטרה", "מלך", "מלכות",
-            "מם", "מנהיג", "מנורה", "מספר", "מעט", "מעלה", "מערב", "מקדש", "מקום", "מרכבה", "משכן", "משפט", "נביא", "נבואה", "נגד", "נהר", "נוח", "נח", "נחש", "נטע", "ניר", "נפש", "נצר",
-            "נר", "נשמה", "נתן", "סוד", "סוכה", "סלע", "ספר", "עב", "עבד", "עבד", "עבור", "עז", "עזר", "עין", "עיר", "עם", "עמד", "עולם", "עולת", "עץ", "עפר", "עקב", "ערב", "ערך",
-            "עשר", "עת", "פה", "פורה", "פתח", "פני", "פסח", "צבא", "צדק", "צוה", "צאן", "ציון", "צמח", "צפון", "קבר", "קדש", "קהל", "קול", "קום", "קודש", "קנה", "קניין", "קרא", "קרבן",
-            "קשת", "ראש", "ראשי", "רגל", "רוח", "רחמים", "רע", "רעה", "רקיע", "שאר", "שאול", "שבת", "שבע", "שדה", "שוב", "שופט", "שופר", "שור", "שמים", "שמע", "שם", "שנה", "שנא",
-            "שער", "שפה", "שקל", "שר", "שרה", "שרף", "תאנה", "תורה", "תחת", "תוצאה", "תודה", "תמיד", "תפילה", "תקופה", "תשובה", "תשע", "תשעה",
-            // Words related to Astrian Key concepts
-            "כליל", "ספירה", "עולם", "נשמה", "רוח", "נפש", "יחידה", "חיה", "כסא", "מרכבה", "רקיע", "שמים", "ארץ", "תהום", "תוהו", "בוהו", "חשך", "אור", "חיים", "מוות",
-            "אות", "מלה", "צרוף", "גימטריה", "נוטריקון", "תמורה", "פרדס", "רמז", "דרש", "סוד", "פשט", "גוף", "נפש", "רוח", "שכל", "נורא", "אדיר", "קדוש", "ברוך", "מבורך",
-            "אמת", "שקר", "טוב", "רע", "ישר", "עקוב", "פשט", "קשר", "דבר", "חכמה", "בינה", "דעת", "חסד", "גבורה", "תפארת", "נצח", "הוד", "יסוד", "מלכות", "כתר",
-            "היולי", "תולדה", "האצלה", "בריאה", "יצירה", "עשיה", "אדם קדמון", "אדם עליון", "אדם תחתון", "צמצום", "קו", "רשימו", "שבירת כלים", "תיקון", "אחוריים", "פנים",
-            "זוהר", "ספר יצירה", "ספר הבהיר", "עץ חיים", "פרי עץ חיים", "שער הכוונות", "תומר דבורה", "שולחן ערוך", "משנה תורה", "תלמוד", "מדרש", "פיוט", "תחנון",
-            "מלאך", "שרף", "אראלים", "חשמלים", "מלכים", "בני אלהים", "אלהים", "יהוה", "אדני", "אהיה", "שדי", "צבאות", "אלהים צבאות", "יהוה צבאות", "אל עליון", "אל שדי", "אל רחום וחנון",
-            "שם המפורש", "א"ב"ג"י"ת"צ", "קר"ע שטן נג"ד יכ"ש בט"ר צת"ג", // Gematria related sequences/names
-            "פרצוף", "אריך אנפין", "זעיר אנפין", "אבא", "אמא", "ישראל סבא", "תבונה", "רחל", "לאה",
-            "נקודה", "קו", "שטח", "גוף", "עולם", "שנה", "נפש", "חומר", "צורה", "סיבה", "מסובב", "תכלית",
-            "חיים", "מוות", "טוב", "רע", "אמת", "שקר", "שלום", "מלחמה", "בריאה", "חורבן", "בניין", "הריסה",
-            "זמן", "מקום", "תנועה", "שינוי", "התפתחות", "נסיגה", "מעגל", "קו ישר", "ספירלה", "גל", "תדר",
-            "אחד", "שנים", "שלוש", "ארבע", "חמש", "שש", "שבע", "שמונה", "תשע", "עשר", "מאה", "אלף", "רבוא",
-            "ראשית", "אחרית", "תחילה", "סוף", "אמצע", "צפון", "דרום", "מזרח", "מערב", "מעלה", "מטה",
-            "עיגול", "ריבוע", "משולש", "קו", "נקודה", "חלל", "זמן", "אור", "צל", "אש", "מים", "רוח", "עפר",
-            "יוד", "הא", "ויו", "הא", // Yud Hey Vav Hey
-            "אב", "בן", "רוח הקדש", "משפחה", "קהילה", "אומה", "עולם", "יקום", "קוסמוס", "מקרוקוסמוס", "מיקרוקוסמוס",
-            "נבט", "שורש", "גזע", "ענף", "עלה", "פרח", "פרי", "זרע", "קליפה", "גרעין", "עץ", "גן", "שדה",
-            "בית", "מקדש", "מזבח", "שולחן", "מנורה", "ארון", "פרוכת", "קודש הקדשים", "היכל", "אולם", "חצר",
-            "בגד", "כלי", "כסף", "זהב", "נחושת", "ברזל", "עץ", "אבן", "מים", "אש", "רוח", "עפר",
-            "חי", "מת", "ישן", "ער", "אוכל", "שותה", "הולך", "יושב", "עומד", "שוכב", "מדבר", "שותק", "רואה", "שומע", "מרגיש", "חושב", "יודע", "מאמין",
-            "תפילה", "ברכה", "הודאה", "בקשה", "וידוי", "תשובה", "צדקה", "חסד", "גבורה", "רחמים", "אמת", "שלום", "משפט", "דין", "חן", "רצון", "אהבה", "יראה",
-            "מצווה", "חוק", "משפט", "עדות", "פרוש", "דרש", "רמז", "סוד", "פרדס",
-            "גלות", "גאולה", "משיח", "בן דוד", "בן יוסף", "אליהו", "צדיק", "רשע", "בינוני",
-            "עולם הבא", "גן עדן", "גיהינום", "תחיית המתים", "יום הדין", "עולם האצילות", "עולם הבריאה", "עולם היצירה", "עולם העשיה",
-            "כסא הכבוד", "מרכבה", "אופנים", "חיות הקודש", "שרפים", "אראלים", "תרשישים", "מלכים", "בני אלהים", "ישראל",
-            "זכר", "נקבה", "אדם", "חוה", "איש", "אשה", "זוג", "פרי", "רביה", "לידה", "מוות",
-            "ראש", "לב", "כבד", "ריאה", "כליות", "עצמות", "דם", "בשר", "עור", "גידים", "עצבים",
-            "עין", "אוזן", "פה", "אף", "יד", "רגל", "אצבע", "ציפורן", "שער", "עור", "בשר",
-            "שמש", "ירח", "כוכב", "מזל", "שבתאי", "צדק", "מאדים", "חמה", "נוגה", "כוכב", "לבנה",
-            "אביב", "קיץ", "סתיו", "חורף", "יום", "לילה", "שעה", "דקה", "שניה", "רגע", "עידן", "תקופה",
-            "ברק", "רעם", "גשם", "טל", "שלג", "ברד", "ענן", "רוח", "סערה", "רעידת אדמה", "צונאמי", "הר געש",
-            "אריה", "שור", "נמר", "דוב", "זאב", "שועל", "חתול", "כלב", "אריה", "נשר", "נחש", "דג", "ציפור",
-            "עץ חיים", "עץ הדעת", "נהר", "גן עדן", "ארבעה נהרות", "פישון", "גיחון", "חדקל", "פרת",
-            "אברהם", "יצחק", "יעקב", "שרה", "רבקה", "רחל", "לאה", "שנים עשר שבטים", "משה", "אהרן", "מרים", יהושע",
-            "שופטים", "מלכים", "נביאים", "כתובים", "תורה", "נביאים ראשונים", "נביאים אחרונים", "כתובים",
-            "תהילים", "משלי", "איוב", "שיר השירים", "רות", "איכה", "קהלת", "אסתר", דניאל", "עזרא", "נחמיה", "דברי הימים",
-            "ישעיהו", "ירמיהו", "יחזקאל", "הושע", "יואל", "עמוס", "עובדיה", "יונה", מיכה", "נחום", "חבקוק", "צפניה", "חגי", "זכריה", "מלאכי",
-            "בראשית", "שמות", "ויקרא", "במדבר", "דברים",
-            "הלכה", "אגדה", "מצווה", "עבירה", "חטא", "זכות", "עונש", "שכר",
-            "קודש", "חול", "טהור", "טמא", "מותר", "אסור", "מצוה עשה", "מצוה לא תעשה",
-            "שם", "פועל", "תואר", "תואר הפועל", מלת יחס", "מלת קישור", "מלת שאלה", מלת קריאה",
-            "יחיד", "רבים", "זכר", "נקבה", "עבר", "הווה", "עתיד", "ציווי", "מקור", "בינוני",
-            "שורש", "בניין", "גזרת", "משקל", "נטיה", "סמיכות", "כינוי", "שם עצם", שם תואר",
-            "תנ"ך", "משנה", "תלמוד", "מדרש", "קבלה", "חסידות", מוסר", "הלכה", אגדה",
-            "ראש השנה", "יום כיפור", "סוכות", "פסח", "שבועות", "פורים", "חנוכה", "ט"ו בשבט", "ל"ג בעומר", "תשעה באב",
-            "ארץ ישראל", "ירושלים", "בית המקדש", "הכותל המערבי", "הר הבית", "כינרת", "ים המלח", "נהר הירדן",
-            "שבט", "עגל", "פר", "כבש", "איל", "עז", "גדי", "שור", "פרה", "שורש",
-            "מספר", "גימטריה", "אות", "מילה", "פסוק", "פרק", "ספר", "תורה", "נביאים", "כתובים",
-            "בריאה", "יצירה", "עשיה", "אצילות", "קדמון", "אדם", "עולם", "שנה", "נפש",
-            "חיים", "מוות", "טוב", "רע", "אמת", "שקר", "שלום", "מלחמה",
-            "זמן", "מקום", "תנועה", "שינוי", "התפתחות", "נסיגה",
-            "אור", "צל", "אש", "מים", "רוח", "עפר",
-            "יוד", "הא", "ויו", "הא",
-            "אלף", "בית", "גימל", "דלת", "הא", "ויו", "זין", "חית", "טית", "יוד", "כף", "למד", "מם", "נון", "סמך", "עין", "פה", "צדי", "קוף", "ריש", "שין", "תו",
-             "כף סופית", "מם סופית", "נון סופית", "פה סופית", "צדי סופית"
-        ];
-
-        const cleanedSequenceLetters = cleanText(sequenceLetters);
-
-        // Check if the ELS sequence itself forms a known word
-        if (commonHebrewWords.includes(cleanedSequenceLetters)) {
-            reasons.push(`Forms the Hebrew word: ${cleanedSequenceLetters}`);
-        }
-
-        // Check if the ELS sequence itself forms a common phrase
-        if (commonHebrewPhrases.includes(sequenceLetters)) { // Use sequenceLetters (original case/punctuation) for phrases
-             reasons.push(`Forms the common Hebrew phrase: ${sequenceLetters}`);
-        } else {
-            // Clean the sequence for phrase matching (remove non-letters)
-             const cleanedSequenceForPhrase = extractHebrewLetters(sequenceLetters).join('');
-             if (commonHebrewPhrases.includes(cleanedSequenceForPhrase)) {
-                 reasons.push(`Forms the common Hebrew phrase: ${cleanedSequenceForPhrase} (cleaned)`);
-             }
-        }
-
-        // Check combinations with adjacent letters
-        if (indices.length > 0) {
-            const firstIndex = indices[0];
-            const lastIndex = indices[indices.length - 1];
-            const elsSequenceString = sequenceLetters; // Use original case for combinations
-
-            const adjacentCombinations: string[] = [];
-
-            // Check combinations with up to 2 preceding letters
-            for (let i = 1; i <= 2; i++) {
-                if (firstIndex - i >= 0) {
-                    const precedingLetters = text.substring(firstIndex - i, firstIndex); // Get original letters
-                    adjacentCombinations.push(precedingLetters + elsSequenceString);
-                    adjacentCombinations.push(cleanText(precedingLetters) + cleanedSequenceLetters); // Cleaned version
-                }
-            }
-
-            // Check combinations with up to 2 succeeding letters
-            for (let i = 1; i <= 2 && lastIndex + i < text.length; i++) { // Added bounds check
-                if (lastIndex + i < text.length) {
-                    const succeedingLetters = text.substring(lastIndex + 1, lastIndex + 1 + i); // Get original letters
-                    adjacentCombinations.push(elsSequenceString + succeedingLetters);
-                    adjacentCombinations.push(cleanedSequenceLetters + cleanText(succeedingLetters)); // Cleaned version
-                }
-            }
-
-            // Check combinations with one preceding and one succeeding letter
-            if (firstIndex > 0 && lastIndex < text.length - 1) {
-                const beforeLetter = text[firstIndex - 1];
-                const afterLetter = text[lastIndex + 1];
-                adjacentCombinations.push(beforeLetter + elsSequenceString + afterLetter);
-                adjacentCombinations.push(cleanText(beforeLetter) + cleanedSequenceLetters + cleanText(afterLetter)); // Cleaned version
-            }
-            // Check generated combinations against word and phrase lists
-            adjacentCombinations.forEach(combo => {
-                 const cleanedCombo = cleanText(combo); // Clean combo for word check
-
-                 // Check for common prefixes and suffixes in the cleaned combination
-                 commonHebrewPrefixes.forEach(prefix => {
-                    if (cleanedCombo.startsWith(prefix) && cleanedCombo.length > prefix.length) {
-                        reasons.push(`Combination starts with common prefix: ${prefix}`);
-                    }
-                 });
-
-                 commonHebrewSuffixes.forEach(suffix => {
-                     if (cleanedCombo.endsWith(suffix) && cleanedCombo.length > suffix.length) {
-                        reasons.push(`Combination ends with common suffix: ${suffix}`);
-                    }
-                 });
-
-                 // Check the cleaned combination against the word lexicon
-                 if (commonHebrewWords.includes(cleanedCombo)) {
-                    // Add reason for forming a word
-                    reasons.push(`Forms word '${cleanedCombo}' with adjacent letters`); // Simplified reason for now
-                 }
-
-                 // Check against phrases (using original case/punctuation for phrases if desired, but usually cleaned is better for matching)
-                 const cleanedComboForPhrase = extractHebrewLetters(combo).join('');
-                 if (commonHebrewPhrases.includes(cleanedComboForPhrase)) {
-                    // Find which adjacent letters were used for a more specific reason
-                    let adjacentPart = '';
-                    if (combo.startsWith(cleanText(text.substring(firstIndex - 2, firstIndex)))) adjacentPart += '2 preceding, ';
-                    else if (combo.startsWith(cleanText(text[firstIndex - 1]))) adjacentPart += '1 preceding, ';
-                    if (combo.endsWith(cleanText(text.substring(lastIndex + 1, lastIndex + 3)))) adjacentPart += '2 succeeding, ';
-                    else if (combo.endsWith(cleanText(text[lastIndex + 1]))) adjacentPart += '1 succeeding, ';
-
-                    if (adjacentPart.endsWith(', ')) adjacentPart = adjacentPart.slice(0, -2);
-                    if (adjacentPart) {
-                        reasons.push(`Forms word '${cleanedCombo}' with adjacent letters (${adjacentPart})`);
-                    } else {
-                         // Fallback if specific adjacent letters can't be determined from the combo string
-                         reasons.push(`Forms a word '${cleanedCombo}' with adjacent letters`);
-                    } // This part seems to be for word, let's move it to word check below
-                 } // This entire block seems misplaced, move to word check logic below
-            }); // This foreach loop seems to be for combinations, need to revisit word/phrase checks below.
-            // // Get letter immediately before (if exists and is Hebrew)
-            // if (firstIndex > 0) {
-            //     const beforeLetter = cleanText(text[firstIndex - 1]);
-            //     if (beforeLetter) {
-            //         const combo = beforeLetter + cleanedSequenceLetters;
-            //         if (commonHebrewWords.includes(combo)) {
-            //             reasons.push(`Forms word '${combo}' with preceding letter`);
-            //         }
-            //     }
-            // }
-            // // Get letter immediately after (if exists and is Hebrew)
-            // if (lastIndex < text.length - 1) {
-            //     const afterLetter = cleanText(text[lastIndex + 1]);
-            //     if (afterLetter) {
-            //         const combo = cleanedSequenceLetters + afterLetter;
-            //         if (commonHebrewWords.includes(combo)) {
-            //             reasons.push(`Forms word '${combo}' with succeeding letter`);
-            //         }
-            //     }
-            // }
-        }
-        // Re-implementing the checks for clarity after refining the combination generation
-        const stringsToCheck = [cleanedSequenceLetters]; // Always check the sequence itself
-
-        if (indices.length > 0) {
-            const firstIndex = indices[0];
-            const lastIndex = indices[indices.length - 1];
-
-            // Add combinations with adjacent letters
-            for (let i = 1; i <= 2; i++) {
-                if (firstIndex - i >= 0) {
-                     stringsToCheck.push(cleanText(text.substring(firstIndex - i, firstIndex)) + cleanedSequenceLetters);
-                }
-            }
-            for (let i = 1; i <= 2 && lastIndex + i < text.length; i++) {
-                 if (lastIndex + i < text.length) {
-                      stringsToCheck.push(cleanedSequenceLetters + cleanText(text.substring(lastIndex + 1, lastIndex + 1 + i)));
-                 }
-             }
-            if (firstIndex > 0 && lastIndex < text.length - 1) {
-                stringsToCheck.push(cleanText(text[firstIndex - 1]) + cleanedSequenceLetters + cleanText(text[lastIndex + 1]));
-            }
+    // ELS search at a single skip and direction, run through the ELS worker. Indices are relative to the original text.
+    const performElsSearchWithSkipAndDirection = useCallback(async (text: string, keyword: string, skip: number, direction: ElsDirection): Promise<number[][]> => {
+        if (!text || !keyword || !Number.isInteger(skip) || skip < 1) {
+            console.warn("ELS search with skip and direction requires text, a keyword, a valid positive integer skip, and a direction.");
+            return [];
         }
-
-        // Check all generated strings against word and phrase lists, and for prefixes/suffixes
-        stringsToCheck.forEach(str => {
-            if (str.length === 0) return; // Skip empty strings
-
-            // Check for common prefixes and suffixes
-            commonHebrewPrefixes.forEach(prefix => {
-                if (str.startsWith(prefix) && str.length > prefix.length && !reasons.includes(`Starts with common prefix: ${prefix}`)) { // Avoid duplicate reasons
-                    reasons.push(`Starts with common prefix: ${prefix}`);
-                }
-            });
-            commonHebrewSuffixes.forEach(suffix => {
-                if (str.endsWith(suffix) && str.length > suffix.length && !reasons.includes(`Ends with common suffix: ${suffix}`)) { // Avoid duplicate reasons
-                    reasons.push(`Ends with common suffix: ${suffix}`);
-                }
-            });
-             // Check against the word lexicon
-             if (commonHebrewWords.includes(str) && !reasons.includes(`Forms the Hebrew word: ${str}`)) { // Avoid duplicate reasons
-                reasons.push(`Forms the Hebrew word: ${str}`);
-             }
-             // Check against common phrases (use cleaned string as phrases are also cleaned)
-             if (commonHebrewPhrases.includes(str) && !reasons.includes(`Forms the common Hebrew phrase: ${str}`)) { // Avoid duplicate reasons
-                reasons.push(`Forms the common Hebrew phrase: ${str}`);
-             }
-
-                 // Check for common consonant roots
-                 const consonantSequence = str.split('').filter(char => char !== 'ו' && char !== 'י').join(''); // Basic consonant extraction
-                 commonHebrewRoots.forEach(root => {
-                     if (consonantSequence.includes(root) && !reasons.includes(`Contains the root: ${root}`)) { // Check if root is a substring
-                         reasons.push(`Contains the root: ${root}`);
-                     }
-                 });
-
-        });
-
-        return reasons; // Return array of reasons
-    }, [cleanText, extractHebrewLetters]); // Added extractHebrewLetters to dependencies
-
-    // A more sophisticated mapping based on The Astrian Key's principles
-    // could be developed here.
-    const calculateNumberGematria = useCallback((num: number): number => {
-        // As a basic placeholder, we can convert the number to its Hebrew word
-        // and then calculate the Gematria of the word. This is highly simplified.
-        // A proper implementation would require a system for mapping numbers to
-        // Hebrew concepts/letters within the Astrian Key framework.
-        // For now, let's just return the number itself as a 'Gematria value'
-        // for comparison purposes in this basic implementation.
-        // This is a very basic example. You might need a more sophisticated mapping
-        // based on how numbers relate to the Hebrew Alphabet Network's structure.
-        // For now, we'll just use the number itself.
-        return num;
+        const { hits } = await ElsSearchService.startJob({ text, terms: [keyword], minSkip: skip, maxSkip: skip, directions: [direction] }).result;
+        return hits.map(hit => hit.indices);
     }, []);
 
-    // Function to identify significant ELS findings
-    const identifySignificantElsFindings = useCallback((results: { skip: number, indices: number[][] }[], keyword: string, text: string): { skip: number, indices: number[][], significance: string[] }[] => { // Added text parameter
-        const significantFindings: { skip: number, indices: number[][], significance: string[] }[] = []; // Keep track of significant findings
-        // const encounteredFindings = new Set<string>(); // To avoid duplicate significant entries if multiple criteria match - Not needed with current approach
-
-        // Define tier Gematria values
-        const tierGematriaValues: { [key: number]: number } = {
-            1: 547, // Tier 1: Keter - Malkhut
-            2: 500, // Tier 2: Chokhmah - Yesod
-            3: 287, // Tier 3: Binah - Hod
-            4: 81,  // Tier 4: Chesed - Netzach
-            5: 80   // Tier 5: Gevurah - Tiferet
-            // Add more tiers if defined
-        };
-
-        // Helper to calculate Gematria of a string
-        const calculateStringGematriaHelper = (str: string): number => {
-            // Ensure the string contains only Hebrew letters before calculation
-            const hebrewLetters = extractHebrewLetters(str).join('');
-            return hebrewNetwork.calculatePathGematria(hebrewLetters.split('')) || 0; // Return 0 if calculation fails
-        };
-
-        const keywordGematria = calculateStringGematria(keyword, hebrewNetwork); // Calculate keyword Gematria
-
-        // Calculate frequency of occurrences for each skip
-        const skipFrequencies = new Map<number, number>();
-        results.forEach(result => {
-            skipFrequencies.set(result.skip, result.indices.length);
-        });
-
-        const clusteringDistance = 100; // Define a clustering distance threshold
-        const highFrequencyThreshold = 3; // Define a threshold for high frequency
-
-        results.forEach(result => {
-            result.indices.forEach((sequence, currentIndex) => {
-                const significanceReasons: string[] = [];
-                const sequenceGematria = calculateStringGematriaHelper(sequence.map(index => text[index] || '').join('')); // Calculate sequence Gematria from original text indices
-
-                // Numerical Significance Checks
-                // Check if skip number matches keyword Gematria
-                if (result.skip !== 0 && result.skip === keywordGematria) {
-                    significanceReasons.push("Skip matches keyword Gematria");
-                }
-                // Check if sequence Gematria matches keyword Gematria
-                if (sequenceGematria === keywordGematria) {
-                    significanceReasons.push("Sequence Gematria matches keyword Gematria");
-                }
-
-                // Frequency Check
-                const currentSkipFrequency = skipFrequencies.get(result.skip) || 0;
-                if (currentSkipFrequency > 1) { // Check if frequency is greater than 1 (basic check)
-                    significanceReasons.push("Skip has multiple occurrences");
-                }
-                if (currentSkipFrequency >= highFrequencyThreshold) { // Check for high frequency
-                    significanceReasons.push("High Skip Frequency");
-                }
-
-                // Clustering Check
-                const isClustered = result.indices.some((otherSequence, otherIndex) => { // Indices are relative to original text
-                    if (currentIndex === otherIndex) return false; // Don't compare to self
-                    // Ensure both sequences have at least one index
-                    if (sequence.length === 0 || otherSequence.length === 0) return false;
-                    // Compare the starting indices in the original text
-                    return Math.abs(sequence[0] - otherSequence[0]) < clusteringDistance;
-                });
-                if (isClustered) significanceReasons.push("Sequence is clustered");
-
-                // Hebrew Willow Tenets Integration
-
-                // ELS Letters and Island Membership
-                const sequenceLetters = sequence.map(index => text[index] || '').filter(char => cleanText(char) !== ''); // Get Hebrew letters from original text
-                const primaryChainLetters = hebrewNetwork.getIslandLetters('Primary Chain'); // Assuming this method exists
-                const isolatedLetters = hebrewNetwork.getIslandLetters('Isolated Letters'); // Assuming this method exists
-                const islandNames = ['Primary Chain', 'Isolated Letters']; // Add other island names as needed
-
-                islandNames.forEach(islandName => {
-                    const islandLetters = hebrewNetwork.getIslandLetters(islandName);
-                    if (islandLetters) {
-                        const lettersInIsland = sequenceLetters.filter(char => islandLetters.includes(cleanText(char).toUpperCase())); // Compare cleaned and upper case
-                        if (lettersInIsland.length > 0 && lettersInIsland.length === sequenceLetters.length && sequenceLetters.length > 0) { // All letters are from this island
-                            significanceReasons.push(`Letters primarily from ${islandName} island`);
-                        } else if (lettersInIsland.length >= Math.ceil(sequenceLetters.length / 2) && sequenceLetters.length > 0) { // Majority of letters from this island
-                             significanceReasons.push(`Majority of letters from ${islandName} island`);
-                        }
-                    }
-                });
-
-                // Skip Gematria vs. Island Gematria
-                const skipGematria = calculateNumberGematria(result.skip);
-                islandNames.forEach(islandName => {
-                    const islandGematria = hebrewNetwork.calculateIslandGematria(islandName); // Assuming this method exists
-                    if (islandGematria !== null && skipGematria === islandGematria) {
-                        significanceReasons.push(`Skip Gematria matches ${islandName} island Gematria`);
-                    }
-                });
-
-                // ELS Letters and Loop/Hub Membership
-                const loopLetters = ['א', 'פ', 'מ', 'ו']; // Aleph, Pey, Mem, Vav
-                const hubLetter = 'י'; // Yud
-                const containsLoopLetter = sequenceLetters.some(char => loopLetters.includes(cleanText(char).toUpperCase()));
-                const containsHubLetter = sequenceLetters.some(char => hubLetter === cleanText(char).toUpperCase());
-
-                if (containsLoopLetter) {
-                    significanceReasons.push("Contains Loop letter(s)");
-                }
-                if (containsHubLetter) {
-                    significanceReasons.push("Contains Hub letter (Yud)");
-                }
-
-                // Skip Gematria vs. Loop/Hub Gematria
-                const loopLettersGematria = calculateStringGematriaHelper(loopLetters.join(''));
-                const yudGematria = calculateStringGematriaHelper(hubLetter);
-
-                if (skipGematria !== 0 && loopLettersGematria !== 0 && skipGematria === loopLettersGematria) {
-                    significanceReasons.push("Skip Gematria matches Loop Letters Gematria");
-                }
-                 if (skipGematria !== 0 && yudGematria !== 0 && skipGematria === yudGematria) {
-                    significanceReasons.push("Skip Gematria matches Yud Gematria");
-                }
-
-                // ELS Sequence Gematria vs. Tier Gematria
-                for (const tierNumber in tierGematriaValues) {
-                    if (tierGematriaValues.hasOwnProperty(tierNumber)) {
-                        const tierGematria = tierGematriaValues[tierNumber as any as number]; // Cast to number
-                        if (sequenceGematria === tierGematria) {
-                            significanceReasons.push(`Sequence Gematria matches Tier ${tierNumber} Gematria`);
-                        }
-                    }
-                }
-
-                // Check for Meaningful Phrases - Pass the full text
-                const phraseReasons = checkForMeaningfulPhrases(sequence, text);
-                if (phraseReasons.length > 0) {
-                    significanceReasons.push(...phraseReasons); // Add all reasons from the array
-                }
-
-                if (significanceReasons.length > 0) {
-                     // Use a simple unique key to prevent adding the exact same finding multiple times
-                     // if it matches multiple criteria in the same iteration loop.
-                     // A more robust de-duplication might be needed if findings are identical across skips/directions.
-                     const findingKey = `${result.skip}-${sequence.join(',')}`;
-                     // Check if this exact finding (by skip and indices) has already been added to significantFindings
-                     // This is a basic check, a more thorough check might be needed if the order of indices varies but represents the same finding.
-                     const alreadyExists = significantFindings.some(sf => sf.skip === result.skip && JSON.stringify(sf.indices[0]) === JSON.stringify(sequence));
-
-                     if (!alreadyExists) {
-                          significantFindings.push({ skip: result.skip, indices: [sequence], significance: significanceReasons });
-                     } else {
-                         // Optional: If it already exists, you might want to merge significance reasons
-                         // For now, we just skip adding a duplicate entry.
-                         // console.log(`Skipping duplicate significant finding for skip ${result.skip}, indices ${JSON.stringify(sequence)}`);
-                     }
-                }
-            });
-        }
-
-        return reasons; // Return array of reasons
-    }, [cleanText]);
-
-    // Helper function to calculate Gematria of a number (simple mapping for now)
-    // A more sophisticated mapping based on The Astrian Key's principles
-    // could be developed here.
-    const calculateNumberGematria = useCallback((num: number): number => {
-        // As a basic placeholder, we can convert the number to its Hebrew word
-        // and then calculate the Gematria of the word. This is highly simplified.
-        // A proper implementation would require a system for mapping numbers to
-        // Hebrew concepts/letters within the Astrian Key framework.
-        // For now, let's just return the number itself as a 'Gematria value'
-        // for comparison purposes in this basic implementation.
-        // This is a very basic example. You might need a more sophisticated mapping
-        // based on how numbers relate to the Hebrew Alphabet Network's structure.
-        // For now, we'll just use the number itself.
-        return num;
- }, []);
-    const checkOverlapOrProximity = useCallback((indices1: number[], indices2: number[], proximityThreshold: number): boolean => { if (indices1.length === 0 || indices2.length === 0) return false;
-
-        // Sort indices to simplify overlap/proximity checks
-        const sortedIndices1 = [...indices1].sort((a, b) => a - b);
-        const sortedIndices2 = [...indices2].sort((a, b) => a - b);
-
-        // Check for overlap (any common index)
-        const overlap = sortedIndices1.some(index1 => sortedIndices2.includes(index1));
-        if (overlap) return true;
-
-        // Check for proximity (start/end indices within threshold)
-        const start1 = sortedIndices1[0];
-        const end1 = sortedIndices1[sortedIndices1.length - 1];
-        const start2 = sortedIndices2[0];
-        const end2 = sortedIndices2[sortedIndices2.length - 1];
-
-        const proximity = (
-            Math.abs(start1 - start2) <= proximityThreshold ||
-            Math.abs(start1 - end2) <= proximityThreshold ||
-            Math.abs(end1 - start2) <= proximityThreshold ||
-            Math.abs(end1 - end2) <= proximityThreshold
-        );
-
-        return proximity;
-    }, []);
-
- // Helper to extract only Hebrew letters
-    const extractHebrewLetters = useCallback((text: string): string[] => {
-        const hebrewLetters = ['א', 'ב', 'ג', 'ד', 'ה', 'ו', 'ז', 'ח', 'ט', 'י', 'כ', 'ל', 'מ', 'נ', 'ס', 'ע', 'פ', 'צ', 'ק', 'ר', 'ש', 'ת', 'ך', 'ם', 'ן', 'ף', 'ץ'];
-        return text.split('').filter(char => hebrewLetters.includes(char));
-    }, []);
-
- // Basic transliteration from English name to Hebrew letters (very simplified)
- // A more robust transliteration is needed for full functionality.
-    const transliterateNameToHebrew = useCallback((name: string): string => {
-        const transliterationMap: { [key: string]: string } = {
-            'a': 'א', 'b': 'ב', 'c': 'כ', 'd': 'ד', 'e': 'א', 'f': 'פ', 'g': 'ג', 'h': 'ה', 'i': 'י', 'j': 'י', 'k': 'כ', 'l': 'ל', 'm': 'מ', 'n': 'נ', 'o': 'ו', 'p': 'פ', 'q': 'ק', 'r': 'ר', 's': 'ס', 't': 'ת', 'u': 'ו', 'v': 'ב', 'w': 'ו', 'x': 'כס', 'y': 'י', 'z': 'ז',
-            // Add common letter combinations and finals if needed
-        };
-        let hebrewName = '';
-        const cleanedName = name.toLowerCase().replace(/[^a-z]/g, '');
-        for (const char of cleanedName) {
-            hebrewName += transliterationMap[char] || '';
-        }
-        return hebrewName;
-    }, []);
-
- // Function to check for correlations with external events
-    const checkForExternalEventCorrelations = useCallback((significantFindings: { skip: number, indices: number[][], significance: string[] }[], text: string): { skip: number, indices: number[][], significance: string[] }[] => {
-        const updatedSignificantFindings = [...significantFindings]; // Create a copy to avoid modifying the original array directly
-
-        // Define a hardcoded array of example external events
-        // Add 'date' field to externalEvents with 'YYYY-MM-DD' format
-        const externalEvents = [
-            { name: 'Challenger Disaster', date: '1986-01-28', keywords: ['צ\'לנג\'ר', 'אסון'] }, // Challenger, Disaster
-            { name: 'Apollo 11', date: '1969-07-20', keywords: ['אפולו', 'ירח', 'נחיתה'] }, // Apollo, Moon, Landing
-            { name: 'World Trade Center', date: '2001-09-11', keywords: ['מגדלי', 'תאומים', 'ספטמבר'] }, // Towers, Twins, September
-            // Added a date for COVID-19
-            { name: 'COVID-19 Pandemic', date: '2020-03-11', keywords: ['מגפה', 'קורונה', 'וירוס'] }, // Pandemic, Corona, Virus (WHO declared pandemic date)
-        ];
-
-        const proximityThreshold = 50; // Define a proximity threshold for indices
-        const searchSkipRange = 500; // Define a range of skips to check for external event keywords
-
-        // Helper to calculate Gematria of a string (uses the one from identifySignificantElsFindings)
-        const calculateStringGematriaHelper = (str: string): number => {
-            // Ensure the string contains only Hebrew letters before calculation
-            const hebrewLetters = extractHebrewLetters(str).join('');
-            return hebrewNetwork.calculatePathGematria(hebrewLetters.split('')) || 0; // Return 0 if calculation fails
-        };
-
-        const convergentEventNames: string[] = [];
-
-        externalEvents.forEach(event => {
-            const eventFindings: { name: number[][], date: number[][], keywords: number[][][] } = {
-                name: [],
-                date: [],
-                keywords: []
-            };
-
-            // Perform ELS Search for Name
-            const eventNameHebrew = transliterateNameToHebrew(event.name);
-            if (eventNameHebrew.length > 0) {
-                // Search for the name with a reasonable range of skips
-                for (let skip = 1; skip <= searchSkipRange; skip++) {
-                    const nameElsForward = performElsSearchWithSkipAndDirection(text, eventNameHebrew, skip, 'forward');
-                    const nameElsBackward = performElsSearchWithSkipAndDirection(text, eventNameHebrew, skip, 'backward');
-                    eventFindings.name.push(...nameElsForward, ...nameElsBackward);
-                }
-            }
-
-            // Perform ELS Search for Date
-            if (event.date) {
-                const [year, month, day] = event.date.split('-').map(Number);
-                const dateStringForSearch = `${year}${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}`;
-                if (dateStringForSearch.length > 0) {
-                     for (let skip = 1; skip <= searchSkipRange; skip++) {
-                        const dateElsForward = performElsSearchWithSkipAndDirection(text, dateStringForSearch, skip, 'forward');
-                        const dateElsBackward = performElsSearchWithSkipAndDirection(text, dateStringForSearch, skip, 'backward');
-                        eventFindings.date.push(...dateElsForward, ...dateElsBackward);
-                     }
-                }
-            }
-
-            // Perform ELS Search for Keywords
-            event.keywords.forEach(keyword => {
-                const keywordFindingsForSkipRange: number[][] = [];
-                for (let skip = 1; skip <= searchSkipRange; skip++) {
-                     const keywordElsForward = performElsSearchWithSkipAndDirection(text, keyword, skip, 'forward');
-                     const keywordElsBackward = performElsSearchWithSkipAndDirection(text, keyword, skip, 'backward');
-                     keywordFindingsForSkipRange.push(...keywordElsForward, ...keywordElsBackward);
-                }
-                if (keywordFindingsForSkipRange.length > 0) {
-                    eventFindings.keywords.push(keywordFindingsForSkipRange); // Store as an array of arrays
-                }
-            });
-
-            // Check for Convergence within the event's findings
-            let hasConvergence = false;
-            const allEventSequences: { type: 'name' | 'date' | 'keyword', indices: number[] }[] = [];
-
-            eventFindings.name.forEach(indices => allEventSequences.push({ type: 'name', indices }));
-            eventFindings.date.forEach(indices => allEventSequences.push({ type: 'date', indices }));
-            eventFindings.keywords.flat().forEach(indices => allEventSequences.push({ type: 'keyword', indices }));
-
-            // Check pairs of findings for proximity
-            for (let i = 0; i < allEventSequences.length; i++) {
-                for (let j = i + 1; j < allEventSequences.length; j++) {
-                    const finding1 = allEventSequences[i];
-                    const finding2 = allEventSequences[j];
-
-                    // Ensure they are of different types to constitute convergence
-                    if (finding1.type !== finding2.type && checkOverlapOrProximity(finding1.indices, finding2.indices, proximityThreshold)) {
-                         hasConvergence = true;
-                         break; // Found convergence for this event
-                    }
-                }
-                if (hasConvergence) break; // Found convergence for this event
-            }
-
-            if (hasConvergence) {
-                convergentEventNames.push(event.name);
-            }
-        });
-
-        // Now, iterate through the user's significant findings and add correlation reasons
-        updatedSignificantFindings.forEach(finding => {
-            externalEvents.forEach(event => {
-                 // Check if this finding overlaps/is in proximity with any finding from a convergent event
-                if (convergentEventNames.includes(event.name)) {
-                     // Need to re-perform ELS searches for this specific event's findings
-                     // to check against the *current* finding.
-                    let correlatesWithConvergentEvent = false;
-
-                     // Check Name correlation with current finding
-                    const eventNameHebrew = transliterateNameToHebrew(event.name);
-                    if (eventNameHebrew.length > 0) {
-                        const nameEls = performElsSearchWithSkipAndDirection(text, eventNameHebrew, finding.skip, 'forward');
-                         const nameElsBackward = performElsSearchWithSkipAndDirection(text, eventNameHebrew, finding.skip, 'backward');
-                         const allNameEls = [...nameEls, ...nameElsBackward];
-                         if (allNameEls.some(nameSequenceIndices => finding.indices.some(findingSequenceIndices => checkOverlapOrProximity(findingSequenceIndices, nameSequenceIndices, proximityThreshold)))) {
-                             correlatesWithConvergentEvent = true;
-                         }
-                    }
-
-                     // Check Date correlation with current finding
-                    if (!correlatesWithConvergentEvent && event.date) {
-                         const [year, month, day] = event.date.split('-').map(Number);
-                         const dateStringForSearch = `${year}${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}`;
-                         if (dateStringForSearch.length > 0) {
-                             const dateEls = performElsSearchWithSkipAndDirection(text, dateStringForSearch, finding.skip, 'forward');
-                             const dateElsBackward = performElsSearchWithSkipAndDirection(text, dateStringForSearch, finding.skip, 'backward');
-                             const allDateEls = [...dateEls, ...dateElsBackward];
-                             if (allDateEls.some(dateSequenceIndices => finding.indices.some(findingSequenceIndices => checkOverlapOrProximity(findingSequenceIndices, dateSequenceIndices, proximityThreshold)))) {
-                                 correlatesWithConvergentEvent = true;
-                             }
-                         }
-                    }
-
-                     // Check Keyword correlation with current finding
-                    if (!correlatesWithConvergentEvent && event.keywords.length > 0) {
-                         for (const keyword of event.keywords) {
-                             const keywordEls = performElsSearchWithSkipAndDirection(text, keyword, finding.skip, 'forward');
-                             const keywordElsBackward = performElsSearchWithSkipAndDirection(text, keyword, finding.skip, 'backward');
-                             const allKeywordEls = [...keywordEls, ...keywordElsBackward];
-                             if (allKeywordEls.some(keywordSequenceIndices => finding.indices.some(findingSequenceIndices => checkOverlapOrProximity(findingSequenceIndices, keywordSequenceIndices, proximityThreshold)))) {
-                                 correlatesWithConvergentEvent = true;
-                                 break; // Found a keyword correlation for this event
-                             }
-                         }
-                    }
-
-                     if (correlatesWithConvergentEvent) {
-                        const convergenceReason = `Correlates with convergence for external event: ${event.name}`;
-                        if (!finding.significance.includes(convergenceReason)) {
-                            finding.significance.push(convergenceReason);
-                        }
-                     }
-                } else {
-                    // Add individual correlation reasons if the event itself doesn't show convergence
-                     // This duplicates some checks from the initial refinement, but keeps logic separate for now.
-                    // Name Correlation (already done in the initial refinement, but adding here for clarity if needed)
-                     const eventNameHebrew = transliterateNameToHebrew(event.name);
-                     if (eventNameHebrew.length > 0) {
-                         const nameElsResults = performElsSearchWithSkipAndDirection(text, eventNameHebrew, finding.skip, 'forward');
-                         const nameElsResultsBackward = performElsSearchWithSkipAndDirection(text, eventNameHebrew, finding.skip, 'backward');
-                         const allNameEls = [...nameElsResults, ...nameElsResultsBackward];
-                         allNameEls.forEach(nameSequenceIndices => {
-                             finding.indices.forEach(findingSequenceIndices => {
-                                 if (checkOverlapOrProximity(findingSequenceIndices, nameSequenceIndices, proximityThreshold)) {
-                                     const correlationReason = `Name correlation with external event: ${event.name}`;
-                                     if (!finding.significance.includes(correlationReason)) {
-                                         finding.significance.push(correlationReason);
-                                     }
-                                 }
-                             });
-                         });
-                     }
-
-                     // Date Correlation (already done)
-                    if (event.date) {
-                         const [year, month, day] = event.date.split('-').map(Number);
-                         const dateStringForSearch = `${year}${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}`;
-                         if (dateStringForSearch.length > 0) {
-                             const dateElsResults = performElsSearchWithSkipAndDirection(text, dateStringForSearch, finding.skip, 'forward');
-                             const dateElsResultsBackward = performElsSearchWithSkipAndDirection(text, dateStringForSearch, finding.skip, 'backward');
-                             const allDateEls = [...dateElsResults, ...dateElsResultsBackward];
-
-                             allDateEls.forEach(dateSequenceIndices => {
-                                 finding.indices.forEach(findingSequenceIndices => {
-                                     if (checkOverlapOrProximity(findingSequenceIndices, dateSequenceIndices, proximityThreshold)) {
-                                         const correlationReason = `Date correlation with external event: ${event.name}`;
-                                         if (!finding.significance.includes(correlationReason)) {
-                                             finding.significance.push(correlationReason);
-                                         }
-                                     }
-                                 });
-                             });
-                         }
-                     }
-
-                     // Numerical Correlation (Gematria vs Date components - already done)
-                    if (event.date) {
-                         const [year, month, day] = event.date.split('-').map(Number);
-                         const findingGematria = calculateStringGematriaHelper(finding.indices[0].map(index => text[index] || '').join(''));
-                         if (findingGematria > 0) {
-                             if (findingGematria === year) {
-                                 const correlationReason = `Numerical correlation with external event: ${event.name} (Gematria matches Year)`;
-                                if (!finding.significance.includes(correlationReason)) {
-                                    finding.significance.push(correlationReason);
-                                }
-                             }
-                             if (findingGematria === month) {
-                                 const correlationReason = `Numerical correlation with external event: ${event.name} (Gematria matches Month)`;
-                                 if (!finding.significance.includes(correlationReason)) {
-                                     finding.significance.push(correlationReason);
-                                 }
-                             }
-                             if (findingGematria === day) {
-                                 const correlationReason = `Numerical correlation with external event: ${event.name} (Gematria matches Day)`;
-                                 if (!finding.significance.includes(correlationReason)) {
-                                     finding.significance.push(correlationReason);
-                                 }
-                             }
-                             // Check Gematria against the full date as a number (YYYYMMDD)
-                            const fullDateNumber = parseInt(`${year}${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}`, 10);
-                            if (findingGematria === fullDateNumber) {
-                                 const correlationReason = `Numerical correlation with external event: ${event.name} (Gematria matches Full Date)`;
-                                 if (!finding.significance.includes(correlationReason)) {
-                                     finding.significance.push(correlationReason);
-                                 }
-                            }
-                         }
-                    }
-
-                     // Keyword Correlation (already done)
-                    event.keywords.forEach(keyword => {
-                         const externalElsResults = performElsSearchWithSkipAndDirection(text, keyword, finding.skip, 'forward');
-                         const externalElsResultsBackward = performElsSearchWithSkipAndDirection(text, keyword, finding.skip, 'backward');
-                         const allExternalEls = [...externalElsResults, ...externalElsResultsBackward];
-                         allExternalEls.forEach(externalSequenceIndices => {
-                             finding.indices.forEach(findingSequenceIndices => {
-                                 if (checkOverlapOrProximity(findingSequenceIndices, externalSequenceIndices, proximityThreshold)) {
-                                     const correlationReason = `Keyword correlation with external event: ${event.name} (keyword: ${keyword})`;
-                                     if (!finding.significance.includes(correlationReason)) {
-                                         finding.significance.push(correlationReason);
-                                     }
-                                 }
-                             });
-                         });
-                    });
-                }
-            });
-        });
-
-        return updatedSignificantFindings;
-    }, [performElsSearchWithSkipAndDirection, checkOverlapOrProximity, transliterateNameToHebrew, extractHebrewLetters]);
-
-    // Function to identify significant ELS findings
-    const identifySignificantElsFindings = useCallback((results: { skip: number, indices: number[][] }[], keyword: string, text: string): { skip: number, indices: number[][], significance: string[] }[] => { // Added text parameter
-        const significantFindings: { skip: number, indices: number[][], significance: string[] }[] = []; // Keep track of significant findings
-        const encounteredFindings = new Set<string>(); // To avoid duplicate significant entries if multiple criteria match
-
-        // Define tier Gematria values
-        // Define tier Gematria values
-        const tierGematriaValues: { [key: number]: number } = {
-            1: 547, // Tier 1: Keter - Malkhut
-            2: 500, // Tier 2: Chokhmah - Yesod
-            3: 287, // Tier 3: Binah - Hod
-            4: 81,  // Tier 4: Chesed - Netzach
-            5: 80   // Tier 5: Gevurah - Tiferet
-            // Add more tiers if defined
-        };
-
-        const calculateStringGematriaHelper = (str: string): number => {
-            // Ensure the string contains only Hebrew letters before calculation
-            const hebrewLetters = extractHebrewLetters(str).join('');
-            return hebrewNetwork.calculatePathGematria(hebrewLetters.split('')) || 0; // Return 0 if calculation fails
-        };
-
-        const keywordGematria = calculateStringGematria(keyword, hebrewNetwork); // Calculate keyword Gematria
-
-        // Calculate frequency of occurrences for each skip
-        const skipFrequencies = new Map<number, number>();
-        results.forEach(result => {
-            skipFrequencies.set(result.skip, result.indices.length);
-        });
-
-        const clusteringDistance = 100; // Define a clustering distance threshold
-        const highFrequencyThreshold = 3; // Define a threshold for high frequency
-
-        results.forEach(result => {
-            result.indices.forEach((sequence, currentIndex) => {
-                const significanceReasons: string[] = [];
-                const sequenceGematria = calculateStringGematriaHelper(sequence.map(index => text[index] || '').join('')); // Calculate sequence Gematria from original text indices
-
-                // Numerical Significance Checks
-                // Check if skip number matches keyword Gematria
-                if (result.skip !== 0 && result.skip === keywordGematria) {
-                    significanceReasons.push("Skip matches keyword Gematria");
-                }
-                // Check if sequence Gematria matches keyword Gematria
-                if (sequenceGematria === keywordGematria) {
-                    significanceReasons.push("Sequence Gematria matches keyword Gematria");
-                }
-
-                // Frequency Check
-                const currentSkipFrequency = skipFrequencies.get(result.skip) || 0;
-                if (currentSkipFrequency > 1) { // Check if frequency is greater than 1 (basic check)
-                    significanceReasons.push("Skip has multiple occurrences");
-                }
-                if (currentSkipFrequency >= highFrequencyThreshold) { // Check for high frequency
-                    significanceReasons.push("High Skip Frequency");
-                }
-
-                // Clustering Check
-                const isClustered = result.indices.some((otherSequence, otherIndex) => { // Indices are relative to original text
-                    if (currentIndex === otherIndex) return false; // Don't compare to self
-                    // Ensure both sequences have at least one index
-                    if (sequence.length === 0 || otherSequence.length === 0) return false;
-                    // Compare the starting indices in the original text
-                    return Math.abs(sequence[0] - otherSequence[0]) < clusteringDistance;
-                });
-                if (isClustered) significanceReasons.push("Sequence is clustered");
-
-                // Hebrew Willow Tenets Integration
-
-                // ELS Letters and Island Membership
-                const sequenceLetters = sequence.map(index => text[index] || '').filter(char => cleanText(char) !== ''); // Get Hebrew letters from original text
-                const primaryChainLetters = hebrewNetwork.getIslandLetters('Primary Chain');
-                const isolatedLetters = hebrewNetwork.getIslandLetters('Isolated Letters');
-                const islandNames = ['Primary Chain', 'Isolated Letters']; // Add other island names as needed
-
-                islandNames.forEach(islandName => {
-                    const islandLetters = hebrewNetwork.getIslandLetters(islandName);
-                    if (islandLetters) {
-                        const lettersInIsland = sequenceLetters.filter(char => islandLetters.includes(cleanText(char).toUpperCase())); // Compare cleaned and upper case
-                        if (lettersInIsland.length > 0 && lettersInIsland.length === sequenceLetters.length && sequenceLetters.length > 0) { // All letters are from this island
-                            significanceReasons.push(`Letters primarily from ${islandName} island`);
-                        } else if (lettersInIsland.length >= Math.ceil(sequenceLetters.length / 2) && sequenceLetters.length > 0) { // Majority of letters from this island
-                             significanceReasons.push(`Majority of letters from ${islandName} island`);
-                        }
-                    }
-                });
-
-                // Skip Gematria vs. Island Gematria
-                const skipGematria = calculateNumberGematria(result.skip);
-                islandNames.forEach(islandName => {
-                    const islandGematria = hebrewNetwork.calculateIslandGematria(islandName);
-                    if (islandGematria !== null && skipGematria === islandGematria) {
-                        significanceReasons.push(`Skip Gematria matches ${islandName} island Gematria`);
-                    }
-                });
-
-                // ELS Letters and Loop/Hub Membership
-                const loopLetters = ['א', 'פ', 'מ', 'ו']; // Aleph, Pey, Mem, Vav
-                const hubLetter = 'י'; // Yud
-                const containsLoopLetter = sequenceLetters.some(char => loopLetters.includes(cleanText(char).toUpperCase()));
-                const containsHubLetter = sequenceLetters.some(char => hubLetter === cleanText(char).toUpperCase());
-
-                if (containsLoopLetter) {
-                    significanceReasons.push("Contains Loop letter(s)");
-                }
-                if (containsHubLetter) {
-                    significanceReasons.push("Contains Hub letter (Yud)");
-                }
-
-                // Skip Gematria vs. Loop/Hub Gematria
-                const loopLettersGematria = calculateStringGematriaHelper(loopLetters.join(''));
-                const yudGematria = calculateStringGematriaHelper(hubLetter);
-
-                if (skipGematria !== 0 && loopLettersGematria !== 0 && skipGematria === loopLettersGematria) {
-                    significanceReasons.push("Skip Gematria matches Loop Letters Gematria");
-                }
-                 if (skipGematria !== 0 && yudGematria !== 0 && skipGematria === yudGematria) {
-                    significanceReasons.push("Skip Gematria matches Yud Gematria");
-                }
-
-                // ELS Sequence Gematria vs. Tier Gematria
-                for (const tierNumber in tierGematriaValues) {
-                    if (tierGematriaValues.hasOwnProperty(tierNumber)) {
-                        const tierGematria = tierGematriaValues[tierNumber as any as number]; // Cast to number
-                        if (sequenceGematria === tierGematria) {
-                            significanceReasons.push(`Sequence Gematria matches Tier ${tierNumber} Gematria`);
-                        }
-                    }
-                }
-
-                // Check for Meaningful Phrases
-                const phraseReasons = checkForMeaningfulPhrases(sequence, text);
-                if (phraseReasons.length > 0) {
-                    significanceReasons.push(...phraseReasons); // Add all reasons from the array
-                }
-
-                if (significanceReasons.length > 0) {
-                    significantFindings.push({ skip: result.skip, indices: [sequence], significance: significanceReasons });
-                }
-            }); // Removed the duplicate return significantFindings here
-        }); // Removed the duplicate calculateStringGematriaHelper definition
-
-    // Omnipresent ELS Search Function - Indices are relative to the original text
-    const performOmnipresentElsSearch = useCallback((text: string, keyword: string): { skip: number, indices: number[][] }[] => {
-        const allFindings: { skip: number, indices: number[][] }[] = [];
+    // Omnipresent ELS search over every skip up to half the text length, in both directions.
+    const performOmnipresentElsSearch = useCallback(async (text: string, keyword: string): Promise<{ skip: number, indices: number[][] }[]> => {
         if (!text || !keyword) {
             console.warn("Omnipresent ELS search requires text and a keyword.");
-            return allFindings;
+            return [];
         }
+        const { hits } = await ElsSearchService.startJob({ text, terms: [keyword], minSkip: 1, directions: ['forward', 'backward'] }).result;
+        return groupHitsBySkip(hits);
+    }, []);
 
-        const cleanedText = cleanText(text); // Clean text once
-        const cleanedTextLength = cleanedText.length; // Use cleaned text length for skip range
-
-        // Iterate through a reasonable range of skips.
-        // A common upper bound is the length of the text or half the text length.
-        // We can define a more sophisticated range later based on The Astrian Key's principles.
-
-        const maxSkip = Math.floor(cleanedTextLength / 2);
 
-        for (let skip = 1; skip <= maxSkip; skip++) {
-            // Use the raw text for search to get accurate original indices
-            const forwardFindings = performElsSearchWithSkipAndDirection(text, keyword, skip, 'forward'); // Use text, not cleanedText
-            const backwardFindings = performElsSearchWithSkipAndDirection(text, keyword, skip, 'backward'); // Use text, not cleanedText
-            const combinedFindings = [...forwardFindings, ...backwardFindings];
-            if (combinedFindings.length > 0) {
-                allFindings.push({ skip, indices: combinedFindings });
-            }
+    const handleBibleReferenceAnalysis = useCallback(async (reference: ScriptureReference, options: Omit<ScriptureReferenceCommand, 'references'>) => {
+        const { corpus, book, from, to } = reference;
+        const { keyword, skip, directions } = options;
+        const passage = AstrianEngine.getPassage(corpus, book, from, to);
+        if (!passage) {
+            // Say which verses the corpus does hold, so the reference can be corrected
+            const spans = AstrianEngine.getBookIndex(corpus, book)?.spans ?? [];
+            const held = spans.length > 0 ? ` It holds ${formatVerseRange(book, spans[0], spans[spans.length - 1])}.` : '';
+            const errorMessage = `${formatVerseRange(book, from, to)} is not in the ${corpus} corpus.${held}`;
+            console.log(errorMessage);
+            addMessage({ type: 'system', text: `Error: ${errorMessage}` }); // Inform the user
+            return;
         }
-        return allFindings; // Indices are relative to the original text string
-    }, [cleanText, performElsSearchWithSkipAndDirection]); // Dependency on cleanText and performElsSearchWithSkipAndDirection, removed duplicate function
-
-    // Helper function to extract only Hebrew letters
-    const extractHebrewLetters = useCallback((text: string): string[] => {
-        const hebrewLetters = ['א', 'ב', 'ג', 'ד', 'ה', 'ו', 'ז', 'ח', 'ט', 'י', 'כ', 'ל', 'מ', 'נ', 'ס', 'ע', 'פ', 'צ', 'ק', 'ר', 'ש', 'ת', 'ך', 'ם', 'ן', 'ף', 'ץ'];
-        return text.split('').filter(char => hebrewLetters.includes(char));
-    }, []);
+        const label = formatVerseRange(book, passage.from, passage.to);
+        const relevantText = passage.text;
 
-    const handleBibleReferenceAnalysis = useCallback(async (book: string, chapter: string, verse: string, keyword?: string, skip?: number, direction?: 'forward' | 'backward', addMessage: (message: AddMessageArg) => SessionRecord = addMessage) => {
         // Add a loading message for the user
-        addMessage({ type: 'system', text: `Analyzing ${book} ${chapter}:${verse}...` });
+        addMessage({ type: 'system', text: `Analyzing ${label} (${corpus})...` });
         setIsLoading(true);
         setError(null); // Clear previous errors
 
-        // For now, just log the text (or confirmation)
-        const corpus = 'Tanakh'; // Assuming 'Tanakh' is the correct corpus key for Hebraic texts
-        const bookText = AstrianEngine.getCorpus(corpus)?.[book];
+        // Extract Hebrew letters for analysis
+        const hebrewLetters = extractHebrewLetters(relevantText);
+        const gematriaValue = hebrewAlphabetNetwork.calculatePathGematria(hebrewLetters);
 
-        let relevantText = '';
-        if (bookText) {
-            // TODO: Implement accurate verse extraction from bookText
-            // This requires a more sophisticated text parsing logic that understands
-            // chapter and verse markers within the corpora text structure.
-            relevantText = bookText; // Using the entire book text for now as a placeholder
-        } else {
-            const errorMessage = `Text not found for book: ${book}`;
-            console.log(errorMessage);
-            addMessage({ type: 'system', text: `Error: ${errorMessage}` }); // Inform the user
+        // Omnipresent ELS search plus the significance and external-event passes, all in the ELS worker
+        const elsKeyword = keyword || "יהוה"; // Use provided keyword or default to YHWH
+        addMessage({ type: 'system', text: `Engaging ELS Matrix for "${elsKeyword}"...` });
+        let hits: ElsHit[];
+        let significantFindings: ElsSignificantFinding[];
+        try {
+            ({ hits, findings: significantFindings } = await ElsSearchService.startJob({
+                text: relevantText, terms: [elsKeyword], minSkip: skip ?? 1, maxSkip: skip, directions, significance: true, externalEvents: ExternalEventRegistry.getRunOptions()
+            }).result);
+        } catch (e: any) {
+            console.error("ELS analysis failed:", e);
+            setError(e.message || "The ELS search failed.");
             setIsLoading(false);
             return;
         }
 
-        // Extract Hebrew letters for analysis
-        const hebremLets = extractHebrewLetters(relevantText);
-
-        // Calculate Gematria Value
-        const gematriaValue = hebrewNetwork.calculatePathGematria(hebremLets); // Use the existing network method
-
-        // Perform Omnipresent ELS Search
-        const elsKeyword = keyword || "יהוה"; // Use provided keyword or default to YHWH
-        const omnipresentElsResults = performOmnipresentElsSearch(relevantText, elsKeyword);
-
-        // Identify Initial Significant ELS Findings - Pass keyword to the function
-        const significantFindings = identifySignificantElsFindings(omnipresentElsResults, elsKeyword, relevantText); // Pass relevantText
-
-        // Check for external event correlations *before* formatting the final message
-        // Check for external event correlations *before* formatting the final message
-        const significantFindingsWithCorrelations = checkForExternalEventCorrelations(significantFindings, relevantText);
+        // Passage indices are offset into the book text to find each sequence's verse
+        const locate = (indices: number[]) => {
+            const location = AstrianEngine.locateTextIndex(corpus, book, passage.offset + indices[0]);
+            return location ? `${formatVerseLocation(location)}, word ${location.word}` : 'unknown verse';
+        };
 
-        let analysisMessage = `Analysis for ${book} ${chapter}:${verse}:\n\n`;
-        analysisMessage += `Combined Gematria Value of Hebrew letters in this selection: ${gematriaValue}.\n\n`; // This line seems misplaced now, should be before significant findings
+        let analysisMessage = `Analysis for ${label}:\n\n`;
+        analysisMessage += `Combined Gematria Value of Hebrew letters in this selection: ${gematriaValue}.\n\n`;
 
         if (significantFindings.length > 0) {
             analysisMessage += `Significant ELS sequence(s) found for "${elsKeyword}" (including external correlations):\n`;
             significantFindings.forEach(finding => {
                 // Display the indices of the first sequence found for this skip
-                analysisMessage += `- Skip ${finding.skip}: Occurrences: ${finding.indices.length}, Indices: ${JSON.stringify(finding.indices[0])} (Significance: ${finding.significance.join(', ')})\n`;
+                analysisMessage += `- Skip ${finding.skip}: Occurrences: ${finding.indices.length}, Starting at ${locate(finding.indices[0])}, Indices: ${JSON.stringify(finding.indices[0])} (Score ${finding.score ?? 0}; Significance: ${finding.significance.join(', ')})\n`;
             });
-        } else if (omnipresentElsResults.length > 0) {
-             analysisMessage += `Found ${omnipresentElsResults.length} potential ELS sequence(s) for "${elsKeyword}", but none met the current significance criteria.\n`;
-             // Optionally list some non-significant findings here or provide a way to view them
-        }
-         else {
+        } else if (hits.length > 0) {
+            analysisMessage += `Found ${hits.length} potential ELS sequence(s) for "${elsKeyword}", but none met the current significance criteria.\n`;
+        } else {
             analysisMessage += `No ELS sequences found for "${elsKeyword}" in this selection.`;
         }
 
@@ -1361,49 +404,63 @@ export const useAstrianSystem = () => {
         // - Analyzing connections to the Hebrew Willow structure
         // - Triggering AI interpretation based on the findings
 
-        // Add the analysis result to the chat history
-        addMessage({ type: 'ai', text: analysisMessage, analysisType: 'atc' }); // Use significantFindingsWithCorrelations? The logic is updating the original significantFindings array.
+        addMessage({ type: 'ai', text: analysisMessage, analysisType: 'atc' });
+        setIsLoading(false);
+    }, [addMessage]);
 
-        setIsLoading(false); // Stop loading after the analysis message is sent
-    }, [addMessage, extractHebrewLetters, hebrewNetwork, performOmnipresentElsSearch, identifySignificantElsFindings]);
+    // The whole book, or the chapter or verse the form narrowed it to
+    const getCartographerText = (data: TextualCartographerFormData): { text: string, label: string } | null => {
+        const { corpus, book, chapter, verse } = data;
+        if (!chapter) {
+            const text = AstrianEngine.getCorpus(corpus)?.[book];
+            return text ? { text, label: `the book of ${book}` } : null;
+        }
+        const passage = AstrianEngine.getPassage(corpus, book, { chapter, verse });
+        return passage ? { text: passage.text, label: verse ? formatVerseRange(book, passage.from) : `${book} chapter ${chapter}` } : null;
+    };
 
     const handleHebraicQuery = useCallback(async (data: TextualCartographerFormData) => { // Keep existing handleHebraicQuery for ATC form
-        const { corpus, book, chapter, verse } = data;
-        const queryString = `Analyze the book of ${book} from the ${corpus}.`;
-        const fullText = AstrianEngine.getCorpus(corpus)?.[book];
-        if (!fullText) {
+        const { corpus } = data;
+        const selection = getCartographerText(data);
+        if (!selection) {
             setError("Could not retrieve text for analysis.");
             return;
         }
+        const queryString = `Analyze ${selection.label} from the ${corpus}.`;
 
-        const prompt = `Perform a full Hebraic Cartographic analysis of the Book of ${book}. Provide warm, insightful explanations. The text begins: "${fullText.substring(0, 100)}...". Focus on the core themes.`;
+        const prompt = `Perform a full Hebraic Cartographic analysis of ${selection.label}. Provide warm, insightful explanations. The text begins: "${selection.text.substring(0, 100)}...". Focus on the core themes.`;
         await executeAnalysis(
-            () => GeminiService.generate(prompt, hebraicCartographerSchema),
+            () => GeminiService.generate(prompt, hebraicCartographerSchema).then(result => withLocalGematria(result, letter => hebrewAlphabetNetwork.getNode(letter)?.spelling)).then(withLocalTransliteration)
+                // Only the words that will be chanted are kept with the result.
+                .then(result => hasCantillation(selection.text) ? { ...result, cantillationText: selection.text.split(/\s+/).slice(0, MAX_CHANT_WORDS).join(' ') } : result)
+                .then(result => ({ ...result, networkPath: hebrewAlphabetNetwork.projectPath(result.hebrewText ?? selection.text) })),
             'atc', data, queryString
         );
     }, [executeAnalysis]); // Keep existing dependencies
     
     const handleHellenisticQuery = useCallback(async (data: TextualCartographerFormData) => {
-        const { corpus, book } = data;
-        const queryString = `Analyze the book of ${book} from the ${corpus}.`;
-        const fullText = AstrianEngine.getCorpus(corpus)?.[book];
-        if (!fullText) {
+        const { corpus } = data;
+        const selection = getCartographerText(data);
+        if (!selection) {
             setError("Could not retrieve text for analysis.");
             return;
         }
+        const queryString = `Analyze ${selection.label} from the ${corpus}.`;
 
-        const prompt = `Perform a full Hellenistic Gnostic Cartographic analysis of the Book of ${book}. Provide clear, encouraging interpretations through a Neoplatonic and Gnostic lens. The text begins: "${fullText.substring(0, 100)}...". Focus on themes of the Logos, Sophia, Aeons, and the Pleroma.`;
+        const { value, ordinal, reduced } = computeIsopsephy(selection.text);
+        const prompt = `Perform a full Hellenistic Gnostic Cartographic analysis of ${selection.label}. Provide clear, encouraging interpretations through a Neoplatonic and Gnostic lens. The text begins: "${selection.text.substring(0, 100)}...". Its isopsephy, computed exactly, is ${value} (ordinal ${ordinal}, reduced ${reduced}); use these values rather than your own. Focus on themes of the Logos, Sophia, Aeons, and the Pleroma.`;
         await executeAnalysis(
-            () => GeminiService.generate(prompt, hellenisticCartographerSchema),
+            () => GeminiService.generate(prompt, hellenisticCartographerSchema).then(withLocalIsopsephy),
             'hellenistic', data, queryString
         );
     }, [executeAnalysis]);
     
-    const handleGeneralQuery = useCallback(async (query: string) => {
-        const resonance = AstrianEngine.performExhaustiveResonanceCheck(query);
+    const handleGeneralQuery = useCallback(async (query: string, cipher: EnglishCipherId = DEFAULT_ENGLISH_CIPHER) => {
+        const resonance = AstrianEngine.performExhaustiveResonanceCheck(query, cipher);
         const entrainmentProfileRaw = AstrianEngine.generateProfileFromResonance(resonance.primaryResonance, resonance.gematriaValue);
+        const cipherName = findEnglishCipher(cipher)!.name;
 
-        const prompt = `Provide a short, insightful, and encouraging explanation for the query "${query}", which has a primary Chaldean Gematria value of ${resonance.gematriaValue}. Also, explain in simple terms a brainwave entrainment profile designed to resonate with it. The profile is ${entrainmentProfileRaw.state} state (${entrainmentProfileRaw.beatFrequency} Hz beat on a ${entrainmentProfileRaw.baseFrequency.toFixed(0)} Hz carrier).`;
+        const prompt = `Provide a short, insightful, and encouraging explanation for the query "${query}", which has a primary ${cipherName} Gematria value of ${resonance.gematriaValue}. Also, explain in simple terms a brainwave entrainment profile designed to resonate with it. The profile is ${entrainmentProfileRaw.state} state (${entrainmentProfileRaw.beatFrequency} Hz beat on a ${entrainmentProfileRaw.baseFrequency.toFixed(0)} Hz carrier).`;
         
         await executeAnalysis(
             async () => {
@@ -1425,7 +482,9 @@ export const useAstrianSystem = () => {
     const handleAweQuery = useCallback(async (data: AWEFormData) => {
         const queryString = `Synthesize my Astrian Signature based on my personal data. My central question is: ${data.centralQuestion}`;
         const entrainmentProfileRaw = AstrianEngine.generateCustomEntrainmentProfile(data);
-        const prompt = `Synthesize an "Astrian Signature" based on this personal data: ${JSON.stringify(data)}. Generate a profile covering the user's Life Patterns, Collective Connection, and Path to Growth. Also provide an explanation for a brainwave entrainment profile: ${entrainmentProfileRaw.state} (${entrainmentProfileRaw.beatFrequency} Hz on a ${entrainmentProfileRaw.baseFrequency.toFixed(0)} Hz carrier). Frame everything in a warm, simple, and encouraging tone.`;
+        const cipherName = findEnglishCipher(data.cipher ?? DEFAULT_ENGLISH_CIPHER)!.name;
+        const hebrewName = bestHebrewSpelling(data.fullNameAtBirth);
+        const prompt = `Synthesize an "Astrian Signature" based on this personal data: ${JSON.stringify(data)}. The name signature is read in the ${cipherName} cipher.${hebrewName ? ` The birth name is spelled ${hebrewName} in Hebrew (standard gematria ${standardGematria(hebrewName)}).` : ''} Generate a profile covering the user's Life Patterns, Collective Connection, and Path to Growth. Also provide an explanation for a brainwave entrainment profile: ${entrainmentProfileRaw.state} (${entrainmentProfileRaw.beatFrequency} Hz on a ${entrainmentProfileRaw.baseFrequency.toFixed(0)} Hz carrier). Frame everything in a warm, simple, and encouraging tone.`;
 
         const result = await executeAnalysis(
             async () => {
@@ -1458,7 +517,8 @@ export const useAstrianSystem = () => {
     const handleElsAnalysis = useCallback(async (elsResult: ELSResult, context: { corpus: string, book: string }) => {
         const queryString = `Analyze the ELS finding of "${elsResult.word}" in ${context.book}.`;
         const fullText = AstrianEngine.getCorpus(context.corpus)?.[context.book];
-        const prompt = `Explain the meaning of an Equidistant Letter Sequence (ELS) finding in simple terms. The term found is "${elsResult.word}" with a skip of ${elsResult.skip}. It was found in the book of ${context.book}. The surrounding text is: "...${fullText?.substring(elsResult.path[0].row * 50, elsResult.path[0].row * 50 + 200)}...". Provide an analysis in the context of Apocryphal/Enochian lore, but make it understandable to a newcomer.`;
+        const startIndex = elsResult.startIndex ?? 0;
+        const prompt = `Explain the meaning of an Equidistant Letter Sequence (ELS) finding in simple terms. The term found is "${elsResult.word}" with a skip of ${elsResult.skip}. It was found in the book of ${context.book}. The surrounding text is: "...${fullText?.substring(Math.max(0, startIndex - 100), startIndex + 100)}...". Provide an analysis in the context of Apocryphal/Enochian lore, but make it understandable to a newcomer.`;
 
         await executeAnalysis(
             () => GeminiService.generate(prompt, apocryphalAnalysisSchema),
@@ -1547,23 +607,27 @@ export const useAstrianSystem = () => {
         setError(null);
         setSubliminalSeedValue(s => s + 1);
 
-        // 1. Check for Bible references (e.g., "°Genesis 1:1")
-        const bibleRefMatch = message.trim().match(/^°([A-Za-z]+)\s+(\d+):(\d+)(?:\s+([^\s]+)(?:\s+(\d+))?)?$/); // Corrected regex to allow non-space characters in keyword
-        if (bibleRefMatch) {
-            const [_, book, chapter, verse, keyword, skipStr] = bibleRefMatch;
-            const skip = skipStr ? parseInt(skipStr, 10) : undefined;
-
-            // Pass the captured keyword and skip to handleBibleReferenceAnalysis
-            // The direction will be hardcoded to 'forward' for now, can be made configurable later.
-            handleBibleReferenceAnalysis(book, chapter, verse, keyword, skip, 'forward');
-            // handleBibleReferenceAnalysis now handles the initial steps of looking up the text,
-            // and then initiating an ATC analysis flow.
-            return; // Stop processing if it's a Bible reference
-
+        // 1. Check for scripture references (e.g., "°Genesis 1:1-5", "°1 Samuel 3; Psalms 23 @kjv" or "°Genesis 1 יהוה 7 backward")
+        const referenceText = message.trim().slice(1);
+        const firstWord = referenceText.split(/\s+/)[0].toLowerCase();
+        const isCallSign = !!CALL_SIGN_VIEWS[firstWord] || CALL_SIGN_COMMANDS.includes(firstWord);
+        if (message.trim().startsWith('°') && !isCallSign && looksLikeScriptureReference(referenceText)) {
+            let command: ScriptureReferenceCommand;
+            try {
+                command = parseScriptureReferences(referenceText, AstrianEngine.getBookCatalog());
+            } catch (e) {
+                addMessage({ type: 'system', text: `Error: ${e instanceof Error ? e.message : 'Could not read the reference.'}` });
+                setIsLoading(false);
+                return;
+            }
+            const { references, ...options } = command;
+            // Each reference is analysed in turn with the same keyword, skip and directions.
+            for (const reference of references) await handleBibleReferenceAnalysis(reference, options);
+            return; // Stop processing if it's a scripture reference
         }
-        const callSignMatch = message.trim().match(/^°(\w+)(?:\s+(.*))?$/); // Moved callSignMatch declaration here
+        const callSignMatch = message.trim().match(/^°(\w+)(?:\s+(.*))?$/);
         if (callSignMatch) {
-            const callSignMatch = message.trim().match(/^°(\w+)(?:\s+(.*))?$/); // Moved callSignMatch declaration here
+            const command = callSignMatch[1].toLowerCase();
             const view = CALL_SIGN_VIEWS[command];
             
             // This flag will be set to false if we don't want the loading indicator
@@ -1593,6 +657,7 @@ export const useAstrianSystem = () => {
                         break;
                     case 'elsInvestigator':
                         props.onAnalyze = (result: ELSResult, context: { corpus: string; book: string; }) => { onBack(); handleElsAnalysis(result, context); };
+                        props.onNumberInteract = handleNumberInteract;
                         break;
                     case 'oracularLens':
                         props.onQuery = (query: string) => { onBack(); handleOracularQuery(query); };
@@ -1603,6 +668,27 @@ export const useAstrianSystem = () => {
                     case 'voiceAnalysis':
                         props.onAnalyze = () => handleVoiceAnalysis();
                         break;
+                    case 'gematriaLookup': {
+                        const value = parseInt(callSignMatch[2] ?? '', 10);
+                        props.value = Number.isNaN(value) ? undefined : value;
+                        props.onNumberInteract = handleNumberInteract;
+                        props.onJump = (corpus: string, location: VerseLocation) => {
+                            const from = { chapter: location.chapter, verse: location.verse };
+                            handleBibleReferenceAnalysis({ corpus, book: location.book, from, to: from, source: formatVerseLocation(location) }, { directions: ['forward', 'backward'] });
+                        };
+                        break;
+                    }
+                    case 'willowNetwork':
+                        props.word = callSignMatch[2]?.trim();
+                        props.onNumberInteract = handleNumberInteract;
+                        break;
+                    case 'miluiExpansion':
+                        props.text = callSignMatch[2]?.trim();
+                        props.onNumberInteract = handleNumberInteract;
+                        break;
+                    case 'cantillation':
+                        props.text = callSignMatch[2]?.trim();
+                        break;
                     case 'entrainmentSelection':
                         props.onSelect = (profile: EntrainmentProfile) => addMessage({type: 'component', view: 'entrainment', props: {profile, onStop: onBack}});
                         break;
@@ -1615,6 +701,17 @@ export const useAstrianSystem = () => {
                 addMessage({ type: 'component', view, props });
             } else if (command === 'planner') {
                 await handleAstrianPlanner();
+            } else if (command === 'key') {
+                // °key [cipher] <query>: the cipher is optional and defaults to Chaldean.
+                const [first = '', ...rest] = (callSignMatch[2] ?? '').trim().split(/\s+/);
+                const cipher = findEnglishCipher(first);
+                const query = (cipher ? rest.join(' ') : [first, ...rest].join(' ')).trim();
+                if (query) {
+                    await handleGeneralQuery(query, cipher?.id);
+                } else {
+                    shouldShowLoading = false;
+                    addMessage({ type: 'system', text: `Usage: °key [cipher] <query>. Ciphers: ${ENGLISH_CIPHERS.map(c => c.id).join(', ')}.` });
+                }
             } else if (command.match(/^\d+$/)) {
                  shouldShowLoading = false;
                  handleNumberInteract(parseInt(command, 10));
@@ -1655,13 +752,13 @@ export const useAstrianSystem = () => {
         }
     }, [
         addMessage, updateAweDataFromQuery, sessionHistory, aweData, isAweComplete, palmistryDone, voiceDone, isPlannerUnlocked,
-        handleAweQuery, handleHebraicQuery, handleHellenisticQuery, handleElsAnalysis, handleOracularQuery, handlePalmistryAnalysis, handleVoiceAnalysis, handleAstrianPlanner, handleNumberInteract, addToast
+        handleBibleReferenceAnalysis, handleGeneralQuery, handleAweQuery, handleHebraicQuery, handleHellenisticQuery, handleElsAnalysis, handleOracularQuery, handlePalmistryAnalysis, handleVoiceAnalysis, handleAstrianPlanner, handleNumberInteract, addToast
     ]);
 
     return {
         sessionHistory, isLoading, error, isModalOpen, crossRefValue,
         guidingIntent, subliminalSeedValue, isSynthesizing, synthesisResult, isCorporaInitialized, addMessage, // Export addMessage
- isPlannerUnlocked, toasts, extractHebrewLetters, performBasicElsSearch, performElsSearchWithSkip, performElsSearchWithSkipAndDirection, performOmnipresentElsSearch, // Exporting for potential future use/testing
+ isPlannerUnlocked, toasts, extractHebrewLetters, performElsSearchWithSkipAndDirection, performOmnipresentElsSearch, // Exporting for potential future use/testing
         handleSendMessage, handleRetry, setIsModalOpen, setGuidingIntent, handleSynthesizeConnections, dismissToast,
         handleNumberInteract
     };
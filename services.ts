@@ -1,6 +1,14 @@
 import { GoogleGenAI, GenerateContentResponse, Chat } from "@google/genai";
 import { StrongsEntry, strongsHebrewCorpus, strongsGreekCorpus } from './corpora';
-import { ResonanceProfile, CascadeCorrespondence, AWEFormData, EntrainmentProfile, ELSResult, ExhaustiveResonanceResult } from './types';
+import { ResonanceProfile, CascadeCorrespondence, AWEFormData, EntrainmentProfile, ELSResult, ExhaustiveResonanceResult, ElsHit, ElsJobProgress, ElsJobResult, ElsMonteCarloResult, DeepELSAnalysisResult, ElsSearchOptions, ElsSearchRequest, ElsSignificantFinding, ElsBatchRow, ElsBatchProgress, ElsWorkerRequest, ElsWorkerResponse, ElsExternalEventOptions, EnglishCipherId, ExternalEvent, ExternalEventThresholds, GematriaIndexEntry, GematriaLookupFilter, IntegrityClaimKind, IntegrityReport, IntegrityStats, StructuredCorpora, VerseLocation, VerseRef } from './types';
+import { DEFAULT_ELS_RESULT_LIMIT, ElsIndexCache, hitToElsResult, PreparedElsText, runElsJob } from './src/els/elsEngine';
+import { describeMonteCarloSignificance } from './src/els/monteCarlo';
+import { BookIndex, buildBookIndex, locateTextIndex, Passage, slicePassage } from './src/corpus/verseIndex';
+import { standardGematria } from './src/gematria/hebrewGematria';
+import { calculateAllEnglishCiphers, calculateEnglishCipher, DEFAULT_ENGLISH_CIPHER } from './src/gematria/englishCiphers';
+import { buildGematriaIndex, GematriaIndex, lookupGematria } from './src/gematria/reverseIndex';
+import { verifyModelResult } from './src/integrity/mathematicalIntegrity';
+import { DEFAULT_EXTERNAL_EVENT_THRESHOLDS, DEFAULT_EXTERNAL_EVENTS, validateExternalEvent } from './src/els/externalEvents';
 
 /**
  * services.ts
@@ -18,24 +26,27 @@ export class AudioService {
     /**
      * Renders an array of frequencies to a WAV file blob.
      * @param frequencies - The array of frequencies to render.
-     * @param noteDuration - The duration of each note in seconds.
+     * @param noteDuration - The duration of each note in seconds, or of every note in turn (as for a chanted melody).
      * @param waveform - The oscillator waveform type.
      * @returns A promise that resolves with the WAV file as a Blob.
      */
-    public static async renderAudioToWav(frequencies: number[], noteDuration: number = 0.5, waveform: OscillatorType = 'sine'): Promise<Blob> {
-        const totalDuration = frequencies.length * noteDuration;
-        const offlineContext = new OfflineAudioContext(2, 44100 * totalDuration, 44100);
+    public static async renderAudioToWav(frequencies: number[], noteDuration: number | number[] = 0.5, waveform: OscillatorType = 'sine'): Promise<Blob> {
+        const durations = frequencies.map((_, i) => Array.isArray(noteDuration) ? noteDuration[i] : noteDuration);
+        const totalDuration = durations.reduce((sum, duration) => sum + duration, 0);
+        const offlineContext = new OfflineAudioContext(2, Math.ceil(44100 * totalDuration), 44100);
         const masterGain = offlineContext.createGain();
         masterGain.gain.setValueAtTime(0.25, 0);
         masterGain.connect(offlineContext.destination);
 
+        let start = offlineContext.currentTime;
         frequencies.forEach((freq, i) => {
             const osc = offlineContext.createOscillator();
             osc.type = waveform;
-            osc.frequency.setValueAtTime(freq, offlineContext.currentTime + i * noteDuration);
+            osc.frequency.setValueAtTime(freq, start);
             osc.connect(masterGain);
-            osc.start(offlineContext.currentTime + i * noteDuration);
-            osc.stop(offlineContext.currentTime + (i + 1) * noteDuration);
+            osc.start(start);
+            osc.stop(start + durations[i]);
+            start += durations[i];
         });
 
         const audioBuffer = await offlineContext.startRendering();
@@ -120,13 +131,16 @@ export class GeminiService {
             },
             (response) => {
                 const text = response.text.trim().replace(/^```json\s*|```\s*$/g, '');
+                let parsed: any;
                 try {
-                    return JSON.parse(text);
+                    parsed = JSON.parse(text);
                 } catch(e) {
                     console.error("Failed to parse Gemini JSON response:", text);
                     // This error will be caught by the outer try/catch in _executeRequest
                     throw new Error("Failed to parse response JSON.");
                 }
+                // Every number the model claims is recomputed before anything displays it
+                return IntegrityService.verify(parsed);
             },
             "JSON Schema"
         );
@@ -183,6 +197,368 @@ export class GeminiService {
     }
 }
 
+// =================================================================================================
+// --- MATHEMATICAL INTEGRITY SERVICE ---
+// =================================================================================================
+
+const emptyIntegrityStats = (): IntegrityStats => ({
+    responses: 0,
+    responsesWithDiscrepancies: 0,
+    byKind: { els: { checked: 0, mismatched: 0 } },
+});
+
+/** Runs the Mathematical Integrity Check on model responses and keeps the session's discrepancy totals. */
+export class IntegrityService {
+    private static stats: IntegrityStats = emptyIntegrityStats();
+
+    /** Corrects a response's checkable numbers (see `verifyModelResult`) and records the outcome. */
+    public static verify<T>(response: T): T {
+        const { result, report } = verifyModelResult(response);
+        if (report) this.record(report);
+        return result;
+    }
+
+    private static record(report: IntegrityReport) {
+        const stats = this.stats;
+        stats.responses++;
+        if (report.discrepancies.length > 0) stats.responsesWithDiscrepancies++;
+        report.discrepancies.forEach(discrepancy => stats.byKind[discrepancy.kind].mismatched++);
+        (Object.keys(report.checked) as IntegrityClaimKind[]).forEach(kind => { stats.byKind[kind].checked += report.checked[kind]; });
+    }
+
+    public static getStats(): IntegrityStats {
+        return structuredClone(this.stats);
+    }
+
+    public static reset() {
+        this.stats = emptyIntegrityStats();
+    }
+}
+
+// =================================================================================================
+// --- ELS SEARCH SERVICE ---
+// =================================================================================================
+
+/** Callbacks for the incremental output of an ELS job. */
+export interface ElsJobHandlers {
+    onHits?: (hits: ElsHit[]) => void;
+    onProgress?: (progress: ElsJobProgress) => void;
+    onMonteCarlo?: (result: ElsMonteCarloResult) => void;
+    onMatrix?: (result: DeepELSAnalysisResult) => void;
+    onFindings?: (findings: ElsSignificantFinding[]) => void;
+}
+
+/** A book to include in a batch ELS search. */
+export interface ElsBatchTarget {
+    corpus: string;
+    book: string;
+}
+
+/** Callbacks for the incremental output of a batch ELS search. */
+export interface ElsBatchHandlers {
+    onRows?: (rows: ElsBatchRow[]) => void;
+    onProgress?: (progress: ElsBatchProgress) => void;
+}
+
+/** A running batch ELS search. `result` settles once every book is done, or on cancel or failure. */
+export interface ElsBatchHandle {
+    cancel: () => void;
+    result: Promise<{ rows: ElsBatchRow[], cancelled: boolean }>;
+}
+
+/** A running ELS job. `result` settles once the job completes, is cancelled or fails. */
+export interface ElsJobHandle {
+    jobId: string;
+    cancel: () => void;
+    result: Promise<ElsJobResult>;
+}
+
+/**
+ * Runs ELS searches off the UI thread. Jobs are executed by a shared Web Worker;
+ * where workers are unavailable the same chunked engine runs in-thread instead.
+ */
+export class ElsSearchService {
+    private static worker: Worker | null = null;
+    private static jobCounter = 0;
+    private static jobs = new Map<string, { handlers: ElsJobHandlers, hits: ElsHit[], findings: ElsSignificantFinding[], monteCarlo?: ElsMonteCarloResult, matrix?: DeepELSAnalysisResult, resolve: (result: ElsJobResult) => void, reject: (error: Error) => void }>();
+
+    private static getWorker(): Worker | null {
+        if (this.worker) return this.worker;
+        if (typeof Worker === 'undefined') return null;
+        try {
+            this.worker = new Worker(new URL('./src/els/elsWorker.ts', import.meta.url), { type: 'module' });
+            this.worker.onmessage = (event: MessageEvent<ElsWorkerResponse>) => this.handleWorkerMessage(event.data);
+            this.worker.onerror = (event) => {
+                console.error("ELS worker error:", event);
+                this.jobs.forEach(job => job.reject(new Error("The ELS worker failed.")));
+                this.jobs.clear();
+                this.worker?.terminate();
+                this.worker = null;
+            };
+        } catch (e) {
+            console.warn("Could not start the ELS worker; falling back to in-thread search.", e);
+            this.worker = null;
+        }
+        return this.worker;
+    }
+
+    private static handleWorkerMessage(message: ElsWorkerResponse) {
+        const job = this.jobs.get(message.jobId);
+        if (!job) return;
+        switch (message.type) {
+            case 'hits':
+                job.hits.push(...message.hits);
+                job.handlers.onHits?.(message.hits);
+                break;
+            case 'progress':
+                job.handlers.onProgress?.(message.progress);
+                break;
+            case 'monteCarlo':
+                job.monteCarlo = message.result;
+                job.handlers.onMonteCarlo?.(message.result);
+                break;
+            case 'matrix':
+                job.matrix = message.result;
+                job.handlers.onMatrix?.(message.result);
+                break;
+            case 'findings':
+                job.findings = message.findings;
+                job.handlers.onFindings?.(message.findings);
+                break;
+            case 'done':
+                this.jobs.delete(message.jobId);
+                job.resolve({ hits: job.hits, findings: job.findings, monteCarlo: job.monteCarlo, matrix: job.matrix, cancelled: message.cancelled });
+                break;
+            case 'error':
+                this.jobs.delete(message.jobId);
+                job.reject(new Error(`ELS Fault: ${message.message}`));
+                break;
+        }
+    }
+
+    /**
+     * Starts an ELS job.
+     * @param request - What to search for and where.
+     * @param handlers - Optional callbacks for streamed hits, progress, Monte Carlo results, matrix grids and external-event findings.
+     * @returns A handle to cancel the job or await its result.
+     */
+    public static startJob(request: ElsSearchRequest, handlers: ElsJobHandlers = {}): ElsJobHandle {
+        const jobId = `els-${++this.jobCounter}`;
+        const worker = this.getWorker();
+
+        if (!worker) {
+            let cancelled = false;
+            const result = runElsJob(request, {
+                onHits: hits => handlers.onHits?.(hits),
+                onProgress: progress => handlers.onProgress?.(progress),
+                onMonteCarlo: monteCarlo => handlers.onMonteCarlo?.(monteCarlo),
+                onMatrix: matrix => handlers.onMatrix?.(matrix),
+                onFindings: findings => handlers.onFindings?.(findings),
+            }, () => cancelled);
+            return { jobId, cancel: () => { cancelled = true; }, result };
+        }
+
+        const result = new Promise<ElsJobResult>((resolve, reject) => {
+            this.jobs.set(jobId, { handlers, hits: [], findings: [], resolve, reject });
+        });
+        const message: ElsWorkerRequest = { type: 'start', jobId, request };
+        worker.postMessage(message);
+        return {
+            jobId,
+            cancel: () => worker.postMessage({ type: 'cancel', jobId } as ElsWorkerRequest),
+            result,
+        };
+    }
+
+    /**
+     * Runs the same search over several books, one job at a time, with the significance
+     * pass enabled so that every row carries its reasons and score. When the request
+     * includes a Monte Carlo test, each row also lists the controls its skip beats.
+     * @param targets - The books to search; unknown books are skipped.
+     * @param request - The search to run; its `text` is replaced by each book's text.
+     * @param handlers - Optional callbacks for each book's rows and for progress.
+     * @returns A handle to cancel the batch or await all rows.
+     */
+    public static startBatch(targets: ElsBatchTarget[], request: ElsSearchRequest, handlers: ElsBatchHandlers = {}): ElsBatchHandle {
+        let cancelled = false;
+        let current: ElsJobHandle | null = null;
+
+        const run = async () => {
+            const rows: ElsBatchRow[] = [];
+            for (const [index, { corpus, book }] of targets.entries()) {
+                if (cancelled) break;
+                handlers.onProgress?.({ booksDone: index, booksTotal: targets.length, current: `${corpus} / ${book}` });
+                const text = AstrianEngine.getCorpus(corpus)[book];
+                if (!text) continue;
+
+                current = this.startJob({ ...request, text, textKey: `${corpus}/${book}`, significance: true });
+                const { hits, findings, monteCarlo } = await current.result;
+                const findingFor = (hit: ElsHit) => findings.find(f => f.skip === hit.skip && f.indices.some(indices => indices.join() === hit.indices.join()));
+                const bookRows = hits.map(hit => {
+                    const finding = findingFor(hit);
+                    const controls = monteCarlo ? describeMonteCarloSignificance(monteCarlo, hit.skip) : [];
+                    return { corpus, book, hit, significance: [...(finding?.significance ?? []), ...controls], score: finding?.score ?? 0 };
+                });
+                rows.push(...bookRows);
+                if (bookRows.length > 0) handlers.onRows?.(bookRows);
+            }
+            if (!cancelled) handlers.onProgress?.({ booksDone: targets.length, booksTotal: targets.length, current: '' });
+            return { rows, cancelled };
+        };
+
+        return {
+            cancel: () => { cancelled = true; current?.cancel(); },
+            result: run(),
+        };
+    }
+}
+
+// =================================================================================================
+// --- EXTERNAL EVENT REGISTRY ---
+// =================================================================================================
+
+/** The file format of an exported registry. Imports also accept a bare array of events. */
+interface ExternalEventRegistryExport {
+    version: 1;
+    thresholds: ExternalEventThresholds;
+    events: ExternalEvent[];
+}
+
+/**
+ * The user-managed events of the time-independent ELS module, persisted in
+ * localStorage. A registry that has never been saved holds `DEFAULT_EXTERNAL_EVENTS`.
+ */
+export class ExternalEventRegistry {
+    private static readonly EVENTS_KEY = 'astrianKey.externalEvents';
+    private static readonly THRESHOLDS_KEY = 'astrianKey.externalEventThresholds';
+
+    private static read<T>(key: string, fallback: T): T {
+        try {
+            const stored = localStorage.getItem(key);
+            return stored ? JSON.parse(stored) : fallback;
+        } catch (e) {
+            console.error(`Could not read ${key} from local storage:`, e);
+            return fallback;
+        }
+    }
+
+    private static write(key: string, value: unknown) {
+        try {
+            localStorage.setItem(key, JSON.stringify(value));
+        } catch (e) {
+            console.error(`Could not write ${key} to local storage:`, e);
+        }
+    }
+
+    private static clear(key: string) {
+        try {
+            localStorage.removeItem(key);
+        } catch (e) {
+            console.error(`Could not remove ${key} from local storage:`, e);
+        }
+    }
+
+    private static validateThresholds(value: unknown): ExternalEventThresholds {
+        const { maxSkip, proximity } = (value || {}) as Partial<ExternalEventThresholds>;
+        if (!Number.isInteger(maxSkip) || maxSkip! < 1) throw new Error("The maximum skip must be a whole number of 1 or more.");
+        if (!Number.isInteger(proximity) || proximity! < 0) throw new Error("The proximity threshold must be a whole number of 0 or more.");
+        return { maxSkip: maxSkip!, proximity: proximity! };
+    }
+
+    public static list(): ExternalEvent[] {
+        const stored = this.read<unknown>(this.EVENTS_KEY, null);
+        if (!Array.isArray(stored)) return DEFAULT_EXTERNAL_EVENTS.map(event => ({ ...event, keywords: [...event.keywords] }));
+        return stored.flatMap(event => {
+            try { return [validateExternalEvent(event)]; } catch { return []; }
+        });
+    }
+
+    /**
+     * Adds an event, or replaces the stored event with the same id.
+     * @throws If the event is malformed.
+     */
+    public static save(event: Omit<ExternalEvent, 'id'> & { id?: string }): ExternalEvent[] {
+        const saved = validateExternalEvent(event);
+        const events = this.list();
+        const index = events.findIndex(e => e.id === saved.id);
+        if (index === -1) events.push(saved); else events[index] = saved;
+        this.write(this.EVENTS_KEY, events);
+        return events;
+    }
+
+    public static remove(id: string): ExternalEvent[] {
+        const events = this.list().filter(event => event.id !== id);
+        this.write(this.EVENTS_KEY, events);
+        return events;
+    }
+
+    /** Restores the default events and thresholds. */
+    public static reset(): ExternalEvent[] {
+        this.clear(this.EVENTS_KEY);
+        this.clear(this.THRESHOLDS_KEY);
+        return this.list();
+    }
+
+    public static getThresholds(): ExternalEventThresholds {
+        try {
+            return this.validateThresholds(this.read<unknown>(this.THRESHOLDS_KEY, DEFAULT_EXTERNAL_EVENT_THRESHOLDS));
+        } catch {
+            return { ...DEFAULT_EXTERNAL_EVENT_THRESHOLDS };
+        }
+    }
+
+    /**
+     * Stores the thresholds used by runs that do not set their own.
+     * @throws If a threshold is not a whole number in range.
+     */
+    public static setThresholds(thresholds: ExternalEventThresholds): ExternalEventThresholds {
+        const valid = this.validateThresholds(thresholds);
+        this.write(this.THRESHOLDS_KEY, valid);
+        return valid;
+    }
+
+    /** The options of one correlation run: every stored event, with per-run thresholds overriding the stored ones. */
+    public static getRunOptions(overrides: Partial<ExternalEventThresholds> = {}): ElsExternalEventOptions {
+        return { events: this.list(), ...this.getThresholds(), ...overrides };
+    }
+
+    public static exportJson(): string {
+        const data: ExternalEventRegistryExport = { version: 1, thresholds: this.getThresholds(), events: this.list() };
+        return JSON.stringify(data, null, 2);
+    }
+
+    /**
+     * Imports events (and thresholds, if present) from exported JSON.
+     * @param mode - 'merge' adds the events and replaces those with the same id; 'replace' discards the current events.
+     * @throws If the JSON is invalid or any event is malformed; nothing is stored in that case.
+     */
+    public static importJson(json: string, mode: 'merge' | 'replace' = 'merge'): ExternalEvent[] {
+        let data: unknown;
+        try {
+            data = JSON.parse(json);
+        } catch {
+            throw new Error("The file is not valid JSON.");
+        }
+        const rawEvents = Array.isArray(data) ? data : (data as Partial<ExternalEventRegistryExport> | null)?.events;
+        if (!Array.isArray(rawEvents)) throw new Error("The file has no list of events.");
+        const imported = rawEvents.map((event, i) => {
+            try { return validateExternalEvent(event); } catch (e) { throw new Error(`Event ${i + 1}: ${(e as Error).message}`); }
+        });
+        const thresholds = !Array.isArray(data) && (data as Partial<ExternalEventRegistryExport>).thresholds
+            ? this.validateThresholds((data as ExternalEventRegistryExport).thresholds)
+            : null;
+
+        const events = mode === 'replace' ? [] : this.list();
+        imported.forEach(event => {
+            const index = events.findIndex(e => e.id === event.id);
+            if (index === -1) events.push(event); else events[index] = event;
+        });
+        this.write(this.EVENTS_KEY, events);
+        if (thresholds) this.write(this.THRESHOLDS_KEY, thresholds);
+        return events;
+    }
+}
+
 // =================================================================================================
 // --- ASTRIAN ENGINE CORE ---
 // =================================================================================================
@@ -190,11 +566,11 @@ export class GeminiService {
 /** Encapsulates client-side analysis logic, such as Gematria and resonance mapping. */
 export class AstrianEngine {
     private static corporaCache: Record<string, Record<string, string>> | null = null;
+    private static bookIndices: Record<string, Record<string, BookIndex>> = {};
+    private static elsIndexCache = new ElsIndexCache(16);
+    private static gematriaIndex: GematriaIndex | null = null;
     
     private static readonly data = {
-        chaldeanMap: { 'a': 1, 'i': 1, 'j': 1, 'q': 1, 'y': 1, 'b': 2, 'k': 2, 'r': 2, 'c': 3, 'g': 3, 'l': 3, 's': 3, 'd': 4, 'm': 4, 't': 4, 'e': 5, 'h': 5, 'n': 5, 'x': 5, 'u': 6, 'v': 6, 'w': 6, 'o': 7, 'z': 7, 'f': 8, 'p': 8 },
-        hebrewMap: { 'א': 1, 'ב': 2, 'ג': 3, 'ד': 4, 'ה': 5, 'ו': 6, 'ז': 7, 'ח': 8, 'ט': 9, 'י': 10, 'כ': 20, 'ך': 20, 'ל': 30, 'מ': 40, 'ם': 40, 'נ': 50, 'ן': 50, 'ס': 60, 'ע': 70, 'פ': 80, 'ף': 80, 'צ': 90, 'ץ': 90, 'ק': 100, 'ר': 200, 'ש': 300, 'ת': 400 },
-        greekMap: { 'α': 1, 'β': 2, 'γ': 3, 'δ': 4, 'ε': 5, 'ϝ': 6, 'ζ': 7, 'η': 8, 'θ': 9, 'ι': 10, 'κ': 20, 'λ': 30, 'μ': 40, 'ν': 50, 'ξ': 60, 'ο': 70, 'π': 80, 'ϟ': 90, 'ρ': 100, 'σ': 200, 'τ': 300, 'υ': 400, 'φ': 500, 'χ': 600, 'ψ': 700, 'ω': 800 },
         periodicTable: { 1: { name: 'Hydrogen', symbol: 'H' }, 6: { name: 'Carbon', symbol: 'C' }, 7: { name: 'Nitrogen', symbol: 'N' }, 8: { name: 'Oxygen', symbol: 'O' }, 26: { name: 'Iron', symbol: 'Fe' }, 29: { name: 'Copper', symbol: 'Cu' }, 47: { name: 'Silver', symbol: 'Ag' }, 79: { name: 'Gold', symbol: 'Au' }, 80: { name: 'Mercury', symbol: 'Hg' }, 82: { name: 'Lead', symbol: 'Pb' } },
         thermoData: { 0: { substance: "Water", event: "Freezing Point", unit: "°C" }, 100: { substance: "Water", event: "Boiling Point", unit: "°C" }, 32: { substance: "Water", event: "Freezing Point", unit: "°F" }, 212: { substance: "Water", event: "Boiling Point", unit: "°F" } },
         sacredGeoData: { 60: { shape: 'Triangle (Equilateral)', property: 'Internal Angle' }, 90: { shape: 'Square', property: 'Internal Angle' }, 108: { shape: 'Pentagon', property: 'Internal Angle' }, 360: { shape: 'Circle', property: 'Degrees' }, '1.618': { shape: 'Phi', property: 'Golden Ratio (approx)' } },
@@ -203,8 +579,14 @@ export class AstrianEngine {
         celestialAndNauticalData: { 90: { concept: "Cardinal direction; Right Angle", field: "Navigation & Geometry" }, 360: { concept: "Full Circle; Completion", field: "Celestial Mechanics & Geometry" } }
     };
 
-    public static async initializeCorpora(decodedCorpora: Record<string, Record<string, string>>): Promise<void> {
-        this.corporaCache = decodedCorpora;
+    /** Flattens each structured book into its text and verse spans; `getCorpus` serves the flattened texts. */
+    public static async initializeCorpora(decodedCorpora: StructuredCorpora): Promise<void> {
+        this.bookIndices = Object.fromEntries(Object.entries(decodedCorpora).map(([corpusName, books]) =>
+            [corpusName, Object.fromEntries(Object.entries(books).map(([book, chapters]) => [book, buildBookIndex(chapters)]))]));
+        this.corporaCache = Object.fromEntries(Object.entries(this.bookIndices).map(([corpusName, books]) =>
+            [corpusName, Object.fromEntries(Object.entries(books).map(([book, index]) => [book, index.text]))]));
+        this.elsIndexCache.clear();
+        this.gematriaIndex = buildGematriaIndex(this.bookIndices);
         return Promise.resolve();
     }
     
@@ -219,51 +601,86 @@ export class AstrianEngine {
         return this.corporaCache[corpusName] || {};
     }
     
-    public static calculateChaldean = (text: string) => text.toLowerCase().split('').reduce((sum, char) => sum + (this.data.chaldeanMap[char] || 0), 0);
-    public static calculateHebraicStandard = (hebrewText: string) => hebrewText.split('').reduce((sum, char) => sum + (this.data.hebrewMap[char] || 0), 0);
+    /** The verse spans of a book, for mapping text (and ELS) indices back to chapter and verse. */
+    public static getBookIndex(corpusName: string, book: string): BookIndex | null {
+        this.getCorpus(corpusName);
+        return this.bookIndices[corpusName]?.[book] ?? null;
+    }
+
+    /** The books of every loaded corpus, for resolving °references with `parseScriptureReferences`. */
+    public static getBookCatalog(): Record<string, string[]> {
+        if (!this.isInitialized()) throw new Error("Astrian Engine corpora not initialized. The Source Stela has not been decoded.");
+        return Object.fromEntries(Object.entries(this.bookIndices).map(([corpusName, books]) => [corpusName, Object.keys(books)]));
+    }
+
+    /** The text of a verse range (inclusive); see `slicePassage`. */
+    public static getPassage(corpusName: string, book: string, from: VerseRef, to?: VerseRef): Passage | null {
+        const index = this.getBookIndex(corpusName, book);
+        return index ? slicePassage(index, from, to) : null;
+    }
+
+    /** The chapter, verse and word of a position in a book's text. */
+    public static locateTextIndex(corpusName: string, book: string, textIndex: number): VerseLocation | null {
+        const index = this.getBookIndex(corpusName, book);
+        return index ? locateTextIndex(book, index, textIndex) : null;
+    }
+
+    /** Every indexed word and phrase with a gematria value, across all corpora; see `src/gematria/reverseIndex.ts`. */
+    public static reverseGematria(value: number, filter: GematriaLookupFilter = {}): GematriaIndexEntry[] {
+        if (!this.gematriaIndex) throw new Error("Astrian Engine corpora not initialized. The Source Stela has not been decoded.");
+        return lookupGematria(this.gematriaIndex, value, filter);
+    }
+
+    public static calculateChaldean = (text: string) => calculateEnglishCipher(text, 'chaldean');
+    public static calculateHebraicStandard = (hebrewText: string) => standardGematria(hebrewText);
     
+    /**
+     * Returns the ELS index of a corpus book (its letter positions and cleaned/original
+     * offset map), building it on first use and caching it thereafter.
+     * @returns The index, or null if the book does not exist.
+     */
+    public static getElsIndex(corpusName: string, book: string): PreparedElsText | null {
+        const text = this.getCorpus(corpusName)[book];
+        return text ? this.elsIndexCache.get(text, `${corpusName}/${book}`) : null;
+    }
+
     public static getLocalStrongsEntry(number: number, isHebrew: boolean): StrongsEntry | null {
         const corpus = isHebrew ? strongsHebrewCorpus : strongsGreekCorpus;
         return corpus[number] || null;
     }
 
-    public static findELS(text: string, searchTerm: string, contextualSeed?: string): ELSResult[] {
-        if (!searchTerm || !text) return [];
-        const cleanText = text.replace(/[\s.,/#!$%^&*;:{}=\-_`~()0-9]/g, "");
-        if (!cleanText) return [];
-    
-        // If a contextual seed is provided (e.g., "David"), its Gematria value becomes the required skip.
-        // This focuses the search on a specific resonance.
+    /**
+     * Builds the ELS request behind `findELS`. If a contextual seed is provided (e.g., "David"),
+     * its Gematria value becomes the required skip, focusing the search on a specific resonance.
+     * @param options - Skip range, directions, axes and result limit; the seed overrides the skip range.
+     * @returns The request, or null if the seed has no Gematria value.
+     */
+    public static buildFindElsRequest(text: string, searchTerm: string, contextualSeed?: string, options: ElsSearchOptions = {}): ElsSearchRequest | null {
         const requiredSkip = contextualSeed ? this.calculateHebraicStandard(contextualSeed) : null;
-        if (requiredSkip !== null && requiredSkip === 0) return []; // Avoid infinite loops
-
-        const results: ELSResult[] = [];
-        const gridWidth = Math.ceil(Math.sqrt(cleanText.length));
-        const maxSkip = requiredSkip ? requiredSkip + 1 : 200; // Search only specific skip or a range
-        const minSkip = requiredSkip ? requiredSkip : 1;
-
-        for (let skip = minSkip; skip < maxSkip; skip++) {
-            for (let start = 0; start < cleanText.length; start++) {
-                let sequence = '';
-                let path: {row: number, col: number}[] = [];
-                let possible = true;
-                for (let i = 0; i < searchTerm.length; i++) {
-                    const index = start + (i * skip);
-                    if (index >= cleanText.length) {
-                        possible = false;
-                        break;
-                    }
-                    sequence += cleanText[index];
-                    path.push({ row: Math.floor(index / gridWidth), col: index % gridWidth });
-                }
+        if (requiredSkip === 0) return null; // A zero skip would never advance
+        return {
+            text,
+            terms: [searchTerm],
+            minSkip: requiredSkip ?? options.minSkip ?? 1,
+            maxSkip: requiredSkip ?? options.maxSkip ?? 199,
+            directions: options.directions?.length ? options.directions : ['forward', 'backward'],
+            axes: options.axes?.length ? options.axes : ['linear'],
+            cylinderWidth: options.cylinderWidth,
+            maxResults: options.maxResults ?? DEFAULT_ELS_RESULT_LIMIT,
+            matchFinalForms: options.matchFinalForms,
+        };
+    }
 
-                if (possible && sequence === searchTerm) {
-                    results.push({ word: searchTerm, direction: 'Forward', skip, verses: `Found starting at index ${start}`, path });
-                    if (results.length > 5) return results; // Limit results for performance
-                }
-            }
-        }
-        return results;
+    /**
+     * Finds a term as an ELS in a text, as a job of `ElsSearchService` (in the ELS worker where workers are available).
+     * @returns Every hit within the result limit, once the job settles.
+     */
+    public static async findELS(text: string, searchTerm: string, contextualSeed?: string, options: ElsSearchOptions = {}): Promise<ELSResult[]> {
+        if (!searchTerm || !text) return [];
+        const request = this.buildFindElsRequest(text, searchTerm, contextualSeed, options);
+        if (!request) return [];
+        const { hits } = await ElsSearchService.startJob(request).result;
+        return hits.map(hit => hitToElsResult(hit));
     }
 
     public static reduceNumber(num: number): number {
@@ -312,8 +729,9 @@ export class AstrianEngine {
         return [rootHz, rootHz * (5/4), rootHz * (3/2), rootHz * 2]; // root, 3rd, 5th, octave
     };
 
-    public static performExhaustiveResonanceCheck(query: string): ExhaustiveResonanceResult {
-        const gematriaValue = this.calculateChaldean(query);
+    public static performExhaustiveResonanceCheck(query: string, cipher: EnglishCipherId = DEFAULT_ENGLISH_CIPHER): ExhaustiveResonanceResult {
+        const cipherValues = calculateAllEnglishCiphers(query);
+        const gematriaValue = cipherValues[cipher];
         const baseFrequency = 256 + (gematriaValue * 4.15); // C4 based scale
         const chord = this.getPythagoreanChord(baseFrequency);
         const rootNote = this.hzToNote(chord.root);
@@ -347,11 +765,11 @@ export class AstrianEngine {
                 }))
         );
 
-        return { query, gematriaValue, primaryResonance, resonanceCascade };
+        return { query, gematriaValue, cipher, cipherValues, primaryResonance, resonanceCascade };
     }
 
     public static generateCustomEntrainmentProfile = (data: AWEFormData): Omit<EntrainmentProfile, 'explanation'> => {
-        const nameSignature = this.reduceNumber(this.calculateChaldean(data.fullNameAtBirth));
+        const nameSignature = this.reduceNumber(calculateEnglishCipher(data.fullNameAtBirth, data.cipher ?? DEFAULT_ENGLISH_CIPHER));
         const dateParts = data.birthDate.split('-').map(p => parseInt(p, 10));
         const dateSignature = this.reduceNumber(dateParts.reduce((a, b) => a + b, 0));
         const beatFrequency = 2 + (nameSignature % 10);
@@ -0,0 +1,78 @@
+import { HebrewNormalizationOptions } from '../../types';
+
+/**
+ * src/corpus/hebrewNormalizer.ts
+ *
+ * The one place Hebrew text is cleaned before it is counted or searched. Every
+ * gematria and ELS entry point goes through it, so pointed Masoretic text, plain
+ * consonantal text and text in presentation forms (שׁ, בּ, …) all read the same.
+ *   letters       א–ת and the five final forms; presentation forms become their base letter
+ *   niqqud        vowel points, dagesh, rafe, shin and sin dots (U+05B0–U+05BC, U+05BF, U+05C1, U+05C2, U+05C7)
+ *   cantillation  the ta'amim, meteg and the Masoretic upper and lower dots (U+0591–U+05AF, U+05BD, U+05C4, U+05C5)
+ *   word breaks   whitespace and maqaf (־); anything else (sof pasuq, paseq, punctuation, other scripts) is dropped
+ */
+
+/** The 22 letters in alphabetical order. */
+export const HEBREW_LETTERS = ['א', 'ב', 'ג', 'ד', 'ה', 'ו', 'ז', 'ח', 'ט', 'י', 'כ', 'ל', 'מ', 'נ', 'ס', 'ע', 'פ', 'צ', 'ק', 'ר', 'ש', 'ת'];
+
+/** Final form → regular form. */
+export const HEBREW_FINAL_FORMS: Record<string, string> = { 'ך': 'כ', 'ם': 'מ', 'ן': 'נ', 'ף': 'פ', 'ץ': 'צ' };
+
+/** Consonants only, finals kept, words separated by single spaces. */
+export const DEFAULT_HEBREW_NORMALIZATION: Required<HebrewNormalizationOptions> = {
+    keepNiqqud: false,
+    keepCantillation: false,
+    foldFinals: false,
+    keepWordBoundaries: true,
+};
+
+const HEBREW_LETTER = /[א-ת]/;
+const NIQQUD = /[ְ-ׇּֿׁׂ]/;
+const CANTILLATION = /[֑-ֽׅ֯ׄ]/;
+const WORD_BREAK = /[\s־]/;
+const PRESENTATION_FORM = /[יִ-ﭏ]/;
+
+export const isHebrewLetter = (char: string): boolean => HEBREW_LETTER.test(char);
+export const isNiqqud = (char: string): boolean => NIQQUD.test(char);
+export const isCantillation = (char: string): boolean => CANTILLATION.test(char);
+
+/** The regular form of a final letter; any other character is returned unchanged. */
+export const foldFinalForm = (letter: string): string => HEBREW_FINAL_FORMS[letter] ?? letter;
+
+/**
+ * The base letter of one character: itself for א–ת, the decomposed letter for a
+ * presentation form (the first one, for the אל ligature), or '' for anything else.
+ */
+export const normalizeHebrewLetter = (char: string, foldFinals = false): string => {
+    const base = PRESENTATION_FORM.test(char) ? Array.from(char.normalize('NFKD')).find(isHebrewLetter) ?? '' : char;
+    if (!isHebrewLetter(base)) return '';
+    return foldFinals ? foldFinalForm(base) : base;
+};
+
+/**
+ * Normalizes Hebrew text. By default the result is consonants only, final forms
+ * kept, with words separated by single spaces; see `HebrewNormalizationOptions`.
+ */
+export const normalizeHebrew = (text: string, options: HebrewNormalizationOptions = {}): string => {
+    const { keepNiqqud, keepCantillation, foldFinals, keepWordBoundaries } = { ...DEFAULT_HEBREW_NORMALIZATION, ...options };
+    let result = '';
+    for (const char of text) {
+        if (PRESENTATION_FORM.test(char)) {
+            // Decompose, then normalize the letter and its marks like any other.
+            result += normalizeHebrew(char.normalize('NFKD'), { ...options, keepWordBoundaries: false });
+        } else if (isHebrewLetter(char)) {
+            result += foldFinals ? foldFinalForm(char) : char;
+        } else if (isNiqqud(char)) {
+            if (keepNiqqud) result += char;
+        } else if (isCantillation(char)) {
+            if (keepCantillation) result += char;
+        } else if (WORD_BREAK.test(char) && keepWordBoundaries && result && !result.endsWith(' ')) {
+            result += ' ';
+        }
+    }
+    return result.trimEnd();
+};
+
+/** The Hebrew letters of a text, in order; final forms are kept unless `foldFinals` is set. */
+export const extractHebrewLetters = (text: string, foldFinals = false): string[] =>
+    Array.from(normalizeHebrew(text, { foldFinals, keepWordBoundaries: false }));
@@ -0,0 +1,291 @@
+import { ElsDirection, ScriptureReference, ScriptureReferenceCommand, VerseRef } from '../../types';
+
+/**
+ * src/corpus/referenceParser.ts
+ *
+ * The grammar of the °reference command:
+ *
+ *   °<reference>[; <reference>...] [@corpus] [keyword] [skip] [forward|backward|both]
+ *
+ * A reference is a book name followed by a chapter, a chapter:verse, or a range
+ * of either: "Genesis 1", "Gen 1-2", "1 Samuel 3:4", "Song of Songs 2:1-5",
+ * "Genesis 1:31-2:3" or "בראשית 1:1". Book names are matched against the
+ * alias tables below, ignoring case, periods, niqqud and spacing. Without an
+ * @corpus, each book resolves to the first corpus that holds it.
+ */
+
+/** Corpus name → the books it holds, in corpus order. */
+export type BookCatalog = Record<string, string[]>;
+
+/** Other names and abbreviations for each book, shared by every corpus. */
+const BOOK_ALIASES: Record<string, string[]> = {
+    'Genesis': ['Gen', 'Ge', 'Gn'],
+    'Exodus': ['Exod', 'Exo', 'Ex'],
+    'Leviticus': ['Lev', 'Le', 'Lv'],
+    'Numbers': ['Num', 'Nu', 'Nm'],
+    'Deuteronomy': ['Deut', 'Deu', 'Dt'],
+    'Joshua': ['Josh', 'Jos'],
+    'Judges': ['Judg', 'Jdg'],
+    'Ruth': ['Ru'],
+    '1 Samuel': ['1 Sam', '1 Sa', '1 Sm', '1 Kingdoms'],
+    '2 Samuel': ['2 Sam', '2 Sa', '2 Sm', '2 Kingdoms'],
+    '1 Kings': ['1 Kgs', '1 Ki'],
+    '2 Kings': ['2 Kgs', '2 Ki'],
+    '1 Chronicles': ['1 Chr', '1 Chron'],
+    '2 Chronicles': ['2 Chr', '2 Chron'],
+    'Ezra': ['Ezr'],
+    'Nehemiah': ['Neh'],
+    'Esther': ['Esth', 'Est'],
+    'Job': ['Jb'],
+    'Psalms': ['Psalm', 'Ps', 'Psa', 'Pss'],
+    'Proverbs': ['Prov', 'Pro', 'Prv'],
+    'Ecclesiastes': ['Eccl', 'Ecc', 'Qoheleth'],
+    'Song of Songs': ['Song of Solomon', 'Song', 'Canticles', 'Sng'],
+    'Isaiah': ['Isa', 'Is'],
+    'Jeremiah': ['Jer', 'Je'],
+    'Lamentations': ['Lam'],
+    'Ezekiel': ['Ezek', 'Eze', 'Ezk'],
+    'Daniel': ['Dan', 'Dn'],
+    'Hosea': ['Hos'],
+    'Joel': ['Jl'],
+    'Amos': ['Am'],
+    'Obadiah': ['Obad', 'Ob'],
+    'Jonah': ['Jon'],
+    'Micah': ['Mic'],
+    'Nahum': ['Nah'],
+    'Habakkuk': ['Hab'],
+    'Zephaniah': ['Zeph', 'Zep'],
+    'Haggai': ['Hag'],
+    'Zechariah': ['Zech', 'Zec'],
+    'Malachi': ['Mal'],
+    'Matthew': ['Matt', 'Mt'],
+    'Mark': ['Mk', 'Mrk'],
+    'Luke': ['Lk', 'Luk'],
+    'John': ['Jn', 'Jhn'],
+    'Acts': ['Act', 'Acts of the Apostles'],
+    'Romans': ['Rom', 'Ro'],
+    '1 Corinthians': ['1 Cor', '1 Co'],
+    '2 Corinthians': ['2 Cor', '2 Co'],
+    'Galatians': ['Gal'],
+    'Ephesians': ['Eph'],
+    'Philippians': ['Phil', 'Php'],
+    'Colossians': ['Col'],
+    'Hebrews': ['Heb'],
+    'James': ['Jas', 'Jm'],
+    '1 Peter': ['1 Pet', '1 Pe'],
+    '2 Peter': ['2 Pet', '2 Pe'],
+    'Jude': ['Jud'],
+    'Revelation': ['Rev', 'Re', 'Apocalypse', 'Revelations'],
+    'Tobit': ['Tob', 'Tb'],
+    'Judith': ['Jdt', 'Jth'],
+    'Wisdom': ['Wisdom of Solomon', 'Wis', 'Ws'],
+    'Sirach': ['Sir', 'Ecclesiasticus', 'Ben Sira'],
+    'Baruch': ['Bar'],
+    '1 Maccabees': ['1 Macc', '1 Mac', '1 Ma'],
+    '2 Maccabees': ['2 Macc', '2 Mac', '2 Ma'],
+    'Enoch': ['1 Enoch', 'En', 'Henok'],
+    'Jubilees': ['Jub', 'Kufale'],
+    '1 Meqabyan': ['1 Meq', '1 Meqabian'],
+    '2 Meqabyan': ['2 Meq', '2 Meqabian'],
+    '3 Meqabyan': ['3 Meq', '3 Meqabian'],
+};
+
+/** Names a book goes by in one corpus only, such as the Hebrew names of the Tanakh. */
+const CORPUS_BOOK_ALIASES: Record<string, Record<string, string[]>> = {
+    'Tanakh (Hebrew OT)': {
+        'Genesis': ['בראשית', 'Bereshit'],
+        'Exodus': ['שמות', 'Shemot'],
+        'Leviticus': ['ויקרא', 'Vayikra'],
+        'Numbers': ['במדבר', 'Bamidbar'],
+        'Deuteronomy': ['דברים', 'Devarim'],
+        'Joshua': ['יהושע', 'Yehoshua'],
+        'Judges': ['שופטים', 'Shoftim'],
+        '1 Samuel': ['שמואל א', '1 Shmuel'],
+        'Isaiah': ['ישעיהו', 'ישעיה', 'Yeshayahu'],
+        'Jeremiah': ['ירמיהו', 'ירמיה', 'Yirmeyahu'],
+        'Ezekiel': ['יחזקאל', 'Yechezkel'],
+        'Psalms': ['תהלים', 'תהילים', 'Tehillim'],
+        'Proverbs': ['משלי', 'Mishlei'],
+        'Job': ['איוב', 'Iyov'],
+    },
+    'New Testament (Greek)': {
+        'Matthew': ['Ματθαιος'],
+        'Mark': ['Μαρκος'],
+        'Luke': ['Λουκας'],
+        'John': ['Ιωαννης'],
+        'Acts': ['Πραξεις'],
+        'Revelation': ['Αποκαλυψις'],
+    },
+};
+
+/** Short names accepted after "@" for each corpus. */
+const CORPUS_ALIASES: Record<string, string> = {
+    'tanakh': 'Tanakh (Hebrew OT)',
+    'hebrew': 'Tanakh (Hebrew OT)',
+    'ot': 'Tanakh (Hebrew OT)',
+    'nt': 'New Testament (Greek)',
+    'greek': 'New Testament (Greek)',
+    'kjv': 'Christian Old/New Testament (English KJV)',
+    'english': 'Christian Old/New Testament (English KJV)',
+    'apocrypha': 'Apocrypha (English)',
+    'ethiopian': 'Ethiopian Orthodox Tewahedo Canon (English)',
+    'tewahedo': 'Ethiopian Orthodox Tewahedo Canon (English)',
+};
+
+const DIRECTION_WORDS: Record<string, ElsDirection[]> = {
+    forward: ['forward'],
+    backward: ['backward'],
+    reverse: ['backward'],
+    both: ['forward', 'backward'],
+};
+
+const ORDINAL_PREFIXES: Record<string, string> = { i: '1', ii: '2', iii: '3', first: '1', second: '2', third: '3', '1st': '1', '2nd': '2', '3rd': '3' };
+const MAX_SUGGESTIONS = 3;
+
+// A book name, then "chapter", "chapter:verse" or a range of either, then the ELS options.
+const REFERENCE_PATTERN = /^(.+?)\s*(\d+)(?::(\d+))?(?:\s*[-–]\s*(\d+)(?::(\d+))?)?(?:\s+(.+))?$/;
+
+/** Lowercase, without periods, niqqud, cantillation or spaces, with "I"/"First" etc. turned into digits. */
+export const normalizeBookName = (name: string): string => {
+    const words = name.toLowerCase().replace(/[֑-ׇ.]/g, '').split(/\s+/).filter(Boolean);
+    if (words.length > 1 && ORDINAL_PREFIXES[words[0]]) words[0] = ORDINAL_PREFIXES[words[0]];
+    return words.join('').normalize('NFD').replace(/[̀-ͯ]/g, '');
+};
+
+/**
+ * True if the text after "°" has the shape of a reference (a name followed by a number),
+ * so that parse errors can be reported instead of treating it as an unknown call sign.
+ */
+export const looksLikeScriptureReference = (input: string): boolean => /^(?:[1-3]\s*)?[^\d\s@;][^;]*?\s*\d/.test(input.trim());
+
+// Every name (normalized) → canonical book, for the books of one corpus.
+const aliasIndex = (corpus: string, books: string[]): Map<string, string> => {
+    const index = new Map<string, string>();
+    books.forEach(book => [book, ...(BOOK_ALIASES[book] || []), ...(CORPUS_BOOK_ALIASES[corpus]?.[book] || [])]
+        .forEach(name => index.set(normalizeBookName(name), book)));
+    return index;
+};
+
+const editDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+/** The books whose names are closest to `name`, best first. */
+export const suggestBooks = (name: string, catalog: BookCatalog, corpora: string[] = Object.keys(catalog)): string[] => {
+    const wanted = normalizeBookName(name);
+    const scored = new Map<string, number>();
+    corpora.forEach(corpus => aliasIndex(corpus, catalog[corpus] || []).forEach((book, alias) => {
+        const distance = alias.startsWith(wanted) && wanted.length >= 2 ? 0.5 : editDistance(wanted, alias);
+        if (distance <= Math.max(2, Math.floor(alias.length / 3)) && distance < (scored.get(book) ?? Infinity)) scored.set(book, distance);
+    }));
+    return Array.from(scored.entries()).sort((a, b) => a[1] - b[1]).slice(0, MAX_SUGGESTIONS).map(([book]) => book);
+};
+
+// The canonical book a name stands for in any alias table, whether or not a corpus holds it.
+const canonicalBook = (name: string): string | null => {
+    const wanted = normalizeBookName(name);
+    for (const [book, aliases] of Object.entries(BOOK_ALIASES)) {
+        if ([book, ...aliases].some(alias => normalizeBookName(alias) === wanted)) return book;
+    }
+    for (const books of Object.values(CORPUS_BOOK_ALIASES)) {
+        for (const [book, aliases] of Object.entries(books)) {
+            if (aliases.some(alias => normalizeBookName(alias) === wanted)) return book;
+        }
+    }
+    return null;
+};
+
+const resolveBook = (name: string, catalog: BookCatalog, corpora: string[]): { corpus: string, book: string } => {
+    const wanted = normalizeBookName(name);
+    for (const corpus of corpora) {
+        const book = aliasIndex(corpus, catalog[corpus] || []).get(wanted);
+        if (book) return { corpus, book };
+    }
+
+    const known = canonicalBook(name);
+    if (known) {
+        const holders = Object.keys(catalog).filter(corpus => catalog[corpus].includes(known));
+        if (holders.length === 0) throw new Error(`${known} is not in any loaded corpus.`);
+        throw new Error(`${known} is not in ${corpora.join(', ')}; it is in ${holders.join(', ')}.`);
+    }
+    const suggestions = suggestBooks(name, catalog, corpora);
+    throw new Error(`Unknown book "${name}".${suggestions.length > 0 ? ` Did you mean ${suggestions.join(', ')}?` : ''}`);
+};
+
+const resolveCorpus = (alias: string, catalog: BookCatalog): string => {
+    const wanted = alias.toLowerCase();
+    const corpus = CORPUS_ALIASES[wanted] ?? Object.keys(catalog).find(name => name.toLowerCase().startsWith(wanted));
+    if (!corpus || !catalog[corpus]) {
+        throw new Error(`Unknown corpus "@${alias}". Use one of: ${Object.keys(CORPUS_ALIASES).map(name => `@${name}`).join(', ')}.`);
+    }
+    return corpus;
+};
+
+// "1:1-5", "1:31-2:3", "1-2" or "1" as a from/to pair of verse refs.
+const toVerseRange = (chapter: string, verse?: string, toFirst?: string, toSecond?: string): { from: VerseRef, to: VerseRef } => {
+    const from: VerseRef = { chapter: Number(chapter), verse: verse ? Number(verse) : undefined };
+    if (!toFirst) return { from, to: from };
+    if (toSecond) return { from, to: { chapter: Number(toFirst), verse: Number(toSecond) } };
+    // A single number after the dash is a verse when the range starts at a verse, otherwise a chapter.
+    return { from, to: verse ? { chapter: from.chapter, verse: Number(toFirst) } : { chapter: Number(toFirst) } };
+};
+
+const parseOptions = (tail: string): Omit<ScriptureReferenceCommand, 'references'> => {
+    const options: Omit<ScriptureReferenceCommand, 'references'> = { directions: ['forward', 'backward'] };
+    let directionGiven = false;
+    tail.split(/\s+/).filter(Boolean).forEach(token => {
+        const direction = DIRECTION_WORDS[token.toLowerCase()];
+        if (/^\d+$/.test(token)) {
+            if (options.skip !== undefined) throw new Error(`Only one skip can be given; found "${options.skip}" and "${token}".`);
+            if (Number(token) < 1) throw new Error('The skip must be 1 or more.');
+            options.skip = Number(token);
+        } else if (direction) {
+            if (directionGiven) throw new Error(`Only one direction can be given: forward, backward or both.`);
+            options.directions = direction;
+            directionGiven = true;
+        } else {
+            if (options.keyword !== undefined) throw new Error(`Only one ELS keyword can be given; found "${options.keyword}" and "${token}".`);
+            options.keyword = token;
+        }
+    });
+    return options;
+};
+
+/**
+ * Parses the text of a °reference command (without the "°").
+ * @param catalog - The books each loaded corpus holds; books resolve in its corpus order.
+ * @throws With a message naming the problem, and suggestions where a book or corpus is unknown.
+ */
+export const parseScriptureReferences = (input: string, catalog: BookCatalog): ScriptureReferenceCommand => {
+    const corpusTokens = Array.from(input.matchAll(/(?:^|\s)@(\S+)/g));
+    if (corpusTokens.length > 1) throw new Error('Only one @corpus can be given per command.');
+    const corpora = corpusTokens.length === 1 ? [resolveCorpus(corpusTokens[0][1], catalog)] : Object.keys(catalog);
+    const segments = input.replace(/(?:^|\s)@\S+/g, ' ').split(';').map(segment => segment.trim());
+    if (segments.some(segment => !segment)) throw new Error('Empty reference; separate references with ";", e.g. "°Genesis 1:1; Exodus 3:14".');
+
+    let options: Omit<ScriptureReferenceCommand, 'references'> = { directions: ['forward', 'backward'] };
+    const references = segments.map((segment, i): ScriptureReference => {
+        const match = segment.match(REFERENCE_PATTERN);
+        if (!match || !/\D/.test(match[1])) throw new Error(`"${segment}" is not a reference. Expected a book and chapter[:verse], e.g. "Genesis 1:1-5" or "1 Samuel 3".`);
+        const [, name, chapter, verse, toFirst, toSecond, tail] = match;
+        if (tail) {
+            if (i < segments.length - 1) throw new Error(`ELS options ("${tail}") go after the last reference.`);
+            options = parseOptions(tail);
+        }
+
+        const { corpus, book } = resolveBook(name.trim(), catalog, corpora);
+        const { from, to } = toVerseRange(chapter, verse, toFirst, toSecond);
+        if (from.chapter < 1 || to.chapter < 1 || from.verse === 0 || to.verse === 0) throw new Error(`Chapters and verses in "${segment}" start at 1.`);
+        if (to.chapter < from.chapter || (to.chapter === from.chapter && (to.verse ?? Infinity) < (from.verse ?? 1))) throw new Error(`The range in "${segment}" runs backwards.`);
+        return { corpus, book, from, to, source: tail ? segment.slice(0, -tail.length).trim() : segment };
+    });
+    return { references, ...options };
+};
@@ -0,0 +1,266 @@
+import { CartographerAnalysisResults, TransliterationCandidate } from '../../types';
+import { HEBREW_FINAL_FORMS, isHebrewLetter, isNiqqud, normalizeHebrew } from './hebrewNormalizer';
+
+/**
+ * src/corpus/transliteration.ts
+ *
+ * Rule-based transliteration between English (Latin letters) and Hebrew.
+ *
+ * English → Hebrew reads each word left to right, at every position taking the
+ * longest rule that matches (so "sh" before "s", "tch" before "t"), and keeps
+ * the most likely spellings in a small beam, since most English sounds have
+ * more than one Hebrew spelling: t is ט or ת, a vowel in the middle of a word
+ * may be written with a mater lectionis or left out. A vowel opening a word
+ * is carried by א, a doubled consonant is written once and the last letter
+ * of each word takes its final form.
+ *
+ * Hebrew → English reads the niqqud when it is there (dagesh for b/v, k/kh, p/f,
+ * the shin and sin dots, the vowels, a furtive patah) and falls back on the
+ * matres lectionis when it is not, so unpointed text comes out as a skeleton.
+ */
+
+interface LatinRule {
+    latin: string;
+    /** Only at the start or the end of a word. */
+    at?: 'start' | 'end';
+    /** Only before one of these letters. */
+    before?: string;
+    /** A vowel opening a word is written on an א. */
+    vowel?: boolean;
+    options: [string, number][];
+}
+
+// Tried longest first; among rules of one length, the first that applies wins.
+const LATIN_RULES: LatinRule[] = [
+    { latin: 'tch', options: [['טש', 0.5], ['צ', 0.5]] },
+    { latin: 'sch', options: [['ש', 1]] },
+    { latin: 'ah', at: 'end', options: [['ה', 0.7], ['א', 0.3]] },
+    { latin: 'eh', at: 'end', options: [['ה', 1]] },
+    { latin: 'ee', at: 'end', options: [['י', 1]] },
+    { latin: 'ey', at: 'end', options: [['י', 0.7], ['יי', 0.3]] },
+    { latin: 'ie', at: 'end', options: [['י', 1]] },
+    { latin: 'sh', options: [['ש', 1]] },
+    { latin: 'ch', options: [['ח', 0.55], ['כ', 0.25], ['צ', 0.2]] },
+    { latin: 'th', options: [['ת', 0.75], ['ט', 0.25]] },
+    { latin: 'tz', options: [['צ', 1]] },
+    { latin: 'ts', options: [['צ', 0.7], ['טס', 0.3]] },
+    { latin: 'kh', options: [['ח', 0.6], ['כ', 0.4]] },
+    { latin: 'ph', options: [['פ', 1]] },
+    { latin: 'ck', options: [['ק', 1]] },
+    { latin: 'zh', options: [['ז', 1]] },
+    { latin: 'gh', options: [['ג', 1]] },
+    { latin: 'qu', options: [['קו', 1]] },
+    { latin: 'wh', options: [['ו', 1]] },
+    { latin: 'ee', vowel: true, options: [['י', 1]] },
+    { latin: 'oo', vowel: true, options: [['ו', 1]] },
+    { latin: 'ou', vowel: true, options: [['ו', 1]] },
+    { latin: 'oa', vowel: true, options: [['ו', 1]] },
+    { latin: 'au', vowel: true, options: [['או', 0.5], ['ו', 0.5]] },
+    { latin: 'aw', vowel: true, options: [['או', 0.5], ['ו', 0.5]] },
+    { latin: 'ai', vowel: true, options: [['י', 0.6], ['יי', 0.4]] },
+    { latin: 'ay', vowel: true, options: [['י', 0.6], ['יי', 0.4]] },
+    { latin: 'ei', vowel: true, options: [['י', 0.6], ['יי', 0.4]] },
+    { latin: 'ey', vowel: true, options: [['י', 0.6], ['יי', 0.4]] },
+    { latin: 'ie', vowel: true, options: [['י', 1]] },
+    { latin: 'ea', vowel: true, options: [['י', 0.6], ['', 0.4]] },
+    { latin: 'a', at: 'end', options: [['ה', 0.6], ['א', 0.4]] },
+    { latin: 'e', at: 'end', options: [['', 0.6], ['י', 0.25], ['ה', 0.15]] },
+    { latin: 'i', at: 'end', options: [['י', 1]] },
+    { latin: 'o', at: 'end', options: [['ו', 1]] },
+    { latin: 'u', at: 'end', options: [['ו', 1]] },
+    { latin: 'y', at: 'end', options: [['י', 1]] },
+    { latin: 'a', vowel: true, options: [['', 0.55], ['א', 0.45]] },
+    { latin: 'e', vowel: true, options: [['', 0.6], ['י', 0.4]] },
+    { latin: 'i', vowel: true, options: [['י', 0.8], ['', 0.2]] },
+    { latin: 'o', vowel: true, options: [['ו', 0.85], ['', 0.15]] },
+    { latin: 'u', vowel: true, options: [['ו', 0.85], ['', 0.15]] },
+    { latin: 'b', options: [['ב', 1]] },
+    { latin: 'c', before: 'eiy', options: [['ס', 0.8], ['צ', 0.2]] },
+    { latin: 'c', options: [['ק', 0.6], ['כ', 0.4]] },
+    { latin: 'd', options: [['ד', 1]] },
+    { latin: 'f', options: [['פ', 1]] },
+    { latin: 'g', options: [['ג', 1]] },
+    { latin: 'h', options: [['ה', 1]] },
+    { latin: 'j', options: [['י', 0.55], ['ג', 0.45]] },
+    { latin: 'k', options: [['ק', 0.6], ['כ', 0.4]] },
+    { latin: 'l', options: [['ל', 1]] },
+    { latin: 'm', options: [['מ', 1]] },
+    { latin: 'n', options: [['נ', 1]] },
+    { latin: 'p', options: [['פ', 1]] },
+    { latin: 'q', options: [['ק', 1]] },
+    { latin: 'r', options: [['ר', 1]] },
+    { latin: 's', options: [['ס', 0.65], ['ש', 0.35]] },
+    { latin: 't', options: [['ט', 0.5], ['ת', 0.5]] },
+    { latin: 'v', options: [['ב', 0.6], ['ו', 0.4]] },
+    { latin: 'w', options: [['ו', 1]] },
+    { latin: 'x', options: [['קס', 1]] },
+    { latin: 'y', options: [['י', 1]] },
+    { latin: 'z', options: [['ז', 1]] },
+];
+
+const LONGEST_RULE = Math.max(...LATIN_RULES.map(rule => rule.latin.length));
+
+/** How many partial spellings are kept while reading a word. */
+const BEAM_WIDTH = 16;
+
+const VOWELS = 'aeiou';
+
+// The rule that applies at position i of a word, and how many letters it consumes.
+const ruleAt = (word: string, i: number): { rule: LatinRule, length: number } | null => {
+    for (let length = Math.min(LONGEST_RULE, word.length - i); length > 0; length--) {
+        const latin = word.slice(i, i + length);
+        const rule = LATIN_RULES.find(r => r.latin === latin
+            && (r.at !== 'start' || i === 0)
+            && (r.at !== 'end' || i + length === word.length)
+            && (!r.before || r.before.includes(word[i + length] ?? '')));
+        if (!rule) continue;
+        // A doubled consonant ("ll", "tt") is written once.
+        const doubled = length === 1 && !VOWELS.includes(latin) && word[i + 1] === latin;
+        return { rule, length: doubled ? 2 : length };
+    }
+    return null;
+};
+
+const withFinalForm = (word: string): string => {
+    const last = word[word.length - 1];
+    const final = Object.keys(HEBREW_FINAL_FORMS).find(f => HEBREW_FINAL_FORMS[f] === last);
+    return final ? word.slice(0, -1) + final : word;
+};
+
+const transliterateWord = (word: string): { hebrew: string, score: number }[] => {
+    let beam = [{ hebrew: '', score: 1 }];
+    for (let i = 0; i < word.length;) {
+        const match = ruleAt(word, i);
+        if (!match) { i++; continue; }
+        const { rule, length } = match;
+        const options = rule.vowel && i === 0 ? rule.options.map(([hebrew, weight]): [string, number] => [hebrew.startsWith('א') ? hebrew : 'א' + hebrew, weight]) : rule.options;
+        beam = beam.flatMap(state => options.map(([hebrew, weight]) => ({ hebrew: state.hebrew + hebrew, score: state.score * weight })))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, BEAM_WIDTH);
+        i += length;
+    }
+    return beam.filter(state => state.hebrew).map(state => ({ ...state, hebrew: withFinalForm(state.hebrew) }));
+};
+
+/**
+ * The likely Hebrew spellings of an English name or phrase, most likely first.
+ * Confidences are relative: they sum to 1 over every spelling considered.
+ * @param limit - How many candidates to return.
+ */
+export const transliterateToHebrew = (text: string, limit = 5): TransliterationCandidate[] => {
+    const words = text.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+    if (words.length === 0) return [];
+    const phrases = words.map(transliterateWord).reduce((acc, spellings) => acc
+        .flatMap(a => spellings.map(b => ({ hebrew: a.hebrew ? `${a.hebrew} ${b.hebrew}` : b.hebrew, score: a.score * b.score })))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, BEAM_WIDTH), [{ hebrew: '', score: 1 }]);
+
+    // Different rule paths can arrive at the same spelling.
+    const merged = new Map<string, number>();
+    phrases.filter(p => p.hebrew).forEach(p => merged.set(p.hebrew, (merged.get(p.hebrew) ?? 0) + p.score));
+    const total = Array.from(merged.values()).reduce((sum, score) => sum + score, 0);
+    return Array.from(merged.entries())
+        .map(([hebrew, score]) => ({ hebrew, confidence: Math.round((score / total) * 100) / 100 }))
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, limit);
+};
+
+/** The single most likely Hebrew spelling, or '' if the text has no Latin letters. */
+export const bestHebrewSpelling = (text: string): string => transliterateToHebrew(text, 1)[0]?.hebrew ?? '';
+
+// --- Hebrew → English ---
+
+const SHVA = '\u05B0';
+const DAGESH = '\u05BC';
+const SHIN_DOT = '\u05C1';
+const SIN_DOT = '\u05C2';
+const HOLAM = '\u05B9';
+const HOLAM_FOR_VAV = '\u05BA';
+
+const VOWEL_SOUNDS: Record<string, string> = {
+    '\u05B1': 'e', '\u05B2': 'a', '\u05B3': 'o', '\u05B4': 'i', '\u05B5': 'e', '\u05B6': 'e',
+    '\u05B7': 'a', '\u05B8': 'a', '\u05B9': 'o', '\u05BA': 'o', '\u05BB': 'u', '\u05C7': 'o',
+};
+
+const CONSONANT_SOUNDS: Record<string, string> = {
+    'א': '', 'ג': 'g', 'ד': 'd', 'ה': 'h', 'ז': 'z', 'ח': 'ch', 'ט': 't', 'י': 'y', 'ל': 'l', 'מ': 'm', 'ם': 'm',
+    'נ': 'n', 'ן': 'n', 'ס': 's', 'ע': '', 'צ': 'tz', 'ץ': 'tz', 'ק': 'k', 'ר': 'r', 'ת': 't',
+};
+
+// Letters whose sound depends on a dagesh: [with, without].
+const BEGADKEFAT: Record<string, [string, string]> = { 'ב': ['b', 'v'], 'כ': ['k', 'kh'], 'ך': ['k', 'kh'], 'פ': ['p', 'f'], 'ף': ['p', 'f'] };
+
+interface Cluster { letter: string; marks: string; }
+
+const clustersOf = (word: string): Cluster[] => {
+    const clusters: Cluster[] = [];
+    for (const char of word) {
+        if (isHebrewLetter(char)) clusters.push({ letter: char, marks: '' });
+        else if (clusters.length > 0) clusters[clusters.length - 1].marks += char;
+    }
+    return clusters;
+};
+
+const transliterateHebrewWord = (word: string): string => {
+    const clusters = clustersOf(word);
+    const pointed = clusters.some(c => c.marks);
+    let result = '';
+    let previousVowel = '';
+    clusters.forEach(({ letter, marks }, i) => {
+        const first = i === 0;
+        const last = i === clusters.length - 1;
+        const vowel = Array.from(marks).map(mark => VOWEL_SOUNDS[mark]).find(Boolean) ?? (marks.includes(SHVA) && first ? 'e' : '');
+        const hasDagesh = marks.includes(DAGESH);
+        let consonant: string;
+        let sound = vowel;
+
+        if (letter === 'ו') {
+            if (pointed && (marks.includes(HOLAM) || marks.includes(HOLAM_FOR_VAV)) && !marks.replace(HOLAM, '').replace(HOLAM_FOR_VAV, '')) { consonant = ''; sound = 'o'; }
+            else if (pointed && hasDagesh && marks === DAGESH) { consonant = ''; sound = 'u'; }
+            else if (!pointed && !first) { consonant = ''; sound = 'o'; }
+            else consonant = 'v';
+        } else if (letter === 'י') {
+            // A yod without a vowel after i or e is a mater lectionis; unpointed, any yod past the first letter is read as i.
+            if (pointed && !vowel && (previousVowel === 'i' || previousVowel === 'e')) consonant = '';
+            else if (!pointed && !first) { consonant = ''; sound = 'i'; }
+            else consonant = 'y';
+        } else if (letter === 'ש') {
+            consonant = marks.includes(SIN_DOT) ? 's' : 'sh';
+        } else if (letter === 'ה') {
+            consonant = last && !hasDagesh && !vowel ? '' : 'h';
+        } else if (BEGADKEFAT[letter]) {
+            const [hard, soft] = BEGADKEFAT[letter];
+            consonant = (pointed ? hasDagesh : first) ? hard : soft;
+        } else {
+            consonant = CONSONANT_SOUNDS[letter] ?? '';
+        }
+
+        // A patah under a final ח, ע or ה (with mappiq) is sounded before the consonant, as in "ruach".
+        const furtive = last && vowel === 'a' && (letter === 'ח' || letter === 'ע' || (letter === 'ה' && hasDagesh));
+        result += furtive ? sound + consonant : consonant + sound;
+        if (sound) previousVowel = sound;
+    });
+    return result;
+};
+
+/** A Latin transliteration of Hebrew text, word by word; cantillation is ignored. */
+export const transliterateHebrew = (text: string): string =>
+    normalizeHebrew(text, { keepNiqqud: true }).split(' ').filter(Boolean).map(transliterateHebrewWord).join(' ');
+
+// Pointed Hebrew is read locally; unpointed, the model's reading is kept, since it can supply the vowels, and the local skeleton only stands in for a missing one.
+const localReading = (hebrew: string, modelReading: string | undefined): string =>
+    Array.from(hebrew).some(isNiqqud) || !modelReading ? transliterateHebrew(hebrew) : modelReading;
+
+/**
+ * Fills the transliterations of a cartographer result locally wherever the Hebrew is
+ * pointed or the model gave none: the passage, every gematria term and every ELS word.
+ */
+export const withLocalTransliteration = <T extends Pick<CartographerAnalysisResults, 'hebrewText' | 'transliteration' | 'gematriaAnalysis' | 'deepElsAnalysis'>>(result: T): T => ({
+    ...result,
+    transliteration: result.hebrewText ? localReading(result.hebrewText, result.transliteration) : result.transliteration,
+    gematriaAnalysis: result.gematriaAnalysis?.map(item => ({ ...item, transliteration: localReading(item.word, item.transliteration) })),
+    deepElsAnalysis: result.deepElsAnalysis && {
+        ...result.deepElsAnalysis,
+        elsAnalysis: result.deepElsAnalysis.elsAnalysis?.map(els => ({ ...els, transliteration: localReading(els.word, els.transliteration) })),
+    },
+});
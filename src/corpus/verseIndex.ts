@@ -0,0 +1,124 @@
+import { StructuredBook, StructuredCorpora, VerseLocation, VerseRef } from '../../types';
+
+/**
+ * src/corpus/verseIndex.ts
+ *
+ * The verse-aware corpus model. Corpora are stored as book → chapter → verse →
+ * words; each book is flattened once into a single text (words joined by
+ * spaces) together with the character span of every verse, so that any index
+ * into the text, including an ELS letter position, maps back to its verse.
+ */
+
+/** The character span of one verse in its book's text, and where each of its words starts. */
+export interface VerseSpan {
+    chapter: number;
+    verse: number;
+    /** Inclusive start and exclusive end in the book text. */
+    start: number;
+    end: number;
+    wordStarts: number[];
+}
+
+/** A book flattened into one text, with the span of every verse in reading order. */
+export interface BookIndex {
+    text: string;
+    spans: VerseSpan[];
+}
+
+/** A slice of a book's text covering whole verses. */
+export interface Passage {
+    text: string;
+    /** Where `text` starts in the book text; add it to a passage index to get a book index. */
+    offset: number;
+    from: VerseRef;
+    to: VerseRef;
+}
+
+/** Flattens a structured book into its text and verse spans. */
+export const buildBookIndex = (book: StructuredBook): BookIndex => {
+    const spans: VerseSpan[] = [];
+    let text = '';
+    book.forEach((verses, c) => verses.forEach((words, v) => {
+        if (text) text += ' ';
+        const start = text.length;
+        const wordStarts: number[] = [];
+        words.forEach((word, w) => {
+            if (w > 0) text += ' ';
+            wordStarts.push(text.length);
+            text += word;
+        });
+        spans.push({ chapter: c + 1, verse: v + 1, start, end: text.length, wordStarts });
+    }));
+    return { text, spans };
+};
+
+// Index of the last span starting at or before `index`.
+const spanIndexAt = (spans: VerseSpan[], index: number): number => {
+    let lo = 0;
+    let hi = spans.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >>> 1;
+        if (spans[mid].start <= index) lo = mid; else hi = mid - 1;
+    }
+    return lo;
+};
+
+/**
+ * Maps an index into a book's text back to its chapter, verse and word.
+ * An index on the space between two verses belongs to the earlier verse.
+ * @returns null if the index lies outside the text.
+ */
+export const locateTextIndex = (bookName: string, index: BookIndex, textIndex: number): VerseLocation | null => {
+    if (index.spans.length === 0 || textIndex < 0 || textIndex >= index.text.length) return null;
+    const span = index.spans[spanIndexAt(index.spans, textIndex)];
+    let word = 0;
+    while (word + 1 < span.wordStarts.length && span.wordStarts[word + 1] <= textIndex) word++;
+    return { book: bookName, chapter: span.chapter, verse: span.verse, word: word + 1 };
+};
+
+const compareRefs = (a: VerseRef, b: VerseRef) => a.chapter - b.chapter || a.verse - b.verse;
+
+/**
+ * The text of the verses from `from` to `to` (inclusive). `to` defaults to `from`;
+ * a ref without a verse covers its whole chapter.
+ * @returns null if either end does not exist or the range runs backwards.
+ */
+export const slicePassage = (index: BookIndex, from: VerseRef, to: VerseRef = from): Passage | null => {
+    const first = index.spans.find(span => span.chapter === from.chapter && (from.verse === undefined || span.verse === from.verse));
+    const inChapter = index.spans.filter(span => span.chapter === to.chapter);
+    const last = to.verse === undefined ? inChapter[inChapter.length - 1] : inChapter.find(span => span.verse === to.verse);
+    if (!first || !last || compareRefs(first, last) > 0) return null;
+    return {
+        text: index.text.slice(first.start, last.end),
+        offset: first.start,
+        from: { chapter: first.chapter, verse: first.verse },
+        to: { chapter: last.chapter, verse: last.verse },
+    };
+};
+
+/** "Genesis 1:1", "Genesis 1:1-3" or "Genesis 1:31-2:3". */
+export const formatVerseRange = (book: string, from: VerseRef, to: VerseRef = from): string => {
+    const start = `${book} ${from.chapter}:${from.verse ?? 1}`;
+    if (to.chapter === from.chapter && to.verse === from.verse) return start;
+    return to.chapter === from.chapter ? `${start}-${to.verse}` : `${start}-${to.chapter}:${to.verse}`;
+};
+
+/** "Genesis 1:1" for a location; the word number is left out. */
+export const formatVerseLocation = (location: VerseLocation): string => formatVerseRange(location.book, location);
+
+/**
+ * Loads corpora authored as book → chapters → verse strings, splitting each verse into words.
+ * @throws If the payload is not shaped that way; the message names the offending book.
+ */
+export const loadStructuredCorpora = (payload: unknown): StructuredCorpora => {
+    if (!payload || typeof payload !== 'object') throw new Error('The corpus payload must be an object of corpora.');
+    return Object.fromEntries(Object.entries(payload as Record<string, unknown>).map(([corpusName, books]) => {
+        if (!books || typeof books !== 'object') throw new Error(`Corpus "${corpusName}" must be an object of books.`);
+        return [corpusName, Object.fromEntries(Object.entries(books as Record<string, unknown>).map(([bookName, chapters]) => {
+            const isChapterList = Array.isArray(chapters) && chapters.every(verses => Array.isArray(verses) && verses.every(verse => typeof verse === 'string'));
+            if (!isChapterList) throw new Error(`Book "${bookName}" of "${corpusName}" must be a list of chapters, each a list of verses.`);
+            const book: StructuredBook = (chapters as string[][]).map(verses => verses.map(verse => verse.split(/\s+/).filter(Boolean)));
+            return [bookName, book];
+        }))];
+    }));
+};
@@ -1,6 +1,13 @@
-i do
+
 // src/dataModels.ts
-import { type } from "os";
+import hebrewAlphabetData from '../data/hebrewAlphabetData.json';
+import { MiluiExpansion, NetworkAnalysis, NetworkFileFormat, NetworkPathAnalysis, SpellingTradition } from '../types';
+import { DEFAULT_SPELLING_TRADITION, findSpellingTradition, validateHebrewAlphabetData } from './gematria/alphabetData';
+import { extractHebrewLetters, foldFinalForm } from './corpus/hebrewNormalizer';
+import { analyzeNetwork } from './network/analytics';
+import { projectNetworkPath } from './network/path';
+import { expandMilui } from './gematria/milui';
+import { parseNetwork, serializeNetwork } from './network/serializers';
 
 /**
  * Interface representing a node in the Hebrew alphabet network.
@@ -10,6 +17,10 @@ export interface HebrewLetterNode {
   gematria: number; // The standard/absolute Gematria value of the letter
   phonetic: string; // The phonetic representation of the letter
   spelling: string[]; // An array of letters that form the spelling of this letter
+  fullValue: number; // The Gematria of the letter's spelling
+  connections: string[]; // The letters the Willow network links this letter to
+  island: string; // The island the alphabet data assigns the letter to, for display; see analyze() for the islands of the spellings
+  color: string; // The display color of the data's island
 }
 
 /**
@@ -17,9 +28,15 @@ export interface HebrewLetterNode {
  */
 export class HebrewAlphabetNetwork {
   private nodes: Map<string, HebrewLetterNode>;
+  private gematriaData: Map<string, number>;
+  private analysis?: NetworkAnalysis;
 
+  /**
+   * @param gematriaData The Gematria value of each letter, used for letters added by `populateNetwork` without a node.
+   */
   constructor(gematriaData: Map<string, number>) {
     this.nodes = new Map();
+    this.gematriaData = gematriaData;
   }
 
   /**
@@ -29,18 +46,19 @@ export class HebrewAlphabetNetwork {
   addNode(node: HebrewLetterNode): void {
     if (!this.nodes.has(node.letter)) {
       this.nodes.set(node.letter, node);
+      this.analysis = undefined;
     } else {
       console.warn(`Node for letter "${node.letter}" already exists.`);
     }
   }
 
   /**
-   * Gets a letter node from the network by its letter.
+   * Gets a letter node from the network by its letter. A final form is found as its regular form.
    * @param letter The Hebrew letter of the node to retrieve.
    * @returns The HebrewLetterNode if found, otherwise undefined.
    */
   getNode(letter: string): HebrewLetterNode | undefined {
-    return this.nodes.get(letter);
+    return this.nodes.get(letter) ?? this.nodes.get(foldFinalForm(letter));
   }
 
   /**
@@ -72,16 +90,22 @@ export class HebrewAlphabetNetwork {
           letter,
           gematria: gematria,
           phonetic: '', // Placeholder
-          spelling: [] });
+          spelling: [],
+          fullValue: 0,
+          connections: [],
+          island: '',
+          color: '' });
       }
     });
 
     // Then, establish the spelling relationships (edges)
+    this.analysis = undefined;
     for (const [letter, spelling] of spellings.entries()) {
       const node = this.nodes.get(letter);
       if (node) {
-        // Update the spelling property for the node
+        // Update the spelling property for the node, and the full value it spells
         node.spelling = spelling;
+        node.fullValue = spelling.reduce((sum, l) => sum + (this.getNode(l)?.gematria ?? 0), 0);
         // In a more complex graph implementation, you might add explicit edge objects here.
         // For this interface, the 'spelling' array implicitly defines the outgoing edges.
       }
@@ -161,26 +185,57 @@ export class HebrewAlphabetNetwork {
     return totalGematria;
   }
 
+  /**
+   * Computes the graph analytics of the spelling edges: components, cycles, degree and
+   * betweenness centrality, hubs, and the islands and tiers derived from them.
+   * The result is kept until the network next changes.
+   * @returns The NetworkAnalysis of the current spellings.
+   */
+  analyze(): NetworkAnalysis {
+    if (!this.analysis) this.analysis = analyzeNetwork(this.nodes);
+    return this.analysis;
+  }
+
+  /**
+   * Projects a word or verse onto the network as a walk from letter to letter: the islands
+   * it visits, the steps that follow spelling edges, its loop and hub letters, and the
+   * network distance between consecutive letters.
+   * @param text Hebrew text; anything that is not a letter is ignored.
+   * @returns The NetworkPathAnalysis of the walk.
+   */
+  projectPath(text: string): NetworkPathAnalysis {
+    return projectNetworkPath(text, this.nodes, this.analyze());
+  }
+
+  /**
+   * Spells a text out by this network's spellings, then spells out those letters, to a depth.
+   * @param text Hebrew text; anything that is not a letter is ignored.
+   * @param depth How many times to spell out, from 0 to MAX_MILUI_DEPTH.
+   * @returns The MiluiExpansion, with the gematria of every level and a tree of the spellings.
+   */
+  expandMilui(text: string, depth: number): MiluiExpansion {
+    return expandMilui(text, depth, letter => this.getNode(letter)?.spelling ?? [], letter => this.getNode(letter)?.gematria ?? 0);
+  }
+
+  /**
+   * Writes the network for external graph tools, each letter with its gematria, full value,
+   * phonetic name, island and color, and an edge for each letter of its name.
+   * @param format One of the NETWORK_FORMATS: 'graphml', 'dot' or 'jsonld'.
+   * @param name The network's name, as the file's title.
+   * @returns The file's text; importHebrewAlphabetNetwork reads it back.
+   */
+  serialize(format: NetworkFileFormat, name?: string): string {
+    return serializeNetwork(this.nodes, format, name);
+  }
+
   /**
    * Maps a calculated island Gematria value to its corresponding tier name.
    * @param gematriaValue The combined Gematria value of an island.
-   * @returns The name of the tier ("Tier 1", "Tier 2", etc.) or undefined if the value does not match a tier.
+   * @returns The name of the tier ("Tier 1" for the island of highest Gematria, and so on) or undefined if no island has the value.
    */
   getTierByIslandGematria(gematriaValue: number): string | undefined {
-    switch (gematriaValue) {
-      case 547:
-        return "Tier 1";
-      case 500:
-        return "Tier 2";
-      case 287:
-        return "Tier 3";
-      case 81:
-        return "Tier 4";
-      case 80:
-        return "Tier 5";
-      default:
-        return undefined;
-    }
+    const island = this.analyze().islands.find(i => i.gematria === gematriaValue);
+    return island ? `Tier ${island.tier}` : undefined;
   }
 
   /**
@@ -188,250 +243,138 @@ export class HebrewAlphabetNetwork {
    * @returns An array of objects, each containing the island name, its gematria, and its corresponding tier.
    */
   getAllIslandTiers(): { islandName: string; gematria: number | undefined; tier: string | undefined }[] {
-    const islandTiers: { islandName: string; gematria: number | undefined; tier: string | undefined }[] = [];
-    const islandNames = this.getAllIslandNames();
-
-    for (const islandName of islandNames) {
-      const gematria = this.calculateIslandGematria(islandName);
-      const tier = gematria !== undefined ? this.getTierByIslandGematria(gematria) : undefined;
-      islandTiers.push({
-        islandName,
-        gematria,
-        tier,
-      });
-    }
-    return islandTiers;
+    return this.analyze().islands.map(island => ({ islandName: island.name, gematria: island.gematria, tier: `Tier ${island.tier}` }));
   }
 
   /**
-   * Identifies disconnected subgraphs ("islands") in the network.
-   * This is a simplified approach based on the provided spelling relationships.
-   * A more robust graph algorithm might be needed for a truly disconnected component analysis
-   * if nodes can exist without being part of any spelling.
-   * For this model, we'll identify letters that don't appear in the 'spelling' array
-   * of any other letter, plus the components reachable from letters that are
- * starting points in the spelling relationships and calculate their Gematria.
-   * @returns An array of objects, where each object represents an island/subgraph
+   * Identifies the islands of the network: each loop of letters that spell one another,
+   * with every letter whose spelling reaches that loop first, and the letters that reach no loop.
+   * @returns An array of objects, where each object represents an island
    * and contains a list of letter nodes and their combined Gematria value.
    */
   identifyAndCalculateIslands(): { nodes: HebrewLetterNode[], totalGematria: number }[] {
-    const visited = new Set<string>();
-    const islands: Set<Set<string>> = new Set();
-    const lettersInSpellings = new Set<string>();
-
-    // Identify all letters that appear in any spelling
-    this.nodes.forEach(node => {
-      node.spelling.forEach(letter => lettersInSpellings.add(letter));
-    });
-
-    // Identify isolated nodes (those not part of any spelling and not spelling themselves)
-    // and perform DFS from any unvisited node to find connected components.
-    this.nodes.forEach(node => {
-      if (!visited.has(node.letter)) {
-        const island = new Set<string>();
-        this.dfs(node.letter, (visitedNode) => island.add(visitedNode.letter), visited);
-        if (island.size > 0) islands.add(island);
-      }
-    });
-
-    // Convert sets of letters into the desired output format with nodes and total Gematria
-    const result: { nodes: HebrewLetterNode[], totalGematria: number }[] = [];
-    islands.forEach(islandSet => {
-      const islandNodes: HebrewLetterNode[] = [];
-      let totalGematria = 0;
-      islandSet.forEach(letter => {
-        const node = this.getNode(letter);
-        if (node) {
-          islandNodes.push(node);
-          totalGematria += node.gematria;
-        }
-      });
-      result.push({
-        nodes: islandNodes,
-        totalGematria: totalGematria
-      });
-    });
-
-    return result;
+    return this.analyze().islands.map(island => ({
+      nodes: island.letters.map(letter => this.nodes.get(letter)!),
+      totalGematria: island.gematria,
+    }));
   }
 
   /**
    * Returns the Hebrew letters belonging to a specific island.
-   * @param islandName The name of the island (e.g., "Primary Chain", "Aleph-Pey Loop").
+   * @param islandName The name of the island (e.g., "Aleph-Pey", "Isolated").
    * @returns An array of Hebrew letters in the island, or undefined if the name is not recognized.
    */
   getIslandLetters(islandName: string): string[] | undefined {
-    switch (islandName) {
-      case "Primary Chain":
-        return ["ז", "י", "נ", "ו", "ד", "ל", "ת", "מ"];
-      case "Aleph-Pey Loop":
-        return ["א", "פ"];
-      case "Resh-Shin Island":
-        return ["ר", "ש"];
-      case "Samekh-Kaf Island":
-        return ["ס", "כ"];
-      case "Isolated Letters":
-        return ["ב", "ג", "ה", "ח", "ט", "ע", "צ", "ק"];
-      default:
-        return undefined;
-    }
+    return this.analyze().islands.find(island => island.name === islandName)?.letters;
   }
 
   /**
    * Calculates the combined Gematria value of a specific island.
    * @param islandName The name of the island.
-   * @returns The total Gematria value of the island, or undefined if the island name is not recognized or a letter is not found.
+   * @returns The total Gematria value of the island, or undefined if the island name is not recognized.
    */
   calculateIslandGematria(islandName: string): number | undefined {
-    const islandLetters = this.getIslandLetters(islandName);
-    if (!islandLetters) {
+    const island = this.analyze().islands.find(i => i.name === islandName);
+    if (!island) {
       console.warn(`Island "${islandName}" not recognized.`);
       return undefined;
     }
-
-    let totalGematria = 0;
-    for (const letter of islandLetters) {
-      const node = this.getNode(letter);
-      if (node) {
-        totalGematria += node.gematria;
-      } else {
-        console.warn(`Letter "${letter}" in island "${islandName}" not found in the network.`);
-        return undefined; // Or handle this case differently
-      }
-    }
-    return totalGematria;
+    return island.gematria;
   }
 
   /**
-   * Returns an array of all defined island names.
+   * Returns an array of all island names, in the order of their loops' first letters.
    * @returns A string array of island names.
    */
   getAllIslandNames(): string[] {
-    return ["Primary Chain", "Aleph-Pey Loop", "Resh-Shin Island", "Samekh-Kaf Island", "Isolated Letters"];
+    return this.analyze().islands.map(island => island.name);
   }
 
   /**
-   * Searches the network to find the Aleph-Pey loop (א -> פ -> א).
-   * @returns An array of string arrays, where each inner array represents a path in the loop.
+   * Enumerates the loops of two or more letters that spell one another, such as Aleph-Pey (א -> פ -> א).
+   * @returns An array of string arrays, each a cycle starting from its earliest letter.
    */
-  findAlephPeyLoop(): string[][] {
-    const loops: string[][] = [];
-    const alephNode = this.getNode('א');
-    const peyNode = this.getNode('פ');
-
-    if (alephNode && peyNode) {
-      // Check for א -> פ
-      if (alephNode.spelling.includes('פ')) {
-        // Check for פ -> א
-        if (peyNode.spelling.includes('א')) {
-          loops.push(['א', 'פ']);
-          loops.push(['פ', 'א']);
-        }
-      }
-    }
-    return loops;
+  findLoops(): string[][] {
+    return this.analyze().cycles;
   }
 
   /**
-   * Identifies letters in the network whose spelling includes themselves, specifically 'מ' (Mem) and 'ו' (Vav).
+   * Identifies letters in the network whose spelling includes themselves, such as 'מ' (Mem, מם).
    * @returns An array of strings, listing the letters that have self-loops.
    */
   findSelfLoops(): string[] {
-    const selfLoops: string[] = [];
-    const memNode = this.getNode('מ');
-    const vavNode = this.getNode('ו');
-
-    if (memNode && memNode.spelling.includes('מ')) {
-      selfLoops.push('מ');
-    }
-    if (vavNode && vavNode.spelling.includes('ו')) {
-      selfLoops.push('ו');
-    }
-    return selfLoops;
+    return this.analyze().selfLoops;
   }
 
   /**
-   * Returns the string 'י' if a node for Yud exists in the network, indicating it as the defined hub.
-   * @returns The string 'י' if Yud exists, otherwise undefined.
+   * Returns the hubs of the network: letters far above the mean in both in-degree and betweenness centrality.
+   * @returns The hub letters, in the network's order.
    */
-  getYudHub(): string | undefined {
-    return this.nodes.has('י') ? 'י' : undefined;
+  getHubs(): string[] {
+    return this.analyze().hubs;
   }
 }
-const standardGematria: Map<string, number> = new Map();
-standardGematria.set("א", 1);
-standardGematria.set("ב", 2);
-standardGematria.set("ג", 3);
-standardGematria.set("ד", 4);
-standardGematria.set("ה", 5);
-standardGematria.set("ו", 6);
-standardGematria.set("ז", 7);
-standardGematria.set("ח", 8);
-standardGematria.set("ט", 9);
-standardGematria.set("י", 10);
-standardGematria.set("כ", 20);
-standardGematria.set("ל", 30);
-standardGematria.set("מ", 40);
-standardGematria.set("נ", 50);
-standardGematria.set("ס", 60);
-standardGematria.set("ע", 70);
-standardGematria.set("פ", 80);
-standardGematria.set("צ", 90);
-standardGematria.set("ק", 100);
-standardGematria.set("ר", 200);
-standardGematria.set("ש", 300);
-standardGematria.set("ת", 400);
-standardGematria.set("ך", 500);
-standardGematria.set("ם", 600);
-standardGematria.set("ן", 700);
-standardGematria.set("ף", 800);
-standardGematria.set("ץ", 900);
-const hebrewSpellings = new Map<string, string[]>();
-hebrewSpellings.set("א", ["א", "ל", "ף"]);
-hebrewSpellings.set("ב", ["ב", "י", "ת"]);
-hebrewSpellings.set("ג", ["ג", "י", "מ", "ל"]);
-hebrewSpellings.set("ד", ["ד", "ל", "ת"]);
-hebrewSpellings.set("ה", ["ה", "א"]);
-hebrewSpellings.set("ו", ["ו", "ו"]);
-hebrewSpellings.set("ז", ["ז", "י", "ן"]);
-hebrewSpellings.set("ח", ["ח", "י", "ת"]);
-hebrewSpellings.set("ט", ["ט", "י", "ת"]);
-hebrewSpellings.set("י", ["י", "ו", "ד"]);
-hebrewSpellings.set("כ", ["כ", "ף"]);
-hebrewSpellings.set("ל", ["ל", "מ", "ד"]);
-hebrewSpellings.set("מ", ["מ", "ם"]);
-hebrewSpellings.set("נ", ["נ", "ו", "ן"]);
-hebrewSpellings.set("ס", ["ס", "מ", "ך"]);
-hebrewSpellings.set("ע", ["ע", "י", "ן"]);
-hebrewSpellings.set("פ", ["פ", "א"]);
-hebrewSpellings.set("צ", ["צ", "ד", "י"]);
-hebrewSpellings.set("ק", ["ק", "ו", "ף"]);
-hebrewSpellings.set("ר", ["ר", "י", "ש"]);
-hebrewSpellings.set("ש", ["ש", "י", "ן"]);
-hebrewSpellings.set("ת", ["ת", "ו"]); // Assuming Tav's spelling is Tav-Vav based on previous input
-
-// Including final forms in the spellings data if they appear in the spellings
-hebrewSpellings.set("ך", ["כ", "ף"]); // Final Kaf
-hebrewSpellings.set("ם", ["מ", "ם"]); // Final Mem
-hebrewSpellings.set("ן", ["נ", "ו", "ן"]); // Final Nun
-hebrewSpellings.set("ף", ["פ", "א"]); // Final Pey
-hebrewSpellings.set("ץ", ["צ", "ד", "י"]); // Final Tsade
-
-export const hebrewAlphabetNetwork = new HebrewAlphabetNetwork(standardGematria);
-hebrewAlphabetNetwork.populateNetwork(hebrewSpellings);
-
-// --- Example Usage ---
-
-console.log("--- DFS Example (Starting from Aleph) ---");
-hebrewAlphabetNetwork.dfs('א', (node) => {
-  console.log(`Visited: ${node.letter} (Gematria: ${node.gematria})`);
-});
-console.log("-----------------------------------------");
-
-console.log("--- Calculate Path Gematria Example (Bet, Yud, Tav) ---");
-const examplePath = ['ב', 'י', 'ת'];
-const pathGematria = hebrewAlphabetNetwork.calculatePathGematria(examplePath);
-console.log(`Gematria of path [${examplePath.join(', ')}]: ${pathGematria}`);
-console.log("-----------------------------------------------------");
-
-// --- End Example Usage ---
\ No newline at end of file
+/**
+ * Builds the Hebrew alphabet network from alphabet data in the shape of data/hebrewAlphabetData.json.
+ * @param data The alphabet data; it is validated first.
+ * @param tradition The spelling tradition for the letters' names; letters it leaves out keep the data's spelling.
+ * @returns The network of the 22 letters. Final forms are found as their regular forms.
+ * @throws Error listing every problem with the data.
+ */
+export function loadHebrewAlphabetNetwork(data: unknown, tradition: SpellingTradition = findSpellingTradition(DEFAULT_SPELLING_TRADITION)!): HebrewAlphabetNetwork {
+  const entries = Object.values(validateHebrewAlphabetData(data));
+  const hebrewOf = new Map(entries.map(entry => [entry.transliteration_key, entry.hebrew]));
+
+  const network = new HebrewAlphabetNetwork(new Map(entries.map(entry => [entry.hebrew, entry.standard_gematria])));
+  entries.forEach(entry => network.addNode({
+    letter: entry.hebrew,
+    gematria: entry.standard_gematria,
+    phonetic: entry.transliteration_key,
+    spelling: [],
+    fullValue: 0,
+    connections: entry.network_connections.map(key => hebrewOf.get(key)!),
+    island: entry.island,
+    color: entry.color,
+  }));
+
+  const spellings = new Map<string, string[]>(entries.map(entry => {
+    const name = tradition.spellings[entry.hebrew];
+    return [entry.hebrew, name ? extractHebrewLetters(name, true) : entry.traditional_spelling.map(key => hebrewOf.get(key)!)];
+  }));
+  network.populateNetwork(spellings);
+  return network;
+}
+
+export const hebrewAlphabetNetwork = loadHebrewAlphabetNetwork(hebrewAlphabetData);
+
+const networksByTradition = new Map<string, HebrewAlphabetNetwork>([[DEFAULT_SPELLING_TRADITION, hebrewAlphabetNetwork]]);
+
+/**
+ * The alphabet network built from data/hebrewAlphabetData.json in a spelling tradition, built once and then reused.
+ * @param traditionId The id of one of the SPELLING_TRADITIONS.
+ * @throws Error if no tradition has the id.
+ */
+export function getHebrewAlphabetNetwork(traditionId: string = DEFAULT_SPELLING_TRADITION): HebrewAlphabetNetwork {
+  let network = networksByTradition.get(traditionId);
+  if (!network) {
+    const tradition = findSpellingTradition(traditionId);
+    if (!tradition) throw new Error(`Unknown spelling tradition "${traditionId}".`);
+    network = loadHebrewAlphabetNetwork(hebrewAlphabetData, tradition);
+    networksByTradition.set(traditionId, network);
+  }
+  return network;
+}
+
+/**
+ * Builds a network from a file written by serialize() or by an external graph tool, ready to analyze.
+ * @param text The file's text.
+ * @param format One of the NETWORK_FORMATS: 'graphml', 'dot' or 'jsonld'.
+ * @returns The network of the file's letters, each spelled by its outgoing edges.
+ * @throws Error listing every problem with the file.
+ */
+export function importHebrewAlphabetNetwork(text: string, format: NetworkFileFormat): HebrewAlphabetNetwork {
+  const letters = parseNetwork(text, format);
+  const network = new HebrewAlphabetNetwork(new Map(letters.map(node => [node.letter, node.gematria])));
+  letters.forEach(node => network.addNode(node));
+  return network;
+}
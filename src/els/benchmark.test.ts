@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { corpusList } from '../../corpora';
+import { decodeCorporaFromImage } from '../../steganography';
+import { benchmarkElsIndex, formatElsBenchmark } from './benchmark';
+
+/**
+ * src/els/benchmark.test.ts
+ *
+ * Times the indexed ELS engine against the naive scan on the first corpus. Slow,
+ * so it only runs under `npm run bench` (vitest's bench mode), never in `npm test`.
+ */
+
+// Roughly the length of the Tanakh; the decoded books are short excerpts, so they are repeated up to it.
+const STAND_IN_LETTERS = 1_200_000;
+
+describe.runIf(process.env.MODE === 'bench')('ELS index benchmark', () => {
+    it('beats the naive scan on a full-length text with the same hits', async () => {
+        const corpusName = corpusList[0];
+        const corpora = await decodeCorporaFromImage('');
+        const joined = Object.values(corpora[corpusName]).join(' ');
+        const letters = joined.replace(/[^\p{L}]/gu, '').length;
+        const standIn = Array(Math.ceil(STAND_IN_LETTERS / letters)).fill(joined).join(' ');
+
+        const [row] = await benchmarkElsIndex({ [`${corpusName} (full-length stand-in)`]: standIn }, { terms: ['תורה', 'יהוה'], maxSkip: 5 });
+        console.log(`ELS index benchmark (skips 1-5, both directions):\n${formatElsBenchmark([row])}`);
+
+        expect(row.letters).toBeGreaterThanOrEqual(STAND_IN_LETTERS);
+        expect(row.hits).toBeGreaterThan(0);
+        expect(row.indexedColdMs).toBeLessThan(row.naiveMs);
+        expect(row.naiveMs / row.indexedWarmMs).toBeGreaterThan(5);
+    }, 120_000);
+});
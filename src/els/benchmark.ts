@@ -0,0 +1,98 @@
+import { ElsDirection } from '../../types';
+import { cleanElsTerm, ElsIndexCache, prepareElsText, searchElsAtSkip } from './elsEngine';
+import { normalizeElsLetter } from './letters';
+
+/**
+ * src/els/benchmark.ts
+ *
+ * Measures the indexed ELS engine against the unindexed scan it replaced:
+ * rebuilding the cleaned text for every call and probing every start position.
+ */
+
+/** One benchmarked search: the same terms and skips, timed three ways. */
+export interface ElsBenchmarkRow {
+    label: string;
+    letters: number;
+    hits: number;
+    /** The unindexed scan, re-cleaning the text for every skip and direction. */
+    naiveMs: number;
+    /** The indexed search including building the index. */
+    indexedColdMs: number;
+    /** The indexed search with the index already cached. */
+    indexedWarmMs: number;
+}
+
+export interface ElsBenchmarkOptions {
+    terms: string[];
+    minSkip?: number;
+    maxSkip?: number;
+}
+
+const LETTER_PATTERN = /\p{L}/u;
+
+// The pre-index algorithm, kept here only as the benchmark baseline.
+const naiveSearchAtSkip = (text: string, term: string, skip: number, direction: ElsDirection): number => {
+    let cleaned = '';
+    const cleanedToOriginal: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        if (LETTER_PATTERN.test(text[i])) { cleaned += normalizeElsLetter(text[i]); cleanedToOriginal.push(i); }
+    }
+    const cleanedTerm = cleanElsTerm(term);
+    const step = direction === 'forward' ? skip : -skip;
+    let hits = 0;
+    for (let start = 0; start < cleaned.length; start++) {
+        const end = start + (cleanedTerm.length - 1) * step;
+        if (end < 0 || end >= cleaned.length || cleaned[start] !== cleanedTerm[0]) continue;
+        let matched = 1;
+        while (matched < cleanedTerm.length && cleaned[start + matched * step] === cleanedTerm[matched]) matched++;
+        if (matched === cleanedTerm.length) hits++;
+    }
+    return hits;
+};
+
+const time = (run: () => number): { ms: number, hits: number } => {
+    const started = performance.now();
+    const hits = run();
+    return { ms: performance.now() - started, hits };
+};
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Times the naive and indexed engines on each text over the same terms, skips and both directions.
+ * @param texts - Labelled texts to benchmark, e.g. the books of a corpus.
+ * @throws If the two engines disagree on a hit count.
+ */
+export const benchmarkElsIndex = async (texts: Record<string, string>, options: ElsBenchmarkOptions): Promise<ElsBenchmarkRow[]> => {
+    const minSkip = options.minSkip ?? 1;
+    const maxSkip = options.maxSkip ?? 100;
+    const directions: ElsDirection[] = ['forward', 'backward'];
+    const rows: ElsBenchmarkRow[] = [];
+
+    for (const [label, text] of Object.entries(texts)) {
+        const eachSearch = (search: (term: string, skip: number, direction: ElsDirection) => number) => () => {
+            let hits = 0;
+            for (let skip = minSkip; skip <= maxSkip; skip++) {
+                options.terms.forEach(term => directions.forEach(direction => { hits += search(term, skip, direction); }));
+            }
+            return hits;
+        };
+
+        const naive = time(eachSearch((term, skip, direction) => naiveSearchAtSkip(text, term, skip, direction)));
+        await yieldToEventLoop();
+        const cache = new ElsIndexCache(1);
+        const cold = time(eachSearch((term, skip, direction) => searchElsAtSkip(cache.get(text), term, skip, direction).length));
+        const warm = time(eachSearch((term, skip, direction) => searchElsAtSkip(cache.get(text), term, skip, direction).length));
+        if (naive.hits !== cold.hits || cold.hits !== warm.hits) {
+            throw new Error(`ELS benchmark mismatch on ${label}: naive ${naive.hits}, indexed ${cold.hits}/${warm.hits} hits.`);
+        }
+
+        rows.push({ label, letters: prepareElsText(text).cleaned.length, hits: warm.hits, naiveMs: naive.ms, indexedColdMs: cold.ms, indexedWarmMs: warm.ms });
+        await yieldToEventLoop();
+    }
+    return rows;
+};
+
+/** Formats benchmark rows as a plain-text report. */
+export const formatElsBenchmark = (rows: ElsBenchmarkRow[]): string =>
+    rows.map(row => `${row.label} (${row.letters.toLocaleString()} letters, ${row.hits} hits): naive ${row.naiveMs.toFixed(0)} ms, indexed ${row.indexedColdMs.toFixed(0)} ms cold / ${row.indexedWarmMs.toFixed(0)} ms warm (${(row.naiveMs / Math.max(row.indexedWarmMs, 0.01)).toFixed(1)}x)`).join('\n');
@@ -0,0 +1,381 @@
+import { DeepELSAnalysisResult, ElsAxis, ElsControlKind, ElsDirection, ElsHit, ElsJobProgress, ElsJobResult, ElsMonteCarloResult, ElsSearchRequest, ElsSignificantFinding, ELSResult } from '../../types';
+import { identifySignificantElsFindings } from './significance';
+import { checkForExternalEventCorrelations } from './externalEvents';
+import { countHitsBySkip, createControlText, createRandom, summarizeMonteCarlo } from './monteCarlo';
+import { compileElsPattern, ElsPattern, ElsPatternOptions, matchVariantAt } from './pattern';
+import { normalizeElsLetter } from './letters';
+import { buildMatrixGrid, compareMatrixCandidates, findBestMatrixPlacement, MatrixCandidate } from './matrix';
+
+/**
+ * src/els/elsEngine.ts
+ *
+ * The framework-free ELS search engine. Everything here is pure so that the
+ * same code backs the ELS Web Worker and the in-thread fallback used when
+ * workers are unavailable; both run the jobs of `ElsSearchService`.
+ */
+
+/** A text prepared (indexed) once for repeated ELS scans. */
+export interface PreparedElsText {
+    original: string;
+    cleaned: string;
+    /** `cleanedToOriginal[i]` is the index in `original` of cleaned letter `i`. */
+    cleanedToOriginal: number[];
+    /** Ascending cleaned positions of every letter, so a scan only probes where a term can start. */
+    letterPositions: Map<string, number[]>;
+}
+
+/** Receives the incremental output of a running ELS job. */
+export interface ElsJobSink {
+    onHits: (hits: ElsHit[]) => void;
+    onProgress: (progress: ElsJobProgress) => void;
+    onMonteCarlo: (result: ElsMonteCarloResult) => void;
+    onMatrix: (result: DeepELSAnalysisResult) => void;
+    onFindings: (findings: ElsSignificantFinding[]) => void;
+}
+
+// Roughly how many letter comparisons a single chunk may perform before the
+// job yields back to the event loop (to report progress and accept a cancel).
+const CHUNK_COMPARISON_BUDGET = 2_000_000;
+
+/** The default cap on hits for interactive searches; results beyond it are better narrowed than paged. */
+export const DEFAULT_ELS_RESULT_LIMIT = 500;
+
+const LETTER_PATTERN = /\p{L}/u;
+
+/** Strips everything but letters from a search term and normalizes them as `normalizeElsLetter` does. */
+export const cleanElsTerm = (term: string): string => Array.from(term.replace(/[^\p{L}]/gu, '')).map(normalizeElsLetter).join('');
+
+/** Builds the per-letter position table of a cleaned letter stream. */
+export const indexLetterPositions = (cleaned: string): Map<string, number[]> => {
+    const letterPositions = new Map<string, number[]>();
+    for (let i = 0; i < cleaned.length; i++) {
+        const positions = letterPositions.get(cleaned[i]);
+        if (positions) positions.push(i); else letterPositions.set(cleaned[i], [i]);
+    }
+    return letterPositions;
+};
+
+/** Builds the cleaned letter stream, the cleaned-to-original index map and the letter position table for a text. */
+export const prepareElsText = (text: string): PreparedElsText => {
+    const letters: string[] = [];
+    const cleanedToOriginal: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        if (LETTER_PATTERN.test(text[i])) {
+            letters.push(normalizeElsLetter(text[i]));
+            cleanedToOriginal.push(i);
+        }
+    }
+    const cleaned = letters.join('');
+    return { original: text, cleaned, cleanedToOriginal, letterPositions: indexLetterPositions(cleaned) };
+};
+
+/**
+ * A small least-recently-used cache of prepared texts, so that repeated searches
+ * of the same book reuse its index. Entries are keyed by an explicit key (such as
+ * "corpus/book") or by the text itself.
+ */
+export class ElsIndexCache {
+    private entries = new Map<string, PreparedElsText>();
+
+    constructor(private readonly capacity: number) {}
+
+    public get(text: string, key: string = text): PreparedElsText {
+        const cached = this.entries.get(key);
+        if (cached && cached.original === text) {
+            // Re-insert to mark the entry as most recently used.
+            this.entries.delete(key);
+            this.entries.set(key, cached);
+            return cached;
+        }
+        const prepared = prepareElsText(text);
+        this.entries.delete(key);
+        this.entries.set(key, prepared);
+        if (this.entries.size > this.capacity) this.entries.delete(this.entries.keys().next().value!);
+        return prepared;
+    }
+
+    public clear() {
+        this.entries.clear();
+    }
+}
+
+// Index of the first position in an ascending list that is >= value.
+const lowerBound = (positions: number[], value: number): number => {
+    let lo = 0;
+    let hi = positions.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (positions[mid] < value) lo = mid + 1; else hi = mid;
+    }
+    return lo;
+};
+
+/** The largest skip a request will scan: its own `maxSkip`, or half the cleaned text. */
+export const resolveMaxSkip = (request: ElsSearchRequest, prepared: PreparedElsText): number =>
+    request.maxSkip ?? Math.floor(prepared.cleaned.length / 2);
+
+/** The axes a request reads along, and the cylinder width used by its grid axes. */
+export const resolveAxes = (request: ElsSearchRequest, prepared: PreparedElsText): { axes: ElsAxis[], cylinderWidth: number } => ({
+    axes: request.axes && request.axes.length > 0 ? request.axes : ['linear'],
+    cylinderWidth: Math.max(1, request.cylinderWidth ?? Math.ceil(Math.sqrt(prepared.cleaned.length))),
+});
+
+/** The letter distance of a skip along an axis; for grid axes `skip` counts rows. */
+export const linearSkipFor = (skip: number, axis: ElsAxis, cylinderWidth: number): number => {
+    switch (axis) {
+        case 'vertical': return skip * cylinderWidth;
+        case 'diagonal': return skip * (cylinderWidth + 1);
+        case 'antiDiagonal': return skip * (cylinderWidth - 1);
+        default: return skip;
+    }
+};
+
+// Compiled patterns, memoized since every skip of a job searches the same terms.
+const compiledPatterns = new Map<string, ElsPattern>();
+const MAX_COMPILED_PATTERNS = 256;
+
+/** Compiles an ELS term (see `./pattern`), reusing an earlier compilation of the same term. */
+export const getElsPattern = (term: string, options: ElsPatternOptions = {}): ElsPattern => {
+    const key = `${options.matchFinalForms ? 1 : 0}${term}`;
+    let pattern = compiledPatterns.get(key);
+    if (!pattern) {
+        if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) compiledPatterns.clear();
+        pattern = compileElsPattern(term, options);
+        compiledPatterns.set(key, pattern);
+    }
+    return pattern;
+};
+
+/**
+ * Finds every occurrence of `term` at exactly `skip` letters in one direction.
+ * `term` may use the pattern language of `./pattern`; each hit records the letters it matched.
+ * @returns Linear hits with both cleaned and original-text indices.
+ * @throws If `term` is not a valid pattern.
+ */
+export const searchElsAtSkip = (prepared: PreparedElsText, term: string, skip: number, direction: ElsDirection, options: ElsPatternOptions = {}): ElsHit[] => {
+    const hits: ElsHit[] = [];
+    const { cleaned, cleanedToOriginal, letterPositions } = prepared;
+    if (!Number.isInteger(skip) || skip < 1) return hits;
+
+    const step = direction === 'forward' ? skip : -skip;
+    const pushHit = (start: number, length: number) => {
+        const cleanedIndices = Array.from({ length }, (_, i) => start + i * step);
+        hits.push({ term, matched: cleanedIndices.map(i => cleaned[i]).join(''), skip, direction, axis: 'linear', cleanedIndices, indices: cleanedIndices.map(i => cleanedToOriginal[i]) });
+    };
+
+    for (const variant of getElsPattern(term, options).variants) {
+        const span = (variant.length - 1) * skip;
+        // Only starts whose last letter stays inside the text.
+        const firstStart = direction === 'forward' ? 0 : span;
+        const lastStart = direction === 'forward' ? cleaned.length - 1 - span : cleaned.length - 1;
+
+        if (variant[0] === null) {
+            for (let start = firstStart; start <= lastStart; start++) if (matchVariantAt(cleaned, variant, start, step)) pushHit(start, variant.length);
+            continue;
+        }
+        // Only positions of the variant's first letter(s) can start a match.
+        for (const letter of variant[0]) {
+            const starts = letterPositions.get(letter) || [];
+            for (let p = lowerBound(starts, firstStart); p < starts.length && starts[p] <= lastStart; p++) {
+                if (matchVariantAt(cleaned, variant, starts[p], step)) pushHit(starts[p], variant.length);
+            }
+        }
+    }
+    return hits;
+};
+
+/** Finds every occurrence of `term` at `skip` along each of the request's axes, in one direction. */
+export const searchElsOnAxes = (prepared: PreparedElsText, request: ElsSearchRequest, term: string, skip: number, direction: ElsDirection): ElsHit[] => {
+    const { axes, cylinderWidth } = resolveAxes(request, prepared);
+    return axes.flatMap(axis => {
+        const hits = searchElsAtSkip(prepared, term, linearSkipFor(skip, axis, cylinderWidth), direction, { matchFinalForms: request.matchFinalForms });
+        return axis === 'linear' ? hits : hits.map(hit => ({ ...hit, axis, cylinderWidth }));
+    });
+};
+
+/**
+ * Scans an inclusive skip range for every term, direction and axis of a request.
+ * Stops early once `limit` hits have been collected.
+ */
+export const searchElsSkipRange = (prepared: PreparedElsText, request: ElsSearchRequest, fromSkip: number, toSkip: number, limit = Infinity): ElsHit[] => {
+    const hits: ElsHit[] = [];
+    for (let skip = fromSkip; skip <= toSkip; skip++) {
+        for (const term of request.terms) {
+            for (const direction of request.directions) {
+                for (const hit of searchElsOnAxes(prepared, request, term, skip, direction)) {
+                    hits.push(hit);
+                    if (hits.length >= limit) return hits;
+                }
+            }
+        }
+    }
+    return hits;
+};
+
+/** Runs a whole request synchronously. Prefer `ElsSearchService` for anything user-facing. */
+export const searchEls = (request: ElsSearchRequest, prepared: PreparedElsText = prepareElsText(request.text)): ElsHit[] =>
+    searchElsSkipRange(prepared, request, Math.max(1, request.minSkip), resolveMaxSkip(request, prepared), request.maxResults ?? Infinity);
+
+/** Groups hits by skip, the shape expected by the significance pass. */
+export const groupHitsBySkip = (hits: ElsHit[]): { skip: number, indices: number[][] }[] => {
+    const bySkip = new Map<number, number[][]>();
+    hits.forEach(hit => bySkip.set(hit.skip, [...(bySkip.get(hit.skip) || []), hit.indices]));
+    return Array.from(bySkip.entries()).sort(([a], [b]) => a - b).map(([skip, indices]) => ({ skip, indices }));
+};
+
+const AXIS_LABELS: Record<ElsAxis, [string, string]> = {
+    linear: ['Forward', 'Backward'],
+    vertical: ['Vertical Down', 'Vertical Up'],
+    diagonal: ['Diagonal Down', 'Diagonal Up'],
+    antiDiagonal: ['Anti-diagonal Down', 'Anti-diagonal Up'],
+};
+
+/** A human-readable direction for a hit, e.g. "Backward" or "Vertical Up". */
+export const describeElsDirection = (hit: Pick<ElsHit, 'axis' | 'direction'>): string =>
+    AXIS_LABELS[hit.axis][hit.direction === 'forward' ? 0 : 1];
+
+/**
+ * Converts a raw hit into the `ELSResult` shape rendered by the UI.
+ * @param width - The cylinder width `path` is laid out on. Defaults to the hit's
+ * own cylinder for grid axes, and otherwise to its skip so the sequence reads as a column.
+ */
+export const hitToElsResult = (hit: ElsHit, width: number = hit.cylinderWidth ?? hit.skip): ELSResult => {
+    const gridWidth = Math.max(1, width);
+    const exact = hit.matched === cleanElsTerm(hit.term);
+    return {
+        word: exact ? hit.term : hit.matched,
+        direction: describeElsDirection(hit),
+        skip: hit.skip,
+        verses: exact ? `Found starting at index ${hit.cleanedIndices[0]}` : `Matched "${hit.term}", starting at index ${hit.cleanedIndices[0]}`,
+        startIndex: hit.indices[0],
+        path: hit.cleanedIndices.map(index => ({ row: Math.floor(index / gridWidth), col: index % gridWidth })),
+    };
+};
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Skips per chunk of a scan, so that each chunk makes about CHUNK_COMPARISON_BUDGET comparisons.
+const skipsPerChunkFor = (request: ElsSearchRequest, prepared: PreparedElsText): number => {
+    const workPerSkip = Math.max(1, prepared.cleaned.length * request.terms.length * request.directions.length * resolveAxes(request, prepared).axes.length);
+    return Math.max(1, Math.floor(CHUNK_COMPARISON_BUDGET / workPerSkip));
+};
+
+/**
+ * Counts a request's hits in the text and then in shuffled control texts, each
+ * scan in the same skip-range chunks as `runElsJob`, reporting progress after
+ * every chunk and yielding between them so that `isCancelled` can take effect.
+ * @returns The test result, or null if the job was cancelled.
+ */
+const runMonteCarlo = async (request: ElsSearchRequest, prepared: PreparedElsText, sink: ElsJobSink, isCancelled: () => boolean): Promise<ElsMonteCarloResult | null> => {
+    const { trials, controls: kinds } = request.monteCarlo!;
+    const seed = request.monteCarlo!.seed ?? Math.floor(Math.random() * 2 ** 32);
+    const random = createRandom(seed);
+    const minSkip = Math.max(1, request.minSkip);
+    const maxSkip = resolveMaxSkip(request, prepared);
+    const skipsPerChunk = skipsPerChunkFor(request, prepared);
+    const totalRuns = trials * kinds.length;
+    // The observed scan and one scan per control text.
+    const totalChunks = Math.max(1, Math.ceil((maxSkip - minSkip + 1) / skipsPerChunk)) * (1 + totalRuns);
+    let chunksDone = 0;
+    let observedTotal = 0;
+
+    // Counted without `maxResults`, which would otherwise cap the observed side. Grid hits are keyed by letter skip, so chunks can share a key.
+    const countInChunks = async (text: PreparedElsText): Promise<Map<number, number> | null> => {
+        const counts = new Map<number, number>();
+        for (let fromSkip = minSkip; fromSkip <= maxSkip; fromSkip += skipsPerChunk) {
+            await yieldToEventLoop();
+            if (isCancelled()) return null;
+            const toSkip = Math.min(maxSkip, fromSkip + skipsPerChunk - 1);
+            countHitsBySkip(text, request, fromSkip, toSkip).forEach((count, skip) => counts.set(skip, (counts.get(skip) || 0) + count));
+            sink.onProgress({ phase: 'monteCarlo', percent: Math.round((++chunksDone / totalChunks) * 100), skipRange: [fromSkip, toSkip], hitsSoFar: observedTotal });
+        }
+        return counts;
+    };
+
+    const observed = await countInChunks(prepared);
+    if (!observed) return null;
+    observedTotal = Array.from(observed.values()).reduce((a, b) => a + b, 0);
+    const controls: Partial<Record<ElsControlKind, Map<number, number>[]>> = Object.fromEntries(kinds.map(kind => [kind, []]));
+    for (let run = 0; run < totalRuns; run++) {
+        const kind = kinds[run % kinds.length];
+        const counts = await countInChunks(createControlText(prepared, kind, random));
+        if (!counts) return null;
+        controls[kind]!.push(counts);
+    }
+    return summarizeMonteCarlo(observed, controls, trials, seed);
+};
+
+/**
+ * Places the request's related terms around each hit of its first term and
+ * lays the most compact placement out as a grid, yielding between hits.
+ * @returns The grid, or undefined if no primary hit was found.
+ */
+const runMatrixSearch = async (request: ElsSearchRequest, prepared: PreparedElsText, hits: ElsHit[], isCancelled: () => boolean): Promise<DeepELSAnalysisResult | undefined> => {
+    let best: MatrixCandidate | null = null;
+    for (const primary of hits.filter(hit => hit.term === request.terms[0])) {
+        await yieldToEventLoop();
+        if (isCancelled()) return undefined;
+        const candidate = findBestMatrixPlacement(prepared, primary, request.matrix!, { matchFinalForms: request.matchFinalForms });
+        if (!best || compareMatrixCandidates(candidate, best) < 0) best = candidate;
+    }
+    return best ? buildMatrixGrid(prepared, best) : undefined;
+};
+
+/**
+ * Runs an ELS job in skip-range chunks, streaming hits and progress to `sink`
+ * and yielding between chunks so that `isCancelled` can take effect.
+ * @param prepared - A cached index of `request.text`, if one is at hand.
+ * @returns The settled job outcome.
+ */
+export const runElsJob = async (request: ElsSearchRequest, sink: ElsJobSink, isCancelled: () => boolean, prepared: PreparedElsText = prepareElsText(request.text)): Promise<ElsJobResult> => {
+    const minSkip = Math.max(1, request.minSkip);
+    const maxSkip = resolveMaxSkip(request, prepared);
+    const limit = request.maxResults ?? Infinity;
+    const totalSkips = Math.max(0, maxSkip - minSkip + 1);
+    const skipsPerChunk = skipsPerChunkFor(request, prepared);
+
+    const hits: ElsHit[] = [];
+    for (let fromSkip = minSkip; fromSkip <= maxSkip && hits.length < limit; fromSkip += skipsPerChunk) {
+        if (isCancelled()) return { hits, findings: [], cancelled: true };
+        const toSkip = Math.min(maxSkip, fromSkip + skipsPerChunk - 1);
+        const chunkHits = searchElsSkipRange(prepared, request, fromSkip, toSkip, limit - hits.length);
+        if (chunkHits.length > 0) {
+            hits.push(...chunkHits);
+            sink.onHits(chunkHits);
+        }
+        sink.onProgress({ phase: 'search', percent: Math.round(((toSkip - minSkip + 1) / totalSkips) * 100), skipRange: [fromSkip, toSkip], hitsSoFar: hits.length });
+        await yieldToEventLoop();
+    }
+
+    if (isCancelled()) return { hits, findings: [], cancelled: true };
+
+    let monteCarlo: ElsMonteCarloResult | undefined;
+    if (request.monteCarlo && request.monteCarlo.trials > 0 && request.monteCarlo.controls.length > 0) {
+        monteCarlo = await runMonteCarlo(request, prepared, sink, isCancelled) ?? undefined;
+        if (!monteCarlo) return { hits, findings: [], cancelled: true };
+        sink.onMonteCarlo(monteCarlo);
+    }
+
+    let matrix: DeepELSAnalysisResult | undefined;
+    if (request.matrix && request.matrix.relatedTerms.length > 0) {
+        matrix = await runMatrixSearch(request, prepared, hits, isCancelled);
+        if (isCancelled()) return { hits, findings: [], monteCarlo, cancelled: true };
+        if (matrix) sink.onMatrix(matrix);
+    }
+
+    let findings: ElsSignificantFinding[] = [];
+    if (request.significance || request.externalEvents) {
+        // Without the significance pass, every term and skip with hits is correlated.
+        findings = request.terms.flatMap(term => {
+            const groups = groupHitsBySkip(hits.filter(hit => hit.term === term));
+            return request.significance ? identifySignificantElsFindings(groups, term, request.text) : groups.map(group => ({ ...group, significance: [] }));
+        });
+        if (request.externalEvents && request.externalEvents.events.length > 0 && findings.length > 0) {
+            await yieldToEventLoop();
+            if (isCancelled()) return { hits, findings: [], monteCarlo, matrix, cancelled: true };
+            findings = checkForExternalEventCorrelations(findings, prepared, request.externalEvents);
+        }
+        sink.onFindings(findings);
+    }
+    return { hits, findings, monteCarlo, matrix, cancelled: false };
+};
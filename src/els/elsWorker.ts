@@ -0,0 +1,46 @@
+import { ElsWorkerRequest, ElsWorkerResponse } from '../../types';
+import { ElsIndexCache, runElsJob } from './elsEngine';
+
+/**
+ * src/els/elsWorker.ts
+ *
+ * Web Worker entry point for the ELS engine. Jobs are started and cancelled by
+ * `ElsSearchService`; hits, progress, Monte Carlo results and matrix grids are
+ * streamed back as they become available, followed by the findings of the
+ * significance and external-event passes.
+ */
+
+const ctx = self as unknown as Worker;
+// Only running jobs can be cancelled; a cancel for any other job is ignored.
+const activeJobs = new Set<string>();
+const cancelledJobs = new Set<string>();
+// Books searched repeatedly are indexed once per worker.
+const indexCache = new ElsIndexCache(8);
+
+const post = (message: ElsWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = async (event: MessageEvent<ElsWorkerRequest>) => {
+    const message = event.data;
+    if (message.type === 'cancel') {
+        if (activeJobs.has(message.jobId)) cancelledJobs.add(message.jobId);
+        return;
+    }
+
+    const { jobId, request } = message;
+    activeJobs.add(jobId);
+    try {
+        const { cancelled } = await runElsJob(request, {
+            onHits: hits => post({ type: 'hits', jobId, hits }),
+            onProgress: progress => post({ type: 'progress', jobId, progress }),
+            onMonteCarlo: result => post({ type: 'monteCarlo', jobId, result }),
+            onMatrix: result => post({ type: 'matrix', jobId, result }),
+            onFindings: findings => post({ type: 'findings', jobId, findings }),
+        }, () => cancelledJobs.has(jobId), indexCache.get(request.text, request.textKey));
+        post({ type: 'done', jobId, cancelled });
+    } catch (e) {
+        post({ type: 'error', jobId, message: e instanceof Error ? e.message : 'ELS job failed.' });
+    } finally {
+        activeJobs.delete(jobId);
+        cancelledJobs.delete(jobId);
+    }
+};
@@ -0,0 +1,190 @@
+import { ElsExternalEventOptions, ElsSignificantFinding, ExternalEvent, ExternalEventCorrelation, ExternalEventCorrelationKind, ExternalEventThresholds } from '../../types';
+import { hebrewAlphabetNetwork } from '../dataModels';
+import { PreparedElsText, searchElsAtSkip } from './elsEngine';
+import { compileElsPattern } from './pattern';
+import { transliterateToHebrew } from '../corpus/transliteration';
+
+/**
+ * src/els/externalEvents.ts
+ *
+ * The Time-Independent ELS Search Module: checks whether significant findings
+ * sit close to ELS encodings of names, dates, keywords and locations of external
+ * events. A date is searched as its Hebrew year in letters, the way years are
+ * written in Hebrew (תשמו for 1986-01-28, which falls in 5746). The events
+ * themselves are managed by `ExternalEventRegistry`.
+ */
+
+/** The events a new registry starts with. */
+export const DEFAULT_EXTERNAL_EVENTS: ExternalEvent[] = [
+    { id: 'challenger-disaster-1986-01-28', name: 'Challenger Disaster', date: '1986-01-28', keywords: ['צ\'לנג\'ר', 'אסון'], location: 'Cape Canaveral' }, // Challenger, Disaster
+    { id: 'apollo-11-1969-07-20', name: 'Apollo 11', date: '1969-07-20', keywords: ['אפולו', 'ירח', 'נחיתה'], location: 'Sea of Tranquility' }, // Apollo, Moon, Landing
+    { id: 'world-trade-center-2001-09-11', name: 'World Trade Center', date: '2001-09-11', keywords: ['מגדלי', 'תאומים', 'ספטמבר'], location: 'New York' }, // Towers, Twins, September
+    { id: 'covid-19-pandemic-2020-03-11', name: 'COVID-19 Pandemic', date: '2020-03-11', keywords: ['מגפה', 'קורונה', 'וירוס'], location: 'Wuhan' }, // Pandemic, Corona, Virus (WHO declared pandemic date)
+];
+
+export const DEFAULT_EXTERNAL_EVENT_THRESHOLDS: ExternalEventThresholds = { maxSkip: 500, proximity: 50 };
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const HEBREW_LETTER_PATTERN = /[א-ת]/;
+
+/** A stable id for an event, derived from its name and date. */
+export const createExternalEventId = (name: string, date: string): string =>
+    `${name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '')}-${date}`;
+
+/**
+ * Checks an untrusted value (e.g. from an imported JSON file) and returns it as an event.
+ * A missing id is derived from the name and date.
+ * @throws If a field is missing or malformed (including a keyword that is not a valid ELS pattern).
+ */
+export const validateExternalEvent = (value: unknown): ExternalEvent => {
+    if (!value || typeof value !== 'object') throw new Error('Each event must be an object.');
+    const { id, name, date, keywords, location } = value as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim()) throw new Error('Each event needs a name.');
+    const match = typeof date === 'string' ? date.match(DATE_PATTERN) : null;
+    const [year, month, day] = match ? match.slice(1).map(Number) : [];
+    if (!match || month < 1 || month > 12 || day < 1 || day > 31 || year < 1) throw new Error(`Event "${name}" needs a date in YYYY-MM-DD form.`);
+    if (!Array.isArray(keywords) || keywords.some(keyword => typeof keyword !== 'string')) throw new Error(`Event "${name}" needs a list of keywords.`);
+    if (keywords.some(keyword => !HEBREW_LETTER_PATTERN.test(keyword))) throw new Error(`Every keyword of event "${name}" must be written in Hebrew letters.`);
+    // Keywords are ELS terms, so a malformed pattern would otherwise only fail mid-search.
+    (keywords as string[]).forEach(keyword => compileElsPattern(keyword));
+    if (location !== undefined && typeof location !== 'string') throw new Error(`The location of event "${name}" must be text.`);
+    if (id !== undefined && (typeof id !== 'string' || !id)) throw new Error(`The id of event "${name}" must be text.`);
+
+    return {
+        id: (id as string | undefined) ?? createExternalEventId(name.trim(), date as string),
+        name: name.trim(),
+        date: date as string,
+        keywords: (keywords as string[]).map(keyword => keyword.trim()),
+        ...(typeof location === 'string' && location.trim() ? { location: location.trim() } : {}),
+    };
+};
+
+/** True if two index sequences share a letter or have endpoints within `threshold` of each other. */
+export const checkOverlapOrProximity = (indices1: number[], indices2: number[], threshold: number): boolean => {
+    if (indices1.length === 0 || indices2.length === 0) return false;
+    const sorted1 = [...indices1].sort((a, b) => a - b);
+    const sorted2 = [...indices2].sort((a, b) => a - b);
+    if (sorted1.some(index => sorted2.includes(index))) return true;
+
+    const ends1 = [sorted1[0], sorted1[sorted1.length - 1]];
+    const ends2 = [sorted2[0], sorted2[sorted2.length - 1]];
+    return ends1.some(a => ends2.some(b => Math.abs(a - b) <= threshold));
+};
+
+const compactDate = (date: string): string => {
+    const [year, month, day] = date.split('-').map(Number);
+    return `${year}${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}`;
+};
+
+const HEBREW_LETTERS = 'אבגדהוזחטיכלמנסעפצקרשת';
+
+// A number from 1 to 999 in letters, hundreds first; hundreds past 400 are built on ת (500 is תק), and 15 and 16 are written טו and טז.
+const hebrewNumeral = (value: number): string => {
+    const hundreds = Math.floor(value / 100);
+    const hundredLetters = 'ת'.repeat(Math.floor(hundreds / 4)) + (hundreds % 4 ? HEBREW_LETTERS[17 + hundreds % 4] : '');
+    const rest = value % 100;
+    if (rest === 15 || rest === 16) return `${hundredLetters}ט${HEBREW_LETTERS[rest - 10]}`;
+    const [tens, units] = [Math.floor(rest / 10), rest % 10];
+    return hundredLetters + (tens ? HEBREW_LETTERS[8 + tens] : '') + (units ? HEBREW_LETTERS[units - 1] : '');
+};
+
+// The Hebrew year a date falls in, without its thousands; empty for a year that is a whole thousand.
+const hebrewYearTerm = (date: string): string => {
+    const parts = new Intl.DateTimeFormat('en-u-ca-hebrew', { year: 'numeric', timeZone: 'UTC' }).formatToParts(new Date(`${date}T00:00:00Z`));
+    const year = Number(parts.find(part => part.type === 'year')?.value) % 1000;
+    return year > 0 ? hebrewNumeral(year) : '';
+};
+
+const searchBothDirections = (prepared: PreparedElsText, term: string, skip: number): number[][] =>
+    [...searchElsAtSkip(prepared, term, skip, 'forward'), ...searchElsAtSkip(prepared, term, skip, 'backward')].map(hit => hit.indices);
+
+/** The most Hebrew spellings of an English name or place searched, and the least confidence a spelling needs. */
+const MAX_SPELLINGS = 3;
+const MIN_SPELLING_CONFIDENCE = 0.15;
+
+/** Hebrew text as given; anything else (a name or place in English) as its likely Hebrew spellings. */
+const toHebrewTerms = (text: string): string[] => HEBREW_LETTER_PATTERN.test(text)
+    ? [text]
+    : transliterateToHebrew(text, MAX_SPELLINGS).filter((candidate, i) => i === 0 || candidate.confidence >= MIN_SPELLING_CONFIDENCE).map(candidate => candidate.hebrew.replace(/ /g, ''));
+
+/** Every ELS term of an event, by the kind of correlation it would produce. */
+const eventTerms = (event: ExternalEvent): { kind: Exclude<ExternalEventCorrelationKind, 'convergence' | 'gematria'>, term: string }[] => [
+    ...toHebrewTerms(event.name).map(term => ({ kind: 'name' as const, term })),
+    { kind: 'date' as const, term: hebrewYearTerm(event.date) },
+    ...event.keywords.map(keyword => ({ kind: 'keyword' as const, term: keyword })),
+    ...(event.location ? toHebrewTerms(event.location).map(term => ({ kind: 'location' as const, term })) : []),
+].filter(({ term }) => term.length > 0);
+
+const hasConvergence = (prepared: PreparedElsText, event: ExternalEvent, thresholds: ExternalEventThresholds): boolean => {
+    const sequences: { kind: string, indices: number[] }[] = [];
+    const terms = eventTerms(event);
+    for (let skip = 1; skip <= thresholds.maxSkip; skip++) {
+        terms.forEach(({ kind, term }) => searchBothDirections(prepared, term, skip).forEach(indices => sequences.push({ kind, indices })));
+    }
+
+    // Convergence requires two findings of different kinds in proximity.
+    return sequences.some((a, i) => sequences.slice(i + 1).some(b => a.kind !== b.kind && checkOverlapOrProximity(a.indices, b.indices, thresholds.proximity)));
+};
+
+const KIND_LABELS: Record<Exclude<ExternalEventCorrelationKind, 'convergence' | 'gematria'>, string> = {
+    name: 'Name', date: 'Date', keyword: 'Keyword', location: 'Location',
+};
+
+const DATE_PART_LABELS: Record<NonNullable<ExternalEventCorrelation['datePart']>, string> = {
+    year: 'Year', month: 'Month', day: 'Day', fullDate: 'Full Date',
+};
+
+/**
+ * Correlates significant findings with external events.
+ * @param significantFindings - Findings whose indices refer to `prepared.original`.
+ * @param options - The events to check, and thresholds overriding `DEFAULT_EXTERNAL_EVENT_THRESHOLDS`.
+ * @returns A copy of the findings with their `correlations` set and a matching reason appended to `significance` for each.
+ */
+export const checkForExternalEventCorrelations = (significantFindings: ElsSignificantFinding[], prepared: PreparedElsText, options: ElsExternalEventOptions): ElsSignificantFinding[] => {
+    const text = prepared.original;
+    const thresholds: ExternalEventThresholds = {
+        maxSkip: options.maxSkip ?? DEFAULT_EXTERNAL_EVENT_THRESHOLDS.maxSkip,
+        proximity: options.proximity ?? DEFAULT_EXTERNAL_EVENT_THRESHOLDS.proximity,
+    };
+    const convergentEventIds = new Set(options.events.filter(event => hasConvergence(prepared, event, thresholds)).map(event => event.id));
+
+    const correlates = (finding: ElsSignificantFinding, term: string) =>
+        searchBothDirections(prepared, term, finding.skip).some(other => finding.indices.some(own => checkOverlapOrProximity(own, other, thresholds.proximity)));
+
+    return significantFindings.map(finding => {
+        const updated: ElsSignificantFinding = { ...finding, significance: [...finding.significance], correlations: [...(finding.correlations || [])] };
+        const add = (correlation: ExternalEventCorrelation) => {
+            if (updated.significance.includes(correlation.reason)) return;
+            updated.significance.push(correlation.reason);
+            updated.correlations!.push(correlation);
+        };
+
+        options.events.forEach(event => {
+            const base = { eventId: event.id, eventName: event.name };
+            const terms = eventTerms(event);
+
+            if (convergentEventIds.has(event.id)) {
+                const correlated = terms.find(({ term }) => correlates(finding, term));
+                if (correlated) add({ ...base, kind: 'convergence', term: correlated.term, reason: `Correlates with convergence for external event: ${event.name}` });
+                return;
+            }
+
+            terms.forEach(({ kind, term }) => {
+                if (!correlates(finding, term)) return;
+                const detail = kind === 'keyword' || kind === 'location' ? ` (${kind}: ${term})` : '';
+                add({ ...base, kind, term, reason: `${KIND_LABELS[kind]} correlation with external event: ${event.name}${detail}` });
+            });
+
+            const [year, month, day] = event.date.split('-').map(Number);
+            const dateParts: [NonNullable<ExternalEventCorrelation['datePart']>, number][] = [['year', year], ['month', month], ['day', day], ['fullDate', parseInt(compactDate(event.date), 10)]];
+            const findingGematria = hebrewAlphabetNetwork.calculatePathGematria(finding.indices[0].map(index => text[index] || '').filter(char => /[א-ת]/.test(char)));
+            if (findingGematria > 0) {
+                dateParts.filter(([, value]) => findingGematria === value).forEach(([datePart]) => add({
+                    ...base, kind: 'gematria', term: String(findingGematria), datePart,
+                    reason: `Numerical correlation with external event: ${event.name} (Gematria matches ${DATE_PART_LABELS[datePart]})`,
+                }));
+            }
+        });
+        return updated;
+    });
+};
@@ -0,0 +1,95 @@
+/**
+ * src/els/hebrewLexicon.ts
+ *
+ * Static Hebrew word lists used by the ELS significance pass to decide whether
+ * a sequence (or a sequence plus its neighbouring letters) forms a meaningful word.
+ */
+
+/** Common Hebrew consonant roots. */
+export const commonHebrewRoots = [
+    'קדש', 'שלם', 'ברא', 'אלה', 'שמים', 'ארץ', 'חי', 'אמת', 'כליל', 'ספר', 'עולם', 'נפש', 'רוח', 'גוף', 'דעת'
+];
+
+/** Common prefixes and suffixes (without vowels). */
+export const commonHebrewPrefixes = ['ב', 'כ', 'ל', 'מ', 'ש', 'ה', 'ו'];
+export const commonHebrewSuffixes = ['ים', 'ות', 'ה'];
+
+export const commonHebrewPhrases = [
+    "בראשית ברא אלהים", "יהוה אלהים", "ארץ ושמים", "והארץ היתה תהו ובהו", "ורוח אלהים מרחפת על פני המים", "יהי אור ויהי אור", "אלהים ראה את האור כי טוב", "ויבדל אלהים בין האור ובין החשך"
+];
+
+/**
+ * Common and relevant Hebrew words: biblical concepts, gematria, kabbalah, etc.
+ * Words are in base form for comparison.
+ */
+export const commonHebrewWords = [
+    "אב", "אבא", "אבה", "אבן", "אדם", "אדמה", "אדני", "אהב", "אהבה", "אוהב", "אור", "אות", "אזן", "אח", "אחר", "אחות", "איש", "אלה", "אלהים", "אלף", "אם", "אמן", "אמר", "אמת",
+    "אנכי", "אני", "אף", "אפר", "ארבע", "ארון", "ארץ", "אש", "אשר", "את", "אתה", "אתם", "בגד", "בהמה", "בוקר", "בורא", "בית", "בכור", "בל", "בן", "בנה", "בני", "בקר", "ברא", "ברכה",
+    "ברית", "בשר", "בת", "גב", "גדול", "גוז", "גוי", "גוף", "גור", "גזע", "גיל", "גל", "גלגל", "גם", "גן", "גנב", "געש", "גפן", "גר", "דרך", "דבר", "דבש", "דוד", "דור", "דם", "דמע",
+    "דעת", "דק", "דקל", "דשן", "הוא", "היה", "הלך", "הלל", "הנה", "הר", "ורד", "זה", "זכר", "זמן", "זרע", "חוה", "חזה", "חטא", "חטא", "חי", "חיה", "חכם", "חכמה", "חלום", "חלב",
+    "חם", "חמס", "חסד", "חסר", "חרב", "חרי", "חרם", "חשב", "חשך", "חתן", "טוב", "טובע", "טהר", "טהרה", "טמא", "טמאה", "טעם", "טרם", "ים", "ידע", "יד", "יהודה", "יהוה", "יום",
+    "יוצר", "יחד", "יחיד", "ילד", "ילד", "ימין", "יסוד", "יעד", "יפה", "יצא", "יצר", "יצחק", "יקיר", "ירא", "ירא", "ירד", "ישב", "ישועה", "ישראל", "יתר", "כבד", "כבוד", "כהן",
+    "כול", "כוכב", "כי", "כלי", "כם", "כמו", "כסף", "כסא", "כעס", "כפר", "כתב", "כתר", "לב", "לבד", "לבוש", "לחם", "למד", "למשל", "למטה", "למערב", "למעלה", "למזרח", "לנו",
+    "לעולם", "לפני", "לקח", "לשון", "לשם", "מאד", "מאה", "מאור", "מבוא", "מגדל", "מדי", "מדבר", "מה", "מובא", "מוצא", "מזבח", "מזל", "מחנה", "מחשבה", "מטרה", "מלך", "מלכות",
+    "מם", "מנהיג", "מנורה", "מספר", "מעט", "מעלה", "מערב", "מקדש", "מקום", "מרכבה", "משכן", "משפט", "נביא", "נבואה", "נגד", "נהר", "נוח", "נח", "נחש", "נטע", "ניר", "נפש", "נצר",
+    "נר", "נשמה", "נתן", "סוד", "סוכה", "סלע", "ספר", "עב", "עבד", "עבד", "עבור", "עז", "עזר", "עין", "עיר", "עם", "עמד", "עולם", "עולת", "עץ", "עפר", "עקב", "ערב", "ערך",
+    "עשר", "עת", "פה", "פורה", "פתח", "פני", "פסח", "צבא", "צדק", "צוה", "צאן", "ציון", "צמח", "צפון", "קבר", "קדש", "קהל", "קול", "קום", "קודש", "קנה", "קניין", "קרא", "קרבן",
+    "קשת", "ראש", "ראשי", "רגל", "רוח", "רחמים", "רע", "רעה", "רקיע", "שאר", "שאול", "שבת", "שבע", "שדה", "שוב", "שופט", "שופר", "שור", "שמים", "שמע", "שם", "שנה", "שנא",
+    "שער", "שפה", "שקל", "שר", "שרה", "שרף", "תאנה", "תורה", "תחת", "תוצאה", "תודה", "תמיד", "תפילה", "תקופה", "תשובה", "תשע", "תשעה",
+    // Words related to Astrian Key concepts
+    "כליל", "ספירה", "עולם", "נשמה", "רוח", "נפש", "יחידה", "חיה", "כסא", "מרכבה", "רקיע", "שמים", "ארץ", "תהום", "תוהו", "בוהו", "חשך", "אור", "חיים", "מוות",
+    "אות", "מלה", "צרוף", "גימטריה", "נוטריקון", "תמורה", "פרדס", "רמז", "דרש", "סוד", "פשט", "גוף", "נפש", "רוח", "שכל", "נורא", "אדיר", "קדוש", "ברוך", "מבורך",
+    "אמת", "שקר", "טוב", "רע", "ישר", "עקוב", "פשט", "קשר", "דבר", "חכמה", "בינה", "דעת", "חסד", "גבורה", "תפארת", "נצח", "הוד", "יסוד", "מלכות", "כתר",
+    "היולי", "תולדה", "האצלה", "בריאה", "יצירה", "עשיה", "אדם קדמון", "אדם עליון", "אדם תחתון", "צמצום", "קו", "רשימו", "שבירת כלים", "תיקון", "אחוריים", "פנים",
+    "זוהר", "ספר יצירה", "ספר הבהיר", "עץ חיים", "פרי עץ חיים", "שער הכוונות", "תומר דבורה", "שולחן ערוך", "משנה תורה", "תלמוד", "מדרש", "פיוט", "תחנון",
+    "מלאך", "שרף", "אראלים", "חשמלים", "מלכים", "בני אלהים", "אלהים", "יהוה", "אדני", "אהיה", "שדי", "צבאות", "אלהים צבאות", "יהוה צבאות", "אל עליון", "אל שדי", "אל רחום וחנון",
+    "שם המפורש", "א״ב״ג״י״ת״צ", "קר״ע שטן נג״ד יכ״ש בט״ר צת״ג", // Gematria related sequences/names
+    "פרצוף", "אריך אנפין", "זעיר אנפין", "אבא", "אמא", "ישראל סבא", "תבונה", "רחל", "לאה",
+    "נקודה", "קו", "שטח", "גוף", "עולם", "שנה", "נפש", "חומר", "צורה", "סיבה", "מסובב", "תכלית",
+    "חיים", "מוות", "טוב", "רע", "אמת", "שקר", "שלום", "מלחמה", "בריאה", "חורבן", "בניין", "הריסה",
+    "זמן", "מקום", "תנועה", "שינוי", "התפתחות", "נסיגה", "מעגל", "קו ישר", "ספירלה", "גל", "תדר",
+    "אחד", "שנים", "שלוש", "ארבע", "חמש", "שש", "שבע", "שמונה", "תשע", "עשר", "מאה", "אלף", "רבוא",
+    "ראשית", "אחרית", "תחילה", "סוף", "אמצע", "צפון", "דרום", "מזרח", "מערב", "מעלה", "מטה",
+    "עיגול", "ריבוע", "משולש", "קו", "נקודה", "חלל", "זמן", "אור", "צל", "אש", "מים", "רוח", "עפר",
+    "יוד", "הא", "ויו", "הא", // Yud Hey Vav Hey
+    "אב", "בן", "רוח הקדש", "משפחה", "קהילה", "אומה", "עולם", "יקום", "קוסמוס", "מקרוקוסמוס", "מיקרוקוסמוס",
+    "נבט", "שורש", "גזע", "ענף", "עלה", "פרח", "פרי", "זרע", "קליפה", "גרעין", "עץ", "גן", "שדה",
+    "בית", "מקדש", "מזבח", "שולחן", "מנורה", "ארון", "פרוכת", "קודש הקדשים", "היכל", "אולם", "חצר",
+    "בגד", "כלי", "כסף", "זהב", "נחושת", "ברזל", "עץ", "אבן", "מים", "אש", "רוח", "עפר",
+    "חי", "מת", "ישן", "ער", "אוכל", "שותה", "הולך", "יושב", "עומד", "שוכב", "מדבר", "שותק", "רואה", "שומע", "מרגיש", "חושב", "יודע", "מאמין",
+    "תפילה", "ברכה", "הודאה", "בקשה", "וידוי", "תשובה", "צדקה", "חסד", "גבורה", "רחמים", "אמת", "שלום", "משפט", "דין", "חן", "רצון", "אהבה", "יראה",
+    "מצווה", "חוק", "משפט", "עדות", "פרוש", "דרש", "רמז", "סוד", "פרדס",
+    "גלות", "גאולה", "משיח", "בן דוד", "בן יוסף", "אליהו", "צדיק", "רשע", "בינוני",
+    "עולם הבא", "גן עדן", "גיהינום", "תחיית המתים", "יום הדין", "עולם האצילות", "עולם הבריאה", "עולם היצירה", "עולם העשיה",
+    "כסא הכבוד", "מרכבה", "אופנים", "חיות הקודש", "שרפים", "אראלים", "תרשישים", "מלכים", "בני אלהים", "ישראל",
+    "זכר", "נקבה", "אדם", "חוה", "איש", "אשה", "זוג", "פרי", "רביה", "לידה", "מוות",
+    "ראש", "לב", "כבד", "ריאה", "כליות", "עצמות", "דם", "בשר", "עור", "גידים", "עצבים",
+    "עין", "אוזן", "פה", "אף", "יד", "רגל", "אצבע", "ציפורן", "שער", "עור", "בשר",
+    "שמש", "ירח", "כוכב", "מזל", "שבתאי", "צדק", "מאדים", "חמה", "נוגה", "כוכב", "לבנה",
+    "אביב", "קיץ", "סתיו", "חורף", "יום", "לילה", "שעה", "דקה", "שניה", "רגע", "עידן", "תקופה",
+    "ברק", "רעם", "גשם", "טל", "שלג", "ברד", "ענן", "רוח", "סערה", "רעידת אדמה", "צונאמי", "הר געש",
+    "אריה", "שור", "נמר", "דוב", "זאב", "שועל", "חתול", "כלב", "אריה", "נשר", "נחש", "דג", "ציפור",
+    "עץ חיים", "עץ הדעת", "נהר", "גן עדן", "ארבעה נהרות", "פישון", "גיחון", "חדקל", "פרת",
+    "אברהם", "יצחק", "יעקב", "שרה", "רבקה", "רחל", "לאה", "שנים עשר שבטים", "משה", "אהרן", "מרים", "יהושע",
+    "שופטים", "מלכים", "נביאים", "כתובים", "תורה", "נביאים ראשונים", "נביאים אחרונים", "כתובים",
+    "תהילים", "משלי", "איוב", "שיר השירים", "רות", "איכה", "קהלת", "אסתר", "דניאל", "עזרא", "נחמיה", "דברי הימים",
+    "ישעיהו", "ירמיהו", "יחזקאל", "הושע", "יואל", "עמוס", "עובדיה", "יונה", "מיכה", "נחום", "חבקוק", "צפניה", "חגי", "זכריה", "מלאכי",
+    "בראשית", "שמות", "ויקרא", "במדבר", "דברים",
+    "הלכה", "אגדה", "מצווה", "עבירה", "חטא", "זכות", "עונש", "שכר",
+    "קודש", "חול", "טהור", "טמא", "מותר", "אסור", "מצוה עשה", "מצוה לא תעשה",
+    "שם", "פועל", "תואר", "תואר הפועל", "מלת יחס", "מלת קישור", "מלת שאלה", "מלת קריאה",
+    "יחיד", "רבים", "זכר", "נקבה", "עבר", "הווה", "עתיד", "ציווי", "מקור", "בינוני",
+    "שורש", "בניין", "גזרת", "משקל", "נטיה", "סמיכות", "כינוי", "שם עצם", "שם תואר",
+    "תנ״ך", "משנה", "תלמוד", "מדרש", "קבלה", "חסידות", "מוסר", "הלכה", "אגדה",
+    "ראש השנה", "יום כיפור", "סוכות", "פסח", "שבועות", "פורים", "חנוכה", "ט״ו בשבט", "ל״ג בעומר", "תשעה באב",
+    "ארץ ישראל", "ירושלים", "בית המקדש", "הכותל המערבי", "הר הבית", "כינרת", "ים המלח", "נהר הירדן",
+    "שבט", "עגל", "פר", "כבש", "איל", "עז", "גדי", "שור", "פרה", "שורש",
+    "מספר", "גימטריה", "אות", "מילה", "פסוק", "פרק", "ספר", "תורה", "נביאים", "כתובים",
+    "בריאה", "יצירה", "עשיה", "אצילות", "קדמון", "אדם", "עולם", "שנה", "נפש",
+    "חיים", "מוות", "טוב", "רע", "אמת", "שקר", "שלום", "מלחמה",
+    "זמן", "מקום", "תנועה", "שינוי", "התפתחות", "נסיגה",
+    "אור", "צל", "אש", "מים", "רוח", "עפר",
+    "יוד", "הא", "ויו", "הא",
+    "אלף", "בית", "גימל", "דלת", "הא", "ויו", "זין", "חית", "טית", "יוד", "כף", "למד", "מם", "נון", "סמך", "עין", "פה", "צדי", "קוף", "ריש", "שין", "תו",
+    "כף סופית", "מם סופית", "נון סופית", "פה סופית", "צדי סופית"
+];
@@ -0,0 +1,19 @@
+import { isGreekCharacter, normalizeGreek } from '../gematria/greekIsopsephy';
+import { normalizeHebrewLetter } from '../corpus/hebrewNormalizer';
+
+/**
+ * src/els/letters.ts
+ *
+ * How the ELS engine compares letters. Texts, terms and patterns all go through
+ * `normalizeElsLetter` one letter at a time, so every cleaned letter still maps
+ * back to exactly one character of the original text.
+ */
+
+/**
+ * Lowercased; Greek letters also lose their accents and breathings, and final sigma becomes σ.
+ * Hebrew presentation forms become their base letter; final forms are kept (see `ElsPatternOptions.matchFinalForms`).
+ */
+export const normalizeElsLetter = (char: string): string => {
+    if (isGreekCharacter(char)) return normalizeGreek(char);
+    return normalizeHebrewLetter(char) || char.toLowerCase();
+};
@@ -0,0 +1,180 @@
+import { DeepELSAnalysisResult, ElsDirection, ElsHit, ElsMatrixOptions, ELSResult } from '../../types';
+import { cleanElsTerm, describeElsDirection, getElsPattern, PreparedElsText } from './elsEngine';
+import { ElsPatternOptions, matchVariantAt } from './pattern';
+
+/**
+ * src/els/matrix.ts
+ *
+ * The multi-term matrix search. The text is wrapped onto a cylinder whose
+ * width is the primary term's skip or one of its divisors; related terms are
+ * placed on the width where everything sits closest together, and the result
+ * is laid out locally as a `DeepELSAnalysisResult` grid.
+ */
+
+/** One primary hit laid out on one cylinder width with the nearest occurrence of each related term. */
+export interface MatrixCandidate {
+    primary: ElsHit;
+    width: number;
+    related: { hit: ElsHit, distance: number }[];
+    missingTerms: string[];
+    compactness: number;
+    maxDistance: number;
+}
+
+const DEFAULT_MAX_RELATED_SKIP = 50;
+const DEFAULT_ROW_RADIUS = 10;
+const GRID_MARGIN = 2;
+
+/** Every divisor of `n`, ascending. */
+export const divisorsOf = (n: number): number[] => {
+    const small: number[] = [];
+    const large: number[] = [];
+    for (let d = 1; d * d <= n; d++) {
+        if (n % d !== 0) continue;
+        small.push(d);
+        if (d * d !== n) large.unshift(n / d);
+    }
+    return [...small, ...large];
+};
+
+/** Row and column of a letter relative to an anchor letter, on a cylinder of `width`. */
+const cylinderOffset = (delta: number, width: number) => {
+    const row = Math.round(delta / width);
+    return { row, col: delta - row * width };
+};
+
+/** How far the farthest letter of `b` lies from its nearest letter of `a`, as a Chebyshev distance on the cylinder. */
+const cylinderDistance = (a: number[], b: number[], width: number): number =>
+    Math.max(...b.map(j => Math.min(...a.map(i => {
+        const { row, col } = cylinderOffset(j - i, width);
+        return Math.max(Math.abs(row), Math.abs(col));
+    }))));
+
+/** Finds every occurrence of `term` (a plain term or pattern) that starts inside the cleaned-index window `[from, to]`. */
+const searchWindow = (prepared: PreparedElsText, term: string, skips: number[], from: number, to: number, options: ElsPatternOptions): ElsHit[] => {
+    const hits: ElsHit[] = [];
+    const { cleaned, cleanedToOriginal, letterPositions } = prepared;
+
+    for (const variant of getElsPattern(term, options).variants) {
+        const starts = variant[0] === null
+            ? Array.from({ length: Math.max(0, Math.min(to, cleaned.length - 1) - Math.max(from, 0) + 1) }, (_, i) => Math.max(from, 0) + i)
+            : variant[0].split('').flatMap(letter => (letterPositions.get(letter) || []).filter(start => start >= from && start <= to));
+        for (const start of starts) {
+            skips.forEach(skip => (['forward', 'backward'] as ElsDirection[]).forEach(direction => {
+                const step = direction === 'forward' ? skip : -skip;
+                const end = start + (variant.length - 1) * step;
+                if (end < 0 || end >= cleaned.length || !matchVariantAt(cleaned, variant, start, step)) return;
+                const cleanedIndices = Array.from({ length: variant.length }, (_, k) => start + k * step);
+                hits.push({ term, matched: cleanedIndices.map(i => cleaned[i]).join(''), skip, direction, axis: 'linear', cleanedIndices, indices: cleanedIndices.map(i => cleanedToOriginal[i]) });
+            }));
+        }
+    }
+    return hits;
+};
+
+const boundingBox = (letters: number[], anchor: number, width: number) => {
+    const offsets = letters.map(i => cylinderOffset(i - anchor, width));
+    const rows = offsets.map(o => o.row);
+    const cols = offsets.map(o => o.col);
+    return { rowMin: Math.min(...rows), rowMax: Math.max(...rows), colMin: Math.min(...cols), colMax: Math.max(...cols) };
+};
+
+/** Orders candidates best-first: fewest missing terms, then most compact, then shortest reach. */
+export const compareMatrixCandidates = (a: MatrixCandidate, b: MatrixCandidate): number =>
+    a.missingTerms.length - b.missingTerms.length || b.compactness - a.compactness || a.maxDistance - b.maxDistance;
+
+/**
+ * Evaluates every divisor of a primary hit's skip as a cylinder width. A width
+ * of 1 is only used for skip 1, since it flattens the cylinder into a column.
+ * @param patternOptions - How the related terms, which may be patterns, are matched.
+ * @returns The best placement of the related terms around this hit.
+ */
+export const findBestMatrixPlacement = (prepared: PreparedElsText, primary: ElsHit, options: ElsMatrixOptions, patternOptions: ElsPatternOptions = {}): MatrixCandidate => {
+    const widths = primary.skip > 1 ? divisorsOf(primary.skip).filter(width => width > 1) : [1];
+    const rowRadius = options.rowRadius ?? DEFAULT_ROW_RADIUS;
+    const maxRelatedSkip = options.maxRelatedSkip ?? DEFAULT_MAX_RELATED_SKIP;
+    const skips = Array.from(new Set([...Array.from({ length: maxRelatedSkip }, (_, i) => i + 1), ...widths])).sort((a, b) => a - b);
+
+    const from = Math.min(...primary.cleanedIndices) - rowRadius * primary.skip;
+    const to = Math.max(...primary.cleanedIndices) + rowRadius * primary.skip;
+    const terms = options.relatedTerms.filter(term => cleanElsTerm(term) && cleanElsTerm(term) !== cleanElsTerm(primary.term));
+    const occurrences = terms.map(term => ({ term, hits: searchWindow(prepared, term, skips, from, to, patternOptions) }));
+
+    return widths.map(width => {
+        const related: MatrixCandidate['related'] = [];
+        const missingTerms: string[] = [];
+        occurrences.forEach(({ term, hits }) => {
+            let best: { hit: ElsHit, distance: number } | null = null;
+            for (const hit of hits) {
+                const distance = cylinderDistance(primary.cleanedIndices, hit.cleanedIndices, width);
+                if (distance <= rowRadius && (!best || distance < best.distance)) best = { hit, distance };
+            }
+            if (best) related.push(best); else missingTerms.push(term);
+        });
+
+        const letters = Array.from(new Set([...primary.cleanedIndices, ...related.flatMap(r => r.hit.cleanedIndices)]));
+        const box = boundingBox(letters, primary.cleanedIndices[0], width);
+        const area = (box.rowMax - box.rowMin + 1) * (box.colMax - box.colMin + 1);
+        return {
+            primary, width, related, missingTerms,
+            compactness: letters.length / area,
+            maxDistance: related.reduce((max, r) => Math.max(max, r.distance), 0),
+        };
+    }).sort(compareMatrixCandidates)[0];
+};
+
+/** Lays a matrix candidate out as a locally built grid that `ELSDisplay` can highlight. */
+export const buildMatrixGrid = (prepared: PreparedElsText, candidate: MatrixCandidate): DeepELSAnalysisResult => {
+    const { primary, width, related } = candidate;
+    const anchor = primary.cleanedIndices[0];
+    const placed = [primary, ...related.map(r => r.hit)];
+    const box = boundingBox(placed.flatMap(hit => hit.cleanedIndices), anchor, width);
+
+    const rowStart = box.rowMin - 1;
+    const rowCount = box.rowMax - box.rowMin + 3;
+    const boxCols = box.colMax - box.colMin + 1;
+    const colCount = Math.min(width, boxCols + 2 * GRID_MARGIN);
+    const colStart = box.colMin - Math.floor((colCount - boxCols) / 2);
+    const origin = anchor + rowStart * width + colStart;
+
+    const rows: string[] = [];
+    for (let r = 0; r < rowCount; r++) {
+        let row = '';
+        for (let c = 0; c < colCount; c++) row += prepared.cleaned[origin + r * width + c] ?? ' ';
+        rows.push(row);
+    }
+
+    const toResult = (hit: ElsHit, verses: string): ELSResult => ({
+        word: hit.matched,
+        direction: describeElsDirection(hit),
+        skip: hit.skip,
+        verses,
+        path: hit.cleanedIndices.map(i => {
+            const { row, col } = cylinderOffset(i - anchor, width);
+            return { row: row - rowStart, col: col - colStart };
+        }),
+    });
+
+    const missing = candidate.missingTerms.length > 0 ? ` Not found nearby: ${candidate.missingTerms.join(', ')}.` : ' All related terms were found nearby.';
+    const explanation = related.length === 0 && candidate.missingTerms.length === 0
+        ? `Cylinder of width ${width}, showing "${primary.term}" at skip ${primary.skip}.`
+        : `Cylinder of width ${width} (primary skip ${primary.skip}). Compactness ${candidate.compactness.toFixed(3)}, with related terms within ${candidate.maxDistance} row(s) or column(s) of "${primary.term}".${missing}`;
+    return {
+        textGrid: { text: rows.join('\n'), explanation },
+        elsAnalysis: [
+            toResult(primary, `Primary term, starting at index ${anchor}`),
+            ...related.map(r => toResult(r.hit, `Related term, ${r.distance} row(s) or column(s) from the primary term`)),
+        ],
+        matrix: {
+            primaryTerm: primary.term,
+            width,
+            compactness: candidate.compactness,
+            maxDistance: candidate.maxDistance,
+            missingTerms: candidate.missingTerms,
+        },
+    };
+};
+
+/** Lays a single hit out on its own cylinder (its grid width, or else its skip). */
+export const buildHitGrid = (prepared: PreparedElsText, hit: ElsHit): DeepELSAnalysisResult =>
+    buildMatrixGrid(prepared, { primary: hit, width: hit.cylinderWidth ?? hit.skip, related: [], missingTerms: [], compactness: 1, maxDistance: 0 });
@@ -0,0 +1,116 @@
+import { ElsControlKind, ElsMonteCarloResult, ElsMonteCarloStat, ElsSearchRequest, ELSResult } from '../../types';
+import { indexLetterPositions, PreparedElsText, prepareElsText, searchElsOnAxes } from './elsEngine';
+
+/**
+ * src/els/monteCarlo.ts
+ *
+ * Monte Carlo significance testing for ELS searches. The same search is rerun
+ * over letter-shuffled and word-shuffled copies of the text; how often a
+ * control matches or beats the observed hit count gives an empirical p-value.
+ */
+
+/** A seeded PRNG (mulberry32) returning floats in [0, 1). */
+export const createRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const shuffle = <T,>(items: T[], random: () => number): T[] => {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+};
+
+/**
+ * Builds a control text for one trial.
+ * 'letter' permutes every letter (keeping letter frequencies); 'word' permutes
+ * whole words (keeping letter frequencies and each word's internal spelling).
+ */
+export const createControlText = (prepared: PreparedElsText, kind: ElsControlKind, random: () => number): PreparedElsText => {
+    if (kind === 'word') {
+        return prepareElsText(shuffle(prepared.original.split(/\s+/).filter(Boolean), random).join(' '));
+    }
+    const cleaned = shuffle(prepared.cleaned.split(''), random).join('');
+    return { original: cleaned, cleaned, cleanedToOriginal: Array.from({ length: cleaned.length }, (_, i) => i), letterPositions: indexLetterPositions(cleaned) };
+};
+
+/**
+ * Counts hits for every term, direction and axis of a request over a skip range.
+ * @returns Hit counts keyed by the hits' letter skip, which for grid axes differs from the row skip scanned.
+ */
+export const countHitsBySkip = (prepared: PreparedElsText, request: ElsSearchRequest, minSkip: number, maxSkip: number): Map<number, number> => {
+    const counts = new Map<number, number>();
+    for (let skip = minSkip; skip <= maxSkip; skip++) {
+        request.terms.forEach(term => request.directions.forEach(direction => {
+            searchElsOnAxes(prepared, request, term, skip, direction).forEach(hit => counts.set(hit.skip, (counts.get(hit.skip) || 0) + 1));
+        }));
+    }
+    return counts;
+};
+
+const sum = (values: number[]) => values.reduce((acc, value) => acc + value, 0);
+
+// Empirical p-value with the usual +1 correction, so it is never exactly 0.
+const empiricalPValue = (observed: number, controls: number[]) =>
+    (1 + controls.filter(count => count >= observed).length) / (controls.length + 1);
+
+const buildStat = (skip: number, observed: number, controlCounts: Partial<Record<ElsControlKind, number[]>>): ElsMonteCarloStat => {
+    const stat: ElsMonteCarloStat = { skip, observed, expected: {}, pValue: {} };
+    (Object.keys(controlCounts) as ElsControlKind[]).forEach(kind => {
+        const counts = controlCounts[kind]!;
+        stat.expected[kind] = counts.length ? sum(counts) / counts.length : 0;
+        stat.pValue[kind] = empiricalPValue(observed, counts);
+    });
+    return stat;
+};
+
+/**
+ * Turns observed and per-trial control counts into per-skip and total statistics.
+ * @param observed - Hit counts of the original text, keyed by skip.
+ * @param controls - For each control kind, one count map per trial.
+ */
+export const summarizeMonteCarlo = (
+    observed: Map<number, number>,
+    controls: Partial<Record<ElsControlKind, Map<number, number>[]>>,
+    trials: number,
+    seed: number,
+): ElsMonteCarloResult => {
+    const kinds = Object.keys(controls) as ElsControlKind[];
+    const countsAt = (skip: number) => Object.fromEntries(kinds.map(kind => [kind, controls[kind]!.map(trial => trial.get(skip) || 0)])) as Partial<Record<ElsControlKind, number[]>>;
+    const totals = Object.fromEntries(kinds.map(kind => [kind, controls[kind]!.map(trial => sum(Array.from(trial.values())))])) as Partial<Record<ElsControlKind, number[]>>;
+
+    // Skips that appear in neither the original nor any control have nothing to report.
+    const skips = new Set(observed.keys());
+    kinds.forEach(kind => controls[kind]!.forEach(trial => trial.forEach((_, skip) => skips.add(skip))));
+    const perSkip = Array.from(skips).sort((a, b) => a - b).map(skip => buildStat(skip, observed.get(skip) || 0, countsAt(skip)));
+
+    return { trials, controls: kinds, seed, total: buildStat(0, sum(Array.from(observed.values())), totals), perSkip };
+};
+
+/** Attaches the matching per-skip statistic to each result. */
+export const attachMonteCarlo = (results: ELSResult[], monteCarlo: ElsMonteCarloResult): ELSResult[] =>
+    results.map(result => {
+        const stat = monteCarlo.perSkip.find(s => s.skip === result.skip);
+        return stat ? { ...result, monteCarlo: { ...stat, trials: monteCarlo.trials } } : result;
+    });
+
+// The empirical p-value at or below which a skip counts as beating a control.
+const SIGNIFICANCE_LEVEL = 0.05;
+
+/** Describes which controls a skip's observed hit count beats, e.g. for the batch results table. */
+export const describeMonteCarloSignificance = (monteCarlo: ElsMonteCarloResult, skip: number): string[] => {
+    const stat = monteCarlo.perSkip.find(s => s.skip === skip);
+    if (!stat) return [];
+    return (Object.keys(stat.pValue) as ElsControlKind[])
+        .filter(kind => stat.pValue[kind]! <= SIGNIFICANCE_LEVEL)
+        .map(kind => `Beats ${kind}-shuffled controls (p = ${stat.pValue[kind]!.toFixed(3)})`);
+};
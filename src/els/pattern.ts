@@ -0,0 +1,113 @@
+import { normalizeElsLetter } from './letters';
+import { HEBREW_FINAL_FORMS } from '../corpus/hebrewNormalizer';
+
+/**
+ * src/els/pattern.ts
+ *
+ * The ELS term pattern language. A term is a sequence of letters, optionally using:
+ *   .      any single letter
+ *   [יו]   any one of the listed letters
+ *   ?      after a letter, `.` or class: that position may be left out
+ * Other non-letters (spaces, maqaf, geresh) are ignored, as in plain terms.
+ * Optional positions expand a pattern into fixed-length variants, each of which
+ * is matched letter by letter along the skip.
+ */
+
+/** Accepted letters at one position of a variant, or null for any letter. */
+export type ElsPatternToken = string | null;
+
+export interface ElsPattern {
+    source: string;
+    /** Every fixed-length spelling the pattern allows, longest first. */
+    variants: ElsPatternToken[][];
+    /** True if the term uses any pattern syntax, rather than plain letters only. */
+    isPattern: boolean;
+}
+
+export interface ElsPatternOptions {
+    /** Treat final and non-final letter forms (ך/כ, ם/מ, ן/נ, ף/פ, ץ/צ) as the same letter. */
+    matchFinalForms?: boolean;
+}
+
+// More optional positions than this would expand into an unreasonable number of variants.
+const MAX_OPTIONAL_TOKENS = 6;
+
+const FINAL_FORM_PAIRS: Record<string, string> = Object.fromEntries(
+    Object.entries(HEBREW_FINAL_FORMS).flatMap(([final, medial]) => [[final, medial], [medial, final]]),
+);
+
+const LETTER_PATTERN = /\p{L}/u;
+
+const withFinalForms = (letters: string): string =>
+    Array.from(new Set(letters.split('').flatMap(letter => FINAL_FORM_PAIRS[letter] ? [letter, FINAL_FORM_PAIRS[letter]] : [letter]))).join('');
+
+/**
+ * Parses an ELS term into its pattern variants.
+ * @throws If the term has an unclosed or empty letter class, a `?` with nothing
+ * before it, too many optional positions, or no required letter.
+ */
+export const compileElsPattern = (term: string, options: ElsPatternOptions = {}): ElsPattern => {
+    const tokens: { letters: ElsPatternToken, optional: boolean }[] = [];
+    let isPattern = false;
+
+    for (let i = 0; i < term.length; i++) {
+        const char = term[i];
+        if (char === '[') {
+            const close = term.indexOf(']', i + 1);
+            if (close === -1) throw new Error(`Unclosed letter class in ELS term "${term}".`);
+            const letters = Array.from(new Set(term.slice(i + 1, close).split('').filter(c => LETTER_PATTERN.test(c)).map(normalizeElsLetter))).join('');
+            if (!letters) throw new Error(`Empty letter class in ELS term "${term}".`);
+            tokens.push({ letters, optional: false });
+            isPattern = true;
+            i = close;
+        } else if (char === '.') {
+            tokens.push({ letters: null, optional: false });
+            isPattern = true;
+        } else if (char === '?') {
+            const previous = tokens[tokens.length - 1];
+            if (!previous || previous.optional) throw new Error(`"?" must follow a letter, "." or letter class in ELS term "${term}".`);
+            previous.optional = true;
+            isPattern = true;
+        } else if (LETTER_PATTERN.test(char)) {
+            tokens.push({ letters: normalizeElsLetter(char), optional: false });
+        }
+    }
+
+    const optionalCount = tokens.filter(token => token.optional).length;
+    if (optionalCount > MAX_OPTIONAL_TOKENS) throw new Error(`ELS term "${term}" has more than ${MAX_OPTIONAL_TOKENS} optional letters.`);
+    if (tokens.length > 0 && optionalCount === tokens.length) throw new Error(`ELS term "${term}" needs at least one required letter.`);
+
+    const resolved = tokens.map(token => ({
+        ...token,
+        letters: token.letters !== null && options.matchFinalForms ? withFinalForms(token.letters) : token.letters,
+    }));
+    // Each optional token doubles the variants: kept or left out.
+    let variants: ElsPatternToken[][] = [[]];
+    resolved.forEach(token => {
+        variants = token.optional
+            ? variants.flatMap(variant => [[...variant, token.letters], variant])
+            : variants.map(variant => [...variant, token.letters]);
+    });
+    const unique = new Map(variants.map(variant => [JSON.stringify(variant), variant]));
+
+    return {
+        source: term,
+        variants: Array.from(unique.values()).filter(variant => variant.length > 0).sort((a, b) => b.length - a.length),
+        isPattern,
+    };
+};
+
+/** True if `letter` is accepted at a pattern position. */
+export const tokenAccepts = (token: ElsPatternToken, letter: string): boolean => token === null || token.includes(letter);
+
+/**
+ * Checks a variant against the cleaned text from `start` in steps of `step`.
+ * The caller keeps every position inside the text.
+ */
+export const matchVariantAt = (cleaned: string, variant: ElsPatternToken[], start: number, step: number): boolean => {
+    for (let k = 0; k < variant.length; k++) {
+        if (!tokenAccepts(variant[k], cleaned[start + k * step])) return false;
+    }
+    return true;
+};
+
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { createSignificanceContext, identifySignificantElsFindings, scoreElsSequence } from './significance';
+
+/**
+ * src/els/significance.test.ts
+ *
+ * Scores hand-built hit sets against the default rules. The alphabet network's
+ * loops are Aleph-Pey and Dalet-Lamed plus the self-loops of Vav, Mem and Nun
+ * (together 211), and its hubs are Yud, Lamed and Pey.
+ */
+
+// The keyword's Gematria (376) matches none of the skips or sequences below.
+const KEYWORD = 'שלום';
+
+const score = (text: string, skip: number, sequence: number[], sameSkipSequences: number[][] = [sequence]) =>
+    scoreElsSequence(createSignificanceContext(KEYWORD, text, skip, sequence, sameSkipSequences));
+
+const ruleIds = (result: ReturnType<typeof score>) => result.matches.map(match => match.ruleId);
+
+describe('clustering', () => {
+    // Resh alone is an island of its own and forms no word, so only the frequency rules and its island add to these scores.
+    const resh = 'ר'.repeat(300);
+    const sequence = [0, 2, 4];
+
+    it('scores a second sequence within 100 letters as clustered', () => {
+        const result = score(resh, 2, sequence, [sequence, [50, 52, 54]]);
+        expect(ruleIds(result)).toEqual(['skip-frequency', 'clustering', 'island-letters']);
+        expect(result.score).toBe(3.5);
+        expect(result.reasons).toContain('Sequence is clustered');
+    });
+
+    it('does not cluster sequences 100 or more letters apart', () => {
+        const result = score(resh, 2, sequence, [sequence, [150, 152, 154]]);
+        expect(ruleIds(result)).toEqual(['skip-frequency', 'island-letters']);
+        expect(result.score).toBe(2);
+    });
+
+    it('adds high skip frequency from three sequences at one skip', () => {
+        const result = score(resh, 2, sequence, [sequence, [50, 52, 54], [150, 152, 154]]);
+        expect(ruleIds(result)).toEqual(['skip-frequency', 'high-skip-frequency', 'clustering', 'island-letters']);
+        expect(result.score).toBe(5);
+    });
+});
+
+describe('island letters', () => {
+    it('names the island every letter belongs to', () => {
+        const result = score('זעש', 1, [0, 1, 2]);
+        expect(ruleIds(result)).toEqual(['island-letters']);
+        expect(result.score).toBe(1);
+        expect(result.reasons).toEqual(['Letters primarily from Nun island']);
+    });
+
+    it('names the island most letters belong to', () => {
+        const result = score('זער', 1, [0, 1, 2]);
+        expect(ruleIds(result)).toEqual(['island-letters']);
+        expect(result.score).toBe(1);
+        expect(result.reasons).toEqual(['Majority of letters from Nun island']);
+    });
+});
+
+describe('loops and hubs', () => {
+    it('finds the Aleph-Pey loop and the Pey and Yud hubs', () => {
+        const result = score('אפי', 1, [0, 1, 2]);
+        expect(ruleIds(result)).toEqual(['island-letters', 'loop-hub-letters', 'network-walk']);
+        expect(result.score).toBe(2.5);
+        expect(result.matches.find(match => match.ruleId === 'loop-hub-letters')!.reasons)
+            .toEqual(['Contains Loop letter(s)', 'Contains Hub letter (פ)', 'Contains Hub letter (י)']);
+    });
+
+    it("matches a skip of 10 to the Yud hub's Gematria", () => {
+        const result = score('ר'.repeat(30) + 'י', 10, [0, 10, 20, 30]);
+        expect(ruleIds(result)).toEqual(['island-letters', 'loop-hub-letters', 'loop-hub-gematria']);
+        expect(result.score).toBe(3.5);
+        expect(result.reasons).toContain('Skip Gematria matches Hub (י) Gematria');
+    });
+
+    it('matches a skip of 211 to the Gematria of the loop letters', () => {
+        const result = score('ר'.repeat(500), 211, [0, 211, 422]);
+        expect(ruleIds(result)).toEqual(['island-letters', 'loop-hub-gematria']);
+        expect(result.score).toBe(3);
+        expect(result.reasons).toContain('Skip Gematria matches Loop Letters Gematria');
+    });
+});
+
+describe('tier gematria', () => {
+    it("matches a sequence summing to 103 to the Mem island's tier", () => {
+        const result = score('קג', 1, [0, 1]);
+        expect(ruleIds(result)).toEqual(['island-letters', 'tier-gematria']);
+        expect(result.score).toBe(3.5);
+        expect(result.reasons).toContain('Sequence Gematria matches Tier 5 Gematria (Mem)');
+    });
+});
+
+describe('meaningful phrases', () => {
+    it('recognises a word, its root and its prefix', () => {
+        const result = score('בזרזא', 2, [0, 2, 4]);
+        expect(ruleIds(result)).toEqual(['loop-hub-letters', 'meaningful-phrases']);
+        expect(result.score).toBe(1.5);
+        expect(result.matches.find(match => match.ruleId === 'meaningful-phrases')!.reasons)
+            .toEqual(['Starts with common prefix: ב', 'Forms the Hebrew word: ברא', 'Contains the root: ברא']);
+    });
+});
+
+describe('identifySignificantElsFindings', () => {
+    it('reports each sequence once with its score and rule matches', () => {
+        const text = 'ר'.repeat(300);
+        const indices = [[0, 2, 4], [50, 52, 54]];
+        const findings = identifySignificantElsFindings([{ skip: 2, indices }, { skip: 2, indices: [indices[0]] }], KEYWORD, text);
+        expect(findings.map(finding => finding.indices[0])).toEqual(indices);
+        expect(findings.map(finding => finding.score)).toEqual([3.5, 3.5]);
+        expect(findings[0].ruleMatches.map(match => match.name)).toEqual(['Skip Frequency', 'Clustering', 'Island Letters']);
+    });
+});
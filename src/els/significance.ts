@@ -0,0 +1,248 @@
+import { ElsSignificanceRuleMatch, ElsSignificantFinding, NetworkPathAnalysis } from '../../types';
+import { hebrewAlphabetNetwork } from '../dataModels';
+import { normalizeHebrew } from '../corpus/hebrewNormalizer';
+import { commonHebrewPhrases, commonHebrewPrefixes, commonHebrewRoots, commonHebrewSuffixes, commonHebrewWords } from './hebrewLexicon';
+
+/**
+ * src/els/significance.ts
+ *
+ * The ELS significance pass: a list of named, weighted rules scored over each
+ * sequence. Pure functions only, so it can run inside the ELS worker alongside
+ * the search that produced the findings, or anywhere else outside React.
+ */
+
+// Keeps only Hebrew letters.
+const cleanText = (text: string): string => normalizeHebrew(text, { keepWordBoundaries: false });
+
+const calculateStringGematria = (str: string): number =>
+    hebrewAlphabetNetwork.calculatePathGematria(cleanText(str).split('')) || 0;
+
+/**
+ * Maps a number to a Gematria value for comparison against island, loop and hub values.
+ * For now this is the number itself; a mapping based on the Hebrew Alphabet Network's
+ * structure could be developed here.
+ */
+export const calculateNumberGematria = (num: number): number => num;
+
+/**
+ * Checks whether an ELS sequence, alone or combined with up to two neighbouring
+ * letters on either side, forms a known word, phrase, root or affix.
+ * @param indices - Letter positions of the sequence in `text`.
+ * @param text - The text the sequence was found in.
+ * @returns A list of human-readable reasons.
+ */
+export const checkForMeaningfulPhrases = (indices: number[], text: string): string[] => {
+    const reasons: string[] = [];
+    const addReason = (reason: string) => { if (!reasons.includes(reason)) reasons.push(reason); };
+    const cleanedSequenceLetters = cleanText(indices.map(index => text[index] || '').join(''));
+    const stringsToCheck = [cleanedSequenceLetters];
+
+    if (indices.length > 0) {
+        const firstIndex = indices[0];
+        const lastIndex = indices[indices.length - 1];
+        for (let i = 1; i <= 2; i++) {
+            if (firstIndex - i >= 0) stringsToCheck.push(cleanText(text.substring(firstIndex - i, firstIndex)) + cleanedSequenceLetters);
+            if (lastIndex + i < text.length) stringsToCheck.push(cleanedSequenceLetters + cleanText(text.substring(lastIndex + 1, lastIndex + 1 + i)));
+        }
+        if (firstIndex > 0 && lastIndex < text.length - 1) {
+            stringsToCheck.push(cleanText(text[firstIndex - 1]) + cleanedSequenceLetters + cleanText(text[lastIndex + 1]));
+        }
+    }
+
+    stringsToCheck.forEach(str => {
+        if (str.length === 0) return;
+        commonHebrewPrefixes.forEach(prefix => { if (str.startsWith(prefix) && str.length > prefix.length) addReason(`Starts with common prefix: ${prefix}`); });
+        commonHebrewSuffixes.forEach(suffix => { if (str.endsWith(suffix) && str.length > suffix.length) addReason(`Ends with common suffix: ${suffix}`); });
+        if (commonHebrewWords.includes(str)) addReason(`Forms the Hebrew word: ${str}`);
+        if (commonHebrewPhrases.includes(str)) addReason(`Forms the common Hebrew phrase: ${str}`);
+
+        // Basic consonant extraction: drop the matres lectionis Vav and Yud.
+        const consonantSequence = str.split('').filter(char => char !== 'ו' && char !== 'י').join('');
+        commonHebrewRoots.forEach(root => { if (consonantSequence.includes(root)) addReason(`Contains the root: ${root}`); });
+    });
+
+    return reasons;
+};
+
+/** Everything a significance rule may look at for one ELS sequence. */
+export interface SignificanceContext {
+    keyword: string;
+    keywordGematria: number;
+    /** The text the indices refer to. */
+    text: string;
+    skip: number;
+    skipGematria: number;
+    /** Letter positions of the sequence in `text`. */
+    sequence: number[];
+    /** The sequence's Hebrew letters. */
+    sequenceLetters: string[];
+    sequenceGematria: number;
+    /** The sequence's walk over the alphabet network. */
+    networkPath: NetworkPathAnalysis;
+    /** Every sequence found at the same skip, including this one. */
+    sameSkipSequences: number[][];
+}
+
+/** A named, weighted significance criterion. */
+export interface SignificanceRule {
+    id: string;
+    name: string;
+    /** Added to a sequence's score when the rule produces any reason. */
+    weight: number;
+    explanation: string;
+    /** The reasons this rule finds for a sequence; empty if it does not apply. */
+    evaluate: (context: SignificanceContext) => string[];
+}
+
+/** A sequence's score: the summed weights of the rules that matched, and their reasons. */
+export interface SignificanceScore {
+    score: number;
+    reasons: string[];
+    matches: ElsSignificanceRuleMatch[];
+}
+
+const CLUSTERING_DISTANCE = 100;
+const HIGH_FREQUENCY_THRESHOLD = 3;
+const NETWORK_WALK_EDGE_RATIO = 0.5;
+
+// The islands, tiers, loops and hubs of the alphabet network, derived from its spellings (see src/network/analytics.ts).
+const NETWORK = hebrewAlphabetNetwork.analyze();
+const LOOP_LETTERS = Array.from(new Set([...NETWORK.cycles.flat(), ...NETWORK.selfLoops]));
+const HUB_LETTERS = NETWORK.hubs;
+
+const when = (condition: boolean, reason: string): string[] => condition ? [reason] : [];
+
+/** The default rules, in the order their reasons are reported. */
+export const SIGNIFICANCE_RULES: SignificanceRule[] = [
+    {
+        id: 'keyword-gematria', name: 'Keyword Gematria Match', weight: 3,
+        explanation: "The skip or the sequence's own letters sum to the keyword's Gematria.",
+        evaluate: c => [
+            ...when(c.skip !== 0 && c.skip === c.keywordGematria, "Skip matches keyword Gematria"),
+            ...when(c.sequenceGematria === c.keywordGematria, "Sequence Gematria matches keyword Gematria"),
+        ],
+    },
+    {
+        id: 'skip-frequency', name: 'Skip Frequency', weight: 1,
+        explanation: 'The keyword occurs more than once at this skip.',
+        evaluate: c => when(c.sameSkipSequences.length > 1, "Skip has multiple occurrences"),
+    },
+    {
+        id: 'high-skip-frequency', name: 'High Skip Frequency', weight: 1.5,
+        explanation: `The keyword occurs ${HIGH_FREQUENCY_THRESHOLD} or more times at this skip.`,
+        evaluate: c => when(c.sameSkipSequences.length >= HIGH_FREQUENCY_THRESHOLD, "High Skip Frequency"),
+    },
+    {
+        id: 'clustering', name: 'Clustering', weight: 1.5,
+        explanation: `Another sequence at the same skip starts within ${CLUSTERING_DISTANCE} letters.`,
+        evaluate: c => when(c.sequence.length > 0 && c.sameSkipSequences.some(other =>
+            other !== c.sequence && other.length > 0 && Math.abs(c.sequence[0] - other[0]) < CLUSTERING_DISTANCE), "Sequence is clustered"),
+    },
+    {
+        id: 'island-letters', name: 'Island Letters', weight: 1,
+        explanation: 'All or most of the sequence\'s letters belong to one island of the Hebrew Willow network.',
+        evaluate: c => NETWORK.islands.flatMap(island => {
+            if (c.sequenceLetters.length === 0) return [];
+            const lettersInIsland = c.sequenceLetters.filter(char => island.letters.includes(char)).length;
+            if (lettersInIsland === c.sequenceLetters.length) return [`Letters primarily from ${island.name} island`];
+            return when(lettersInIsland >= Math.ceil(c.sequenceLetters.length / 2), `Majority of letters from ${island.name} island`);
+        }),
+    },
+    {
+        id: 'island-gematria', name: 'Island Gematria', weight: 2,
+        explanation: "The skip equals the Gematria of an island's letters.",
+        evaluate: c => NETWORK.islands.flatMap(island =>
+            when(c.skipGematria === island.gematria, `Skip Gematria matches ${island.name} island Gematria (${island.gematria})`)),
+    },
+    {
+        id: 'loop-hub-letters', name: 'Loop and Hub Letters', weight: 0.5,
+        explanation: 'The sequence contains a letter of one of the network\'s loops or one of its hubs.',
+        evaluate: c => [
+            ...when(c.sequenceLetters.some(char => LOOP_LETTERS.includes(char)), "Contains Loop letter(s)"),
+            ...c.sequenceLetters.filter((char, i, all) => HUB_LETTERS.includes(char) && all.indexOf(char) === i).map(char => `Contains Hub letter (${char})`),
+        ],
+    },
+    {
+        id: 'loop-hub-gematria', name: 'Loop and Hub Gematria', weight: 2,
+        explanation: 'The skip equals the Gematria of the loop letters or of a hub letter.',
+        evaluate: c => {
+            const loopGematria = calculateStringGematria(LOOP_LETTERS.join(''));
+            return [
+                ...when(c.skipGematria !== 0 && loopGematria !== 0 && c.skipGematria === loopGematria, "Skip Gematria matches Loop Letters Gematria"),
+                ...HUB_LETTERS.flatMap(hub => {
+                    const hubGematria = calculateStringGematria(hub);
+                    return when(c.skipGematria !== 0 && hubGematria !== 0 && c.skipGematria === hubGematria, `Skip Gematria matches Hub (${hub}) Gematria`);
+                }),
+            ];
+        },
+    },
+    {
+        id: 'tier-gematria', name: 'Tier Gematria', weight: 2.5,
+        explanation: 'The sequence\'s Gematria equals the Gematria of one of the network\'s island tiers.',
+        evaluate: c => NETWORK.islands.flatMap(island => when(c.sequenceGematria === island.gematria, `Sequence Gematria matches Tier ${island.tier} Gematria (${island.name})`)),
+    },
+    {
+        id: 'network-walk', name: 'Network Walk', weight: 1,
+        explanation: `At least ${NETWORK_WALK_EDGE_RATIO * 100}% of the steps from letter to letter follow spelling edges of the Willow network.`,
+        evaluate: c => when(c.networkPath.steps.length >= 2 && c.networkPath.edgeRatio >= NETWORK_WALK_EDGE_RATIO,
+            `Sequence walks the network (${c.networkPath.edgeSteps} of ${c.networkPath.steps.length} steps along spelling edges)`),
+    },
+    {
+        id: 'meaningful-phrases', name: 'Meaningful Phrases', weight: 1,
+        explanation: 'The sequence, alone or with up to two neighbouring letters, forms a known word, phrase, root or affix.',
+        evaluate: c => checkForMeaningfulPhrases(c.sequence, c.text),
+    },
+];
+
+/**
+ * Builds the context the rules see for one sequence.
+ * @param sameSkipSequences - Every sequence found at `skip`; should include `sequence` itself.
+ */
+export const createSignificanceContext = (keyword: string, text: string, skip: number, sequence: number[], sameSkipSequences: number[][]): SignificanceContext => ({
+    keyword,
+    keywordGematria: calculateStringGematria(keyword),
+    text,
+    skip,
+    skipGematria: calculateNumberGematria(skip),
+    sequence,
+    sequenceLetters: sequence.map(index => text[index] || '').filter(char => cleanText(char) !== ''),
+    sequenceGematria: calculateStringGematria(sequence.map(index => text[index] || '').join('')),
+    networkPath: hebrewAlphabetNetwork.projectPath(sequence.map(index => text[index] || '').join('')),
+    sameSkipSequences,
+});
+
+/** Runs every rule over a sequence and sums the weights of those that matched. */
+export const scoreElsSequence = (context: SignificanceContext, rules: SignificanceRule[] = SIGNIFICANCE_RULES): SignificanceScore => {
+    const matches: ElsSignificanceRuleMatch[] = [];
+    rules.forEach(rule => {
+        const reasons = rule.evaluate(context);
+        if (reasons.length > 0) matches.push({ ruleId: rule.id, name: rule.name, weight: rule.weight, reasons });
+    });
+    return {
+        score: matches.reduce((total, match) => total + match.weight, 0),
+        reasons: Array.from(new Set(matches.flatMap(match => match.reasons))),
+        matches,
+    };
+};
+
+/**
+ * Identifies significant ELS findings: every sequence that at least one rule matches,
+ * with its score and reasons.
+ * @param results - Findings grouped by skip; indices are relative to `text`.
+ * @param keyword - The searched term.
+ * @param text - The original text the indices refer to.
+ * @param rules - The rules to apply; defaults to `SIGNIFICANCE_RULES`.
+ */
+export const identifySignificantElsFindings = (results: { skip: number, indices: number[][] }[], keyword: string, text: string, rules: SignificanceRule[] = SIGNIFICANCE_RULES): ElsSignificantFinding[] => {
+    const significantFindings: ElsSignificantFinding[] = [];
+    results.forEach(result => {
+        result.indices.forEach(sequence => {
+            const { score, reasons, matches } = scoreElsSequence(createSignificanceContext(keyword, text, result.skip, sequence, result.indices), rules);
+            const alreadyExists = significantFindings.some(sf => sf.skip === result.skip && JSON.stringify(sf.indices[0]) === JSON.stringify(sequence));
+            if (reasons.length > 0 && !alreadyExists) {
+                significantFindings.push({ skip: result.skip, indices: [sequence], significance: reasons, score, ruleMatches: matches });
+            }
+        });
+    });
+    return significantFindings;
+};
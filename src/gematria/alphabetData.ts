@@ -0,0 +1,110 @@
+import { HebrewAlphabetData, HebrewAlphabetEntry, SpellingTradition } from '../../types';
+import { HEBREW_LETTERS, standardGematria } from './hebrewGematria';
+
+/**
+ * src/gematria/alphabetData.ts
+ *
+ * Validation of the Hebrew alphabet data (data/hebrewAlphabetData.json) and the
+ * registry of spelling traditions the alphabet network can be built with. The
+ * data is checked whole before anything is built from it, so a malformed file
+ * fails at load with every problem listed rather than as a wrong value later.
+ */
+
+// The full letter names, with vav spelled ואו and hei spelled הא.
+const PLENE_SPELLINGS: Record<string, string> = {
+    'א': 'אלף', 'ב': 'בית', 'ג': 'גימל', 'ד': 'דלת', 'ה': 'הא', 'ו': 'ואו', 'ז': 'זין', 'ח': 'חית', 'ט': 'טית', 'י': 'יוד', 'כ': 'כף',
+    'ל': 'למד', 'מ': 'מם', 'נ': 'נון', 'ס': 'סמך', 'ע': 'עין', 'פ': 'פא', 'צ': 'צדי', 'ק': 'קוף', 'ר': 'ריש', 'ש': 'שין', 'ת': 'תו',
+};
+
+/** Every spelling tradition offered; build a network in any other with `loadHebrewAlphabetNetwork`. */
+export const SPELLING_TRADITIONS: SpellingTradition[] = [
+    {
+        id: 'willow', name: 'Willow Network', spellings: {},
+        description: 'The spellings of the alphabet data itself, as the Willow network reads them (גמל, הא, פא, צי, ר).',
+    },
+    {
+        id: 'plene', name: 'Plene (milui)', spellings: PLENE_SPELLINGS,
+        description: 'The full letter names of classical milui (גימל, ואו, צדי, ריש).',
+    },
+    // The four fillings of the Name: יהוה spelled out once sums to 72, 63, 45 or 52.
+    {
+        id: 'ab', name: 'ע״ב (72)', spellings: { ...PLENE_SPELLINGS, 'י': 'יוד', 'ה': 'הי', 'ו': 'ויו' },
+        description: 'The yud filling: יוד הי ויו הי.',
+    },
+    {
+        id: 'sag', name: 'ס״ג (63)', spellings: { ...PLENE_SPELLINGS, 'י': 'יוד', 'ה': 'הי', 'ו': 'ואו' },
+        description: 'The yud filling with an alef in vav: יוד הי ואו הי.',
+    },
+    {
+        id: 'mah', name: 'מ״ה (45)', spellings: { ...PLENE_SPELLINGS, 'י': 'יוד', 'ה': 'הא', 'ו': 'ואו' },
+        description: 'The alef filling: יוד הא ואו הא.',
+    },
+    {
+        id: 'ban', name: 'ב״ן (52)', spellings: { ...PLENE_SPELLINGS, 'י': 'יוד', 'ה': 'הה', 'ו': 'וו' },
+        description: 'The he filling: יוד הה וו הה.',
+    },
+];
+
+export const DEFAULT_SPELLING_TRADITION = 'willow';
+
+export const findSpellingTradition = (id: string): SpellingTradition | undefined =>
+    SPELLING_TRADITIONS.find(tradition => tradition.id === id);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// The problems with one entry, each phrased after the entry's key.
+const entryProblems = (key: string, entry: unknown, keys: Set<string>): string[] => {
+    if (!isRecord(entry)) return [`"${key}" is not an object`];
+    const problems: string[] = [];
+    const { hebrew, transliteration_key, standard_gematria, traditional_spelling, full_value_gematria, network_connections, island, color } = entry;
+
+    if (typeof hebrew !== 'string' || !HEBREW_LETTERS.includes(hebrew)) problems.push(`"${key}".hebrew must be one of the 22 letters א–ת`);
+    else if (standard_gematria !== standardGematria(hebrew)) problems.push(`"${key}".standard_gematria is ${standard_gematria}, but ${hebrew} is ${standardGematria(hebrew)}`);
+    if (transliteration_key !== key) problems.push(`"${key}".transliteration_key must equal its key`);
+
+    if (!isStringArray(traditional_spelling) || traditional_spelling.length === 0) {
+        problems.push(`"${key}".traditional_spelling must be a non-empty array of letter keys`);
+    } else {
+        traditional_spelling.filter(letter => !keys.has(letter)).forEach(letter => problems.push(`"${key}".traditional_spelling refers to unknown letter "${letter}"`));
+    }
+    if (typeof full_value_gematria !== 'number') problems.push(`"${key}".full_value_gematria must be a number`);
+
+    if (!isStringArray(network_connections)) problems.push(`"${key}".network_connections must be an array of letter keys`);
+    else network_connections.filter(letter => !keys.has(letter)).forEach(letter => problems.push(`"${key}".network_connections refers to unknown letter "${letter}"`));
+
+    if (typeof island !== 'string' || !island) problems.push(`"${key}".island must be a non-empty string`);
+    if (typeof color !== 'string' || !color) problems.push(`"${key}".color must be a non-empty string`);
+    return problems;
+};
+
+/**
+ * Checks the alphabet data and returns it typed: all 22 letters once each, every
+ * spelling and connection naming a letter key, standard values agreeing with the
+ * gematria engine and each full value equal to the standard value of its spelling.
+ * @throws Error listing every problem found.
+ */
+export const validateHebrewAlphabetData = (data: unknown): HebrewAlphabetData => {
+    if (!isRecord(data)) throw new Error('Invalid Hebrew alphabet data: expected an object of letters keyed by transliteration key.');
+    const keys = new Set(Object.keys(data));
+    const problems = Object.entries(data).flatMap(([key, entry]) => entryProblems(key, entry, keys));
+
+    if (problems.length === 0) {
+        const entries = Object.values(data) as HebrewAlphabetEntry[];
+        const hebrewOf = new Map(entries.map(entry => [entry.transliteration_key, entry.hebrew]));
+        entries.forEach(entry => {
+            const spelledValue = standardGematria(entry.traditional_spelling.map(letter => hebrewOf.get(letter)).join(''));
+            if (entry.full_value_gematria !== spelledValue) problems.push(`"${entry.transliteration_key}".full_value_gematria is ${entry.full_value_gematria}, but its spelling sums to ${spelledValue}`);
+        });
+        HEBREW_LETTERS.forEach(letter => {
+            const count = entries.filter(entry => entry.hebrew === letter).length;
+            if (count !== 1) problems.push(count === 0 ? `${letter} is missing` : `${letter} appears ${count} times`);
+        });
+    }
+
+    if (problems.length > 0) throw new Error(`Invalid Hebrew alphabet data:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    return data as HebrewAlphabetData;
+};
@@ -0,0 +1,54 @@
+import { EnglishCipherId } from '../../types';
+
+/**
+ * src/gematria/englishCiphers.ts
+ *
+ * The registry of English (Latin-alphabet) gematria and numerology ciphers.
+ * Each cipher values single letters a–z; anything else in the text counts 0.
+ */
+
+export interface EnglishCipher {
+    id: EnglishCipherId;
+    name: string;
+    description: string;
+    /** Values indexed by letter position, a = 0 … z = 25. */
+    values: number[];
+}
+
+const ALPHABET = 'abcdefghijklmnopqrstuvwxyz';
+
+const ordinals = Array.from({ length: 26 }, (_, i) => i + 1);
+const reduce = (value: number) => ((value - 1) % 9) + 1;
+
+const CHALDEAN_VALUES: Record<string, number> = {
+    a: 1, i: 1, j: 1, q: 1, y: 1, b: 2, k: 2, r: 2, c: 3, g: 3, l: 3, s: 3, d: 4, m: 4, t: 4,
+    e: 5, h: 5, n: 5, x: 5, u: 6, v: 6, w: 6, o: 7, z: 7, f: 8, p: 8,
+};
+
+/** Every cipher, in the order they are offered and compared. */
+export const ENGLISH_CIPHERS: EnglishCipher[] = [
+    { id: 'chaldean', name: 'Chaldean', description: 'Babylonian sound values 1–8; 9 is held sacred and never assigned.', values: Array.from(ALPHABET).map(letter => CHALDEAN_VALUES[letter]) },
+    { id: 'pythagorean', name: 'Pythagorean', description: 'A–I = 1–9, repeating from J and S (full reduction).', values: ordinals.map(reduce) },
+    { id: 'ordinal', name: 'English Ordinal', description: 'A = 1 … Z = 26.', values: ordinals },
+    { id: 'reverseOrdinal', name: 'Reverse Ordinal', description: 'Z = 1 … A = 26.', values: ordinals.map(value => 27 - value) },
+    { id: 'reverseReduced', name: 'Reverse Reduction', description: 'Reverse ordinal reduced to 1–9.', values: ordinals.map(value => reduce(27 - value)) },
+    { id: 'sumerian', name: 'Sumerian', description: 'English ordinal times six: A = 6 … Z = 156.', values: ordinals.map(value => value * 6) },
+];
+
+export const DEFAULT_ENGLISH_CIPHER: EnglishCipherId = 'chaldean';
+
+/** Looks a cipher up by id, ignoring case. */
+export const findEnglishCipher = (id: string): EnglishCipher | undefined =>
+    ENGLISH_CIPHERS.find(cipher => cipher.id.toLowerCase() === id.toLowerCase());
+
+export const calculateEnglishCipher = (text: string, id: EnglishCipherId): number => {
+    const cipher = findEnglishCipher(id) ?? findEnglishCipher(DEFAULT_ENGLISH_CIPHER)!;
+    return Array.from(text.toLowerCase()).reduce((sum, char) => {
+        const index = ALPHABET.indexOf(char);
+        return sum + (index >= 0 ? cipher.values[index] : 0);
+    }, 0);
+};
+
+/** The text's value under every cipher. */
+export const calculateAllEnglishCiphers = (text: string): Record<EnglishCipherId, number> =>
+    Object.fromEntries(ENGLISH_CIPHERS.map(cipher => [cipher.id, calculateEnglishCipher(text, cipher.id)])) as Record<EnglishCipherId, number>;
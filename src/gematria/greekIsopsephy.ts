@@ -0,0 +1,60 @@
+import { CartographerAnalysisResults, GreekIsopsephyValues, IsopsephyAnalysis } from '../../types';
+
+/**
+ * src/gematria/greekIsopsephy.ts
+ *
+ * The local Greek isopsephy engine. Text is normalized first: lowercased, with
+ * accents, breathings and iota subscripts removed and final sigma read as sigma.
+ *   standard   the Milesian numerals α=1 … ω=800, including the archaic
+ *              digamma/stigma (6), koppa (90) and sampi (900)
+ *   ordinal    α=1 … ω=24 in the classical alphabet; the archaic letters have no place in it and count 0
+ *   reduced    each letter's standard value without its zeros, so ι=1, ρ=1, ω=8
+ */
+
+/** The 24 letters of the classical alphabet, in order. */
+export const GREEK_LETTERS = ['α', 'β', 'γ', 'δ', 'ε', 'ζ', 'η', 'θ', 'ι', 'κ', 'λ', 'μ', 'ν', 'ξ', 'ο', 'π', 'ρ', 'σ', 'τ', 'υ', 'φ', 'χ', 'ψ', 'ω'];
+
+const GREEK_VALUES: Record<string, number> = {
+    'α': 1, 'β': 2, 'γ': 3, 'δ': 4, 'ε': 5, 'ϝ': 6, 'ϛ': 6, 'ζ': 7, 'η': 8, 'θ': 9,
+    'ι': 10, 'κ': 20, 'λ': 30, 'μ': 40, 'ν': 50, 'ξ': 60, 'ο': 70, 'π': 80, 'ϟ': 90, 'ϙ': 90,
+    'ρ': 100, 'σ': 200, 'τ': 300, 'υ': 400, 'φ': 500, 'χ': 600, 'ψ': 700, 'ω': 800, 'ϡ': 900, 'ͳ': 900,
+};
+
+const GREEK_CHARACTER = /[Ͱ-Ͽἀ-῿]/;
+
+/** True for any character of the Greek and Greek Extended blocks. */
+export const isGreekCharacter = (char: string): boolean => GREEK_CHARACTER.test(char);
+
+/** Lowercase, without accents, breathings or iota subscripts, and with final sigma as σ. */
+export const normalizeGreek = (text: string): string =>
+    text.normalize('NFD').replace(/[̀-ͯ]/g, '').toLowerCase().replace(/ς/g, 'σ').normalize('NFC');
+
+const sumLetters = (text: string, valueOf: (letter: string) => number): number =>
+    Array.from(normalizeGreek(text)).reduce((sum, letter) => sum + valueOf(letter), 0);
+
+export const isopsephy = (text: string): number => sumLetters(text, letter => GREEK_VALUES[letter] ?? 0);
+
+export const ordinalIsopsephy = (text: string): number => sumLetters(text, letter => GREEK_LETTERS.indexOf(letter) + 1);
+
+export const reducedIsopsephy = (text: string): number => sumLetters(text, letter => {
+    const value = GREEK_VALUES[letter] ?? 0;
+    return value >= 100 ? value / 100 : value >= 10 ? value / 10 : value;
+});
+
+/** Every method for one word or phrase. */
+export const computeIsopsephy = (text: string): GreekIsopsephyValues => ({
+    value: isopsephy(text),
+    ordinal: ordinalIsopsephy(text),
+    reduced: reducedIsopsephy(text),
+});
+
+/**
+ * Replaces the values in a cartographer's isopsephy analysis with the locally computed ones;
+ * only the words (and their meanings, when given) are kept from the model.
+ */
+export const withLocalIsopsephy = <T extends Pick<CartographerAnalysisResults, 'isopsephyAnalysis'>>(result: T): T => ({
+    ...result,
+    isopsephyAnalysis: result.isopsephyAnalysis?.map(({ word, englishMeaning }): IsopsephyAnalysis => ({
+        word, englishMeaning, ...computeIsopsephy(word),
+    })),
+});
@@ -0,0 +1,106 @@
+import { CartographerAnalysisResults, GematriaAnalysis, HebrewGematriaValues } from '../../types';
+import { extractHebrewLetters, HEBREW_FINAL_FORMS, HEBREW_LETTERS } from '../corpus/hebrewNormalizer';
+
+/**
+ * src/gematria/hebrewGematria.ts
+ *
+ * The local Hebrew gematria engine. Every method works on the Hebrew letters of
+ * its input only, as read by `src/corpus/hebrewNormalizer.ts`; niqqud,
+ * cantillation, spaces and punctuation are ignored.
+ *   standard (mispar hechrachi)  א=1 … ת=400, final forms as their regular forms
+ *   gadol (mispar gadol)         as standard, but ך ם ן ף ץ = 500 … 900
+ *   ordinal (mispar siduri)      א=1 … ת=22
+ *   reduced (mispar katan)       each letter's value without its zeros, so י=1, ק=1, ת=4
+ *   kolel                        standard plus one for each word
+ *   atbash, albam                letter substitutions, valued in standard
+ *   milui                        the standard value of each letter's name, spelled as the caller's alphabet network spells it
+ */
+
+export { HEBREW_FINAL_FORMS, HEBREW_LETTERS };
+
+const GADOL_FINAL_VALUES: Record<string, number> = { 'ך': 500, 'ם': 600, 'ן': 700, 'ף': 800, 'ץ': 900 };
+
+const ordinalOf = (letter: string): number => HEBREW_LETTERS.indexOf(HEBREW_FINAL_FORMS[letter] ?? letter) + 1;
+
+const standardOf = (letter: string): number => {
+    const ordinal = ordinalOf(letter);
+    if (ordinal <= 0) return 0;
+    // Units, then tens, then hundreds: א–ט, י–צ, ק–ת.
+    return ordinal <= 10 ? ordinal : ordinal <= 19 ? (ordinal - 9) * 10 : (ordinal - 18) * 100;
+};
+
+const sumLetters = (text: string, valueOf: (letter: string) => number): number =>
+    hebrewLettersOf(text).reduce((sum, letter) => sum + valueOf(letter), 0);
+
+// Substitutes each letter through a cipher, keeping a final form final where the substitute has one.
+const substitute = (text: string, cipher: (index: number) => number): string => hebrewLettersOf(text).map(letter => {
+    const regular = HEBREW_FINAL_FORMS[letter] ?? letter;
+    const replacement = HEBREW_LETTERS[cipher(HEBREW_LETTERS.indexOf(regular))];
+    const final = letter !== regular ? Object.keys(HEBREW_FINAL_FORMS).find(f => HEBREW_FINAL_FORMS[f] === replacement) : undefined;
+    return final ?? replacement;
+}).join('');
+
+/** The Hebrew letters of a text, in order, including final forms. */
+export const hebrewLettersOf = (text: string): string[] => extractHebrewLetters(text);
+
+export const standardGematria = (text: string): number => sumLetters(text, standardOf);
+
+export const gadolGematria = (text: string): number => sumLetters(text, letter => GADOL_FINAL_VALUES[letter] ?? standardOf(letter));
+
+export const ordinalGematria = (text: string): number => sumLetters(text, ordinalOf);
+
+export const reducedGematria = (text: string): number => sumLetters(text, letter => {
+    const value = standardOf(letter);
+    return value >= 100 ? value / 100 : value >= 10 ? value / 10 : value;
+});
+
+/** Standard plus one for each word (im hakolel). */
+export const kolelGematria = (text: string): number => {
+    const words = text.split(/[\s־]+/).filter(word => hebrewLettersOf(word).length > 0);
+    return standardGematria(text) + words.length;
+};
+
+/** א↔ת, ב↔ש, … */
+export const atbash = (text: string): string => substitute(text, index => HEBREW_LETTERS.length - 1 - index);
+
+/** א↔ל, ב↔מ, …: the first eleven letters swap with the last eleven. */
+export const albam = (text: string): string => substitute(text, index => (index + 11) % HEBREW_LETTERS.length);
+
+/** The letters that spell a letter's name, e.g. `letter => hebrewAlphabetNetwork.getNode(letter)?.spelling`. */
+export type LetterSpelling = (letter: string) => string[] | undefined;
+
+/** The letters' names spelled out and summed in standard gematria. A letter with no spelling counts as itself. */
+export const miluiGematria = (text: string, spellingOf: LetterSpelling): number =>
+    sumLetters(text, letter => {
+        const spelling = spellingOf(letter);
+        return spelling && spelling.length > 0 ? standardGematria(spelling.join('')) : standardOf(letter);
+    });
+
+/** Every method for one word or phrase; milui spells the letters with `spellingOf`. */
+export const computeHebrewGematria = (text: string, spellingOf: LetterSpelling): HebrewGematriaValues => {
+    const atbashWord = atbash(text);
+    const albamWord = albam(text);
+    return {
+        standard: standardGematria(text),
+        gadol: gadolGematria(text),
+        ordinal: ordinalGematria(text),
+        reduced: reducedGematria(text),
+        kolel: kolelGematria(text),
+        atbashWord,
+        atbashValue: standardGematria(atbashWord),
+        albamWord,
+        albamValue: standardGematria(albamWord),
+        milui: miluiGematria(text, spellingOf),
+    };
+};
+
+/**
+ * Replaces every value in a cartographer's gematria analysis with the locally computed ones;
+ * only the words, their meanings and transliterations are kept from the model.
+ */
+export const withLocalGematria = <T extends Pick<CartographerAnalysisResults, 'gematriaAnalysis'>>(result: T, spellingOf: LetterSpelling): T => ({
+    ...result,
+    gematriaAnalysis: result.gematriaAnalysis?.map(({ word, englishMeaning, transliteration }): GematriaAnalysis => ({
+        word, englishMeaning, transliteration, ...computeHebrewGematria(word, spellingOf),
+    })),
+});
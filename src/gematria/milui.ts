@@ -0,0 +1,96 @@
+import { MiluiExpansion, MiluiLevel, MiluiTreeNode } from '../../types';
+import { extractHebrewLetters } from '../corpus/hebrewNormalizer';
+
+/**
+ * src/gematria/milui.ts
+ *
+ * Recursive milui: a text's letters are spelled out as their names, the
+ * letters of those names are spelled out in turn, and so on to a depth. The
+ * levels are counted letter by letter rather than written out, so a deep
+ * expansion costs no more than a shallow one; only the tree is materialized,
+ * and only up to `MAX_MILUI_TREE_NODES`.
+ *
+ * Because a letter's name usually begins with the letter itself, each level
+ * contains the one before it and the gematria grows geometrically; the growth
+ * ratio settles on the dominant eigenvalue of the spelling table, which is
+ * where `convergedAt` marks the expansion as converged. It settles slowly when
+ * several letters share that eigenvalue (each self-spelling letter such as מם
+ * brings one), so many texts have not converged by `MAX_MILUI_DEPTH`.
+ */
+
+/** The deepest expansion offered, keeping every level's gematria an exact integer. */
+export const MAX_MILUI_DEPTH = 20;
+
+/** The most nodes a tree holds before its deeper levels are left out. */
+export const MAX_MILUI_TREE_NODES = 2000;
+
+/** How close, relatively, two successive growth ratios must be for the expansion to count as converged. */
+export const MILUI_CONVERGENCE_TOLERANCE = 1e-3;
+
+/** A letter's name, as its letters; final forms are spelled as their regular forms. */
+export type LetterSpeller = (letter: string) => string[];
+
+/**
+ * Spells a text out to a depth.
+ * @param spell - The name of each letter; a letter it cannot spell is kept as it is.
+ * @param valueOf - The gematria of each letter.
+ * @throws Error if the depth is not a whole number from 0 to `MAX_MILUI_DEPTH`.
+ */
+export const expandMilui = (text: string, depth: number, spell: LetterSpeller, valueOf: (letter: string) => number): MiluiExpansion => {
+    if (!Number.isInteger(depth) || depth < 0 || depth > MAX_MILUI_DEPTH) throw new Error(`The milui depth must be a whole number from 0 to ${MAX_MILUI_DEPTH}.`);
+    const letters = extractHebrewLetters(text, true);
+    const nameOf = (letter: string) => {
+        const name = spell(letter);
+        return name.length > 0 ? name : [letter];
+    };
+
+    const levels: MiluiLevel[] = [];
+    let counts = new Map<string, number>();
+    letters.forEach(letter => counts.set(letter, (counts.get(letter) ?? 0) + 1));
+    for (let d = 0; d <= depth; d++) {
+        if (d > 0) {
+            const next = new Map<string, number>();
+            counts.forEach((count, letter) => nameOf(letter).forEach(part => next.set(part, (next.get(part) ?? 0) + count)));
+            counts = next;
+        }
+        let letterCount = 0;
+        let gematria = 0;
+        counts.forEach((count, letter) => { letterCount += count; gematria += count * valueOf(letter); });
+        const previous = levels[d - 1];
+        levels.push({ depth: d, letterCount, gematria, growth: previous && previous.gematria > 0 ? gematria / previous.gematria : null });
+    }
+
+    // Converged from the first level after which no growth ratio moves from the one before it.
+    const steady = (d: number) => {
+        const [before, growth] = [levels[d - 1].growth, levels[d].growth];
+        return before !== null && growth !== null && Math.abs(growth - before) <= MILUI_CONVERGENCE_TOLERANCE * growth;
+    };
+    let convergedAt: number | null = null;
+    for (let d = depth; d >= 2 && steady(d); d--) convergedAt = d;
+
+    // The value of a letter spelled out a number of times, shared across the tree.
+    const expanded = new Map<string, number>();
+    const expandedValue = (letter: string, remaining: number): number => {
+        if (remaining === 0) return valueOf(letter);
+        const key = `${letter}${remaining}`;
+        if (!expanded.has(key)) expanded.set(key, nameOf(letter).reduce((sum, part) => sum + expandedValue(part, remaining - 1), 0));
+        return expanded.get(key)!;
+    };
+
+    // Built a level at a time, so the node limit cuts the tree at a depth rather than down one branch.
+    let nodeCount = letters.length;
+    let treeTruncated = false;
+    const tree: MiluiTreeNode[] = letters.map(letter => ({ letter, value: valueOf(letter), expandedValue: expandedValue(letter, depth), children: [] }));
+    let frontier = tree;
+    for (let d = 1; d <= depth && frontier.length > 0; d++) {
+        const size = frontier.reduce((sum, node) => sum + nameOf(node.letter).length, 0);
+        if (nodeCount + size > MAX_MILUI_TREE_NODES) { treeTruncated = true; break; }
+        nodeCount += size;
+        frontier = frontier.flatMap(node => {
+            node.children = nameOf(node.letter).map(letter => ({ letter, value: valueOf(letter), expandedValue: expandedValue(letter, depth - d), children: [] }));
+            return node.children;
+        });
+    }
+
+    return { text, depth, levels, tree, treeTruncated, convergedAt };
+};
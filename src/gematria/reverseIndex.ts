@@ -0,0 +1,106 @@
+import { GematriaIndexEntry, GematriaLookupFilter, GematriaSystem } from '../../types';
+import { BookIndex } from '../corpus/verseIndex';
+import { hebrewLettersOf, standardGematria } from './hebrewGematria';
+import { isGreekCharacter, isopsephy, normalizeGreek } from './greekIsopsephy';
+import { calculateEnglishCipher } from './englishCiphers';
+
+/**
+ * src/gematria/reverseIndex.ts
+ *
+ * The reverse gematria index: from a value to every word, and every run of
+ * consecutive words within a verse up to `MAX_PHRASE_WORDS`, that has it.
+ * Each word is valued by its script: Hebrew in standard gematria, Greek in
+ * isopsephy, Latin letters in Chaldean. A phrase is indexed only when all of
+ * its words share a script.
+ */
+
+/** The longest phrase indexed, in words. */
+export const MAX_PHRASE_WORDS = 2;
+
+/** How many locations each entry keeps; `occurrences` still counts them all. */
+export const MAX_ENTRY_LOCATIONS = 12;
+
+export interface GematriaIndex {
+    byValue: Map<number, GematriaIndexEntry[]>;
+    entryCount: number;
+}
+
+interface IndexedWord {
+    text: string;
+    /** The letters that are valued, normalized so that spellings differing only in pointing, accents or case share an entry. */
+    key: string;
+    system: GematriaSystem;
+    value: number;
+}
+
+const LETTER_PATTERN = /\p{L}/u;
+
+const indexWord = (text: string): IndexedWord | null => {
+    const hebrew = hebrewLettersOf(text);
+    if (hebrew.length > 0) {
+        const key = hebrew.join('');
+        return { text, key, system: 'hebrew', value: standardGematria(key) };
+    }
+    if (Array.from(text).some(isGreekCharacter)) {
+        const key = Array.from(normalizeGreek(text)).filter(char => LETTER_PATTERN.test(char)).join('');
+        return { text, key, system: 'greek', value: isopsephy(key) };
+    }
+    const key = text.toLowerCase().replace(/[^a-z]/g, '');
+    return key ? { text, key, system: 'english', value: calculateEnglishCipher(key, 'chaldean') } : null;
+};
+
+// The words of each verse of a book, in order; words are joined by single spaces in the book text.
+const versesOf = (index: BookIndex) => index.spans.map(span => ({
+    span,
+    words: span.wordStarts.map((start, w) => index.text.slice(start, w + 1 < span.wordStarts.length ? span.wordStarts[w + 1] - 1 : span.end)),
+}));
+
+/**
+ * Indexes every word and phrase of every book of every corpus.
+ * @param corpora - Corpus name → book name → book index, as built by `AstrianEngine.initializeCorpora`.
+ */
+export const buildGematriaIndex = (corpora: Record<string, Record<string, BookIndex>>): GematriaIndex => {
+    const entries = new Map<string, GematriaIndexEntry>();
+    Object.entries(corpora).forEach(([corpus, books]) => Object.entries(books).forEach(([book, bookIndex]) => {
+        versesOf(bookIndex).forEach(({ span, words }) => {
+            const indexed = words.map(indexWord);
+            indexed.forEach((first, w) => {
+                if (!first) return;
+                let key = first.key;
+                let text = first.text;
+                let value = first.value;
+                for (let length = 1; length <= MAX_PHRASE_WORDS && w + length <= indexed.length; length++) {
+                    if (length > 1) {
+                        const next = indexed[w + length - 1];
+                        if (!next || next.system !== first.system) break;
+                        key += ' ' + next.key;
+                        text += ' ' + next.text;
+                        value += next.value;
+                    }
+                    if (value <= 0) continue;
+                    const id = `${corpus}\u0000${first.system}\u0000${key}`;
+                    let entry = entries.get(id);
+                    if (!entry) {
+                        entry = { text, system: first.system, value, corpus, wordCount: length, occurrences: 0, locations: [] };
+                        entries.set(id, entry);
+                    }
+                    entry.occurrences++;
+                    if (entry.locations.length < MAX_ENTRY_LOCATIONS) entry.locations.push({ book, chapter: span.chapter, verse: span.verse, word: w + 1 });
+                }
+            });
+        });
+    }));
+
+    const byValue = new Map<number, GematriaIndexEntry[]>();
+    entries.forEach(entry => {
+        const list = byValue.get(entry.value);
+        if (list) list.push(entry); else byValue.set(entry.value, [entry]);
+    });
+    return { byValue, entryCount: entries.size };
+};
+
+/** The words and phrases with a value: single words first, then the most frequent. */
+export const lookupGematria = (index: GematriaIndex, value: number, filter: GematriaLookupFilter = {}): GematriaIndexEntry[] =>
+    (index.byValue.get(value) ?? [])
+        .filter(entry => (!filter.system || entry.system === filter.system) && (!filter.corpus || entry.corpus === filter.corpus))
+        .sort((a, b) => a.wordCount - b.wordCount || b.occurrences - a.occurrences);
@@ -0,0 +1,75 @@
+import { DeepELSAnalysisResult, IntegrityClaimKind, IntegrityDiscrepancy, IntegrityReport } from '../../types';
+import { normalizeElsLetter } from '../els/letters';
+
+/**
+ * src/integrity/mathematicalIntegrity.ts
+ *
+ * The Mathematical Integrity Check. Every number a model response claims that
+ * can be recomputed locally is recomputed: the word and skip of each ELS in
+ * `deepElsAnalysis`, against the letters of its own grid. Gematria and
+ * isopsephy values are never the model's (see `withLocalGematria` and
+ * `withLocalIsopsephy`), so they are not checked. Mismatches are corrected in
+ * the returned result and listed in its `integrity` report.
+ */
+
+const LETTER_PATTERN = /\p{L}/u;
+
+const lettersOf = (text: string): string => Array.from(text).filter(char => LETTER_PATTERN.test(char)).map(normalizeElsLetter).join('');
+
+interface Claims {
+    checked: Record<IntegrityClaimKind, number>;
+    discrepancies: IntegrityDiscrepancy[];
+}
+
+// Reads each ELS off its grid: the letters on its path must spell the word, evenly spaced by the skip.
+const checkEls = (analysis: DeepELSAnalysisResult, claims: Claims) => {
+    const rows = analysis.textGrid?.text?.split('\n') ?? [];
+    const width = Math.max(0, ...rows.map(row => row.length));
+    (analysis.elsAnalysis ?? []).forEach((result, i) => {
+        if (!Array.isArray(result.path) || result.path.length === 0) return;
+        const path = `deepElsAnalysis.elsAnalysis.${i}`;
+        const letters = result.path.map(p => rows[p.row]?.[p.col]);
+        claims.checked.els += 2;
+        if (letters.some(letter => letter === undefined)) {
+            claims.discrepancies.push({ kind: 'els', path: `${path}.path`, subject: result.word, claimed: result.word, corrected: null, reason: `The path of ${result.word} runs outside its grid, so it cannot be verified.` });
+            return;
+        }
+
+        const spelled = letters.join('');
+        if (lettersOf(spelled) !== lettersOf(result.word)) {
+            claims.discrepancies.push({ kind: 'els', path: `${path}.word`, subject: result.word, claimed: result.word, corrected: spelled, reason: `The grid letters on this path spell ${spelled}, not ${result.word}.` });
+            result.word = spelled;
+        }
+
+        const positions = result.path.map(p => p.row * width + p.col);
+        const steps = positions.slice(1).map((position, k) => Math.abs(position - positions[k]));
+        if (steps.length === 0) return;
+        if (steps.some(step => step !== steps[0])) {
+            claims.discrepancies.push({ kind: 'els', path: `${path}.skip`, subject: result.word, claimed: result.skip, corrected: null, reason: `The letters of ${result.word} are not evenly spaced in its grid (steps ${steps.join(', ')}).` });
+        } else if (steps[0] !== result.skip) {
+            claims.discrepancies.push({ kind: 'els', path: `${path}.skip`, subject: result.word, claimed: result.skip, corrected: steps[0], reason: `The letters of ${result.word} are ${steps[0]} apart in its grid, not ${result.skip}.` });
+            result.skip = steps[0];
+        }
+    });
+};
+
+/**
+ * Recomputes every checkable number in a model response.
+ * @returns A copy of the result with mismatched values corrected and an `integrity` report attached,
+ * or the response unchanged if it holds nothing to check.
+ */
+export const verifyModelResult = <T>(response: T): { result: T, report: IntegrityReport | null } => {
+    if (!response || typeof response !== 'object') return { result: response, report: null };
+    const result: any = structuredClone(response);
+    const claims: Claims = { checked: { els: 0 }, discrepancies: [] };
+    if (result.deepElsAnalysis) checkEls(result.deepElsAnalysis, claims);
+    if (Object.values(claims.checked).every(count => count === 0)) return { result: response, report: null };
+
+    const report: IntegrityReport = { checked: claims.checked, discrepancies: claims.discrepancies };
+    result.integrity = report;
+    return { result, report };
+};
+
+/** The discrepancy recorded for one claim of a checked result, if any. */
+export const findDiscrepancy = (report: IntegrityReport | undefined, path: string): IntegrityDiscrepancy | undefined =>
+    report?.discrepancies.find(discrepancy => discrepancy.path === path);
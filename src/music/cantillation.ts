@@ -0,0 +1,184 @@
+import { normalizeHebrew } from '../corpus/hebrewNormalizer';
+
+/**
+ * src/music/cantillation.ts
+ *
+ * The cantillation engine: reads the ta'amim of pointed Hebrew text word by word
+ * and sings each word's ta'am as a short motif from a tradition table. A word
+ * carrying several marks is sung on its disjunctive (pausal) one; a word with
+ * none, such as the first half of a maqaf pair, is sung on the reciting tone;
+ * the word before sof pasuq (׃) takes the silluq cadence.
+ *
+ * Motifs are written in scale degrees of the tradition's mode (0 is the tonic,
+ * 7 the octave above in a seven-note mode) and in beats, so a tradition is just
+ * a tonic, a mode, a tempo and a table of motifs; see `CANTILLATION_TRADITIONS`.
+ */
+
+export type TaamName =
+    | 'etnahta' | 'segol' | 'shalshelet' | 'zaqefQatan' | 'zaqefGadol' | 'tipeha' | 'revia' | 'zarqa' | 'pashta' | 'yetiv'
+    | 'tevir' | 'geresh' | 'gereshMuqdam' | 'gershayim' | 'qarneyPara' | 'telishaGedola' | 'pazer' | 'atnahHafukh' | 'munah'
+    | 'mahapakh' | 'merkha' | 'merkhaKefula' | 'darga' | 'qadma' | 'telishaQetana' | 'yerahBenYomo' | 'ole' | 'iluy' | 'dehi'
+    | 'zinor' | 'sofPasuq' | 'reciting';
+
+/** One motif: [scale degree, beats] per note. */
+export type CantillationMotif = [number, number][];
+
+export interface CantillationTradition {
+    id: string;
+    name: string;
+    /** Frequency of scale degree 0, in Hz. */
+    tonic: number;
+    /** Semitones above the tonic of each degree of the mode; fractions give microtones. */
+    mode: number[];
+    /** Length of one beat, in seconds. */
+    beat: number;
+    /** A ta'am missing from the table is sung on the reciting tone. */
+    motifs: Partial<Record<TaamName, CantillationMotif>> & { reciting: CantillationMotif };
+}
+
+export interface ChantWord {
+    /** The word's consonants. */
+    word: string;
+    taam: TaamName;
+}
+
+export interface ChantNote {
+    frequency: number;
+    /** In seconds. */
+    duration: number;
+}
+
+export interface ChantMelody {
+    tradition: CantillationTradition;
+    notes: ChantNote[];
+    /** Each word with the notes it is sung on: `notes[firstNote]` onwards, `noteCount` of them. */
+    words: (ChantWord & { firstNote: number, noteCount: number })[];
+}
+
+/** The ta'amim by code point, U+0591–U+05AE. */
+export const TAAMIM: Record<string, TaamName> = {
+    '\u0591': 'etnahta', '\u0592': 'segol', '\u0593': 'shalshelet', '\u0594': 'zaqefQatan', '\u0595': 'zaqefGadol',
+    '\u0596': 'tipeha', '\u0597': 'revia', '\u0598': 'zarqa', '\u0599': 'pashta', '\u059A': 'yetiv', '\u059B': 'tevir',
+    '\u059C': 'geresh', '\u059D': 'gereshMuqdam', '\u059E': 'gershayim', '\u059F': 'qarneyPara', '\u05A0': 'telishaGedola',
+    '\u05A1': 'pazer', '\u05A2': 'atnahHafukh', '\u05A3': 'munah', '\u05A4': 'mahapakh', '\u05A5': 'merkha',
+    '\u05A6': 'merkhaKefula', '\u05A7': 'darga', '\u05A8': 'qadma', '\u05A9': 'telishaQetana', '\u05AA': 'yerahBenYomo',
+    '\u05AB': 'ole', '\u05AC': 'iluy', '\u05AD': 'dehi', '\u05AE': 'zinor',
+};
+
+const SOF_PASUQ = '\u05C3';
+
+// The conjunctive (connecting) ta'amim; any other mark on a word takes precedence over them.
+const CONJUNCTIVES = new Set<TaamName>(['munah', 'mahapakh', 'merkha', 'merkhaKefula', 'darga', 'qadma', 'telishaQetana', 'yerahBenYomo', 'iluy']);
+
+/** The most words `parseCantillation` reads, so a long passage still renders a playable melody. */
+export const MAX_CHANT_WORDS = 120;
+
+// A simplified Ashkenazi Torah reading in the major mode, after the common learning editions.
+const ASHKENAZI_MOTIFS: CantillationTradition['motifs'] = {
+    sofPasuq: [[2, 1], [1, 1], [0, 3]],
+    etnahta: [[2, 1], [1, 1], [2, 2]],
+    segol: [[4, 1], [5, 1], [4, 1], [3, 2]],
+    shalshelet: [[4, 0.5], [5, 0.5], [4, 0.5], [5, 0.5], [4, 0.5], [5, 0.5], [3, 2]],
+    zaqefQatan: [[4, 1], [2, 2]],
+    zaqefGadol: [[4, 1], [5, 1], [2, 2]],
+    tipeha: [[2, 1], [1, 2]],
+    revia: [[4, 1], [5, 1], [4, 2]],
+    zarqa: [[4, 0.5], [5, 0.5], [4, 0.5], [3, 0.5], [4, 2]],
+    pashta: [[4, 1], [3, 1], [4, 2]],
+    yetiv: [[3, 1], [4, 2]],
+    tevir: [[2, 1], [1, 1], [0, 1], [1, 2]],
+    geresh: [[4, 1], [5, 2]],
+    gereshMuqdam: [[4, 1], [5, 2]],
+    gershayim: [[4, 1], [5, 1], [6, 2]],
+    qarneyPara: [[5, 1], [6, 1], [7, 1], [6, 1], [5, 2]],
+    telishaGedola: [[5, 1], [4, 1], [3, 2]],
+    pazer: [[5, 1], [6, 1], [5, 1], [4, 1], [3, 2]],
+    atnahHafukh: [[2, 1], [3, 2]],
+    munah: [[3, 1]],
+    mahapakh: [[3, 1], [4, 1]],
+    merkha: [[2, 1], [3, 1]],
+    merkhaKefula: [[3, 0.5], [2, 0.5], [3, 1]],
+    darga: [[3, 0.5], [2, 0.5], [1, 0.5], [2, 1]],
+    qadma: [[3, 1], [4, 1]],
+    telishaQetana: [[3, 1], [4, 1], [5, 1]],
+    yerahBenYomo: [[3, 1], [2, 1]],
+    ole: [[4, 1], [5, 1]],
+    iluy: [[4, 1]],
+    dehi: [[2, 1], [1, 2]],
+    zinor: [[4, 0.5], [5, 0.5], [4, 1]],
+    reciting: [[3, 1]],
+};
+
+/** The built-in traditions; pass any other `CantillationTradition` to `renderChant` to sing in it. */
+export const CANTILLATION_TRADITIONS: CantillationTradition[] = [
+    { id: 'ashkenazi', name: 'Ashkenazi (Torah)', tonic: 196, mode: [0, 2, 4, 5, 7, 9, 11], beat: 0.3, motifs: ASHKENAZI_MOTIFS },
+    {
+        id: 'sephardi', name: 'Sephardi (Jerusalem)', tonic: 220, mode: [0, 1.5, 3, 5, 7, 8, 10], beat: 0.32,
+        motifs: {
+            ...ASHKENAZI_MOTIFS,
+            sofPasuq: [[3, 1], [2, 1], [1, 1], [0, 3]],
+            etnahta: [[3, 1], [2, 1], [1, 2]],
+            zaqefQatan: [[4, 1], [3, 1], [2, 2]],
+            tipeha: [[3, 1], [2, 1], [1, 2]],
+            reciting: [[2, 1]],
+        },
+    },
+    {
+        id: 'yemenite', name: 'Yemenite', tonic: 174.6, mode: [0, 2, 3, 5, 7, 8, 10], beat: 0.26,
+        motifs: {
+            sofPasuq: [[1, 1], [0, 2]],
+            etnahta: [[2, 1], [1, 2]],
+            zaqefQatan: [[3, 1], [2, 1]],
+            zaqefGadol: [[3, 1], [2, 1]],
+            tipeha: [[1, 1], [2, 1]],
+            reciting: [[2, 1]],
+        },
+    },
+];
+
+export const DEFAULT_CANTILLATION_TRADITION = 'ashkenazi';
+
+/** Genesis 1:1 with its niqqud and ta'amim, for chanting when no pointed text is at hand (the corpora are unpointed). */
+export const SAMPLE_CANTILLATION_TEXT = 'בְּרֵאשִׁ֖ית בָּרָ֣א אֱלֹהִ֑ים אֵ֥ת הַשָּׁמַ֖יִם וְאֵ֥ת הָאָֽרֶץ׃';
+
+export const findCantillationTradition = (id: string): CantillationTradition | undefined =>
+    CANTILLATION_TRADITIONS.find(tradition => tradition.id === id);
+
+/** True if the text carries any ta'amim, so that it can be chanted. */
+export const hasCantillation = (text: string): boolean => Array.from(text).some(char => TAAMIM[char] !== undefined);
+
+/** The words of a pointed text, up to `MAX_CHANT_WORDS`, each with the ta'am it is sung on. */
+export const parseCantillation = (text: string): ChantWord[] => {
+    const words: ChantWord[] = [];
+    for (const raw of text.split(/[\s־]+/)) {
+        if (words.length >= MAX_CHANT_WORDS) break;
+        const word = normalizeHebrew(raw);
+        if (!word) {
+            // A sof pasuq standing apart still closes the verse on the word before it.
+            if (raw.includes(SOF_PASUQ) && words.length > 0) words[words.length - 1].taam = 'sofPasuq';
+            continue;
+        }
+        const marks = Array.from(raw).map(char => TAAMIM[char]).filter((taam): taam is TaamName => taam !== undefined);
+        const taam = raw.includes(SOF_PASUQ) ? 'sofPasuq' : marks.find(mark => !CONJUNCTIVES.has(mark)) ?? marks[0] ?? 'reciting';
+        words.push({ word, taam });
+    }
+    return words;
+};
+
+const frequencyOf = (tradition: CantillationTradition, degree: number): number => {
+    const octave = Math.floor(degree / tradition.mode.length);
+    const step = degree - octave * tradition.mode.length;
+    return tradition.tonic * Math.pow(2, octave + tradition.mode[step] / 12);
+};
+
+/** Sings each word's motif in a tradition, one after another. */
+export const renderChant = (words: ChantWord[], tradition: CantillationTradition): ChantMelody => {
+    const notes: ChantNote[] = [];
+    const sung = words.map(word => {
+        const motif = tradition.motifs[word.taam] ?? tradition.motifs.reciting;
+        const firstNote = notes.length;
+        motif.forEach(([degree, beats]) => notes.push({ frequency: frequencyOf(tradition, degree), duration: beats * tradition.beat }));
+        return { ...word, firstNote, noteCount: motif.length };
+    });
+    return { tradition, notes, words: sung };
+};
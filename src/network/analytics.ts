@@ -0,0 +1,240 @@
+import { NetworkAnalysis, NetworkIsland, NetworkLetterMetrics } from '../../types';
+import { HebrewLetterNode } from '../dataModels';
+
+/**
+ * src/network/analytics.ts
+ *
+ * Graph analytics over the spelling edges of the Hebrew alphabet network: a
+ * letter points to every other letter of its name (א → ל, פ for אלף), and to
+ * itself when its name repeats it (מם). Everything here is derived from the
+ * spellings alone, so a different spelling tradition or data file yields its
+ * own loops, hubs, islands and tiers.
+ *   loops    strongly connected components that contain a cycle
+ *   islands  each loop with the letters whose spelling reaches it first (fewest
+ *            steps, then the earliest edge); letters reaching no loop are "Isolated"
+ *   tiers    islands ranked by gematria, highest first
+ *   hubs     letters at twice the mean in-degree and twice the mean betweenness:
+ *            many names contain them, and many shortest spelling paths pass through them
+ */
+
+/** The most cycles `analyzeNetwork` enumerates, for networks imported from elsewhere that are far denser than the alphabet. */
+export const MAX_CYCLES = 1000;
+
+/** How far above the network's mean both a letter's in-degree and its betweenness must be for it to be a hub. */
+export const HUB_FACTOR = 2;
+
+export const ISOLATED_ISLAND = 'Isolated';
+
+type Adjacency = Map<string, string[]>;
+
+// Edges to the other letters of each name, in spelling order, once each.
+const spellingEdges = (nodes: Map<string, HebrewLetterNode>): Adjacency => new Map(Array.from(nodes.values()).map(node =>
+    [node.letter, Array.from(new Set(node.spelling.slice(1))).filter(letter => letter !== node.letter && nodes.has(letter))]));
+
+const findSelfLoops = (nodes: Map<string, HebrewLetterNode>): string[] =>
+    Array.from(nodes.values()).filter(node => node.spelling.slice(1).includes(node.letter)).map(node => node.letter);
+
+// Tarjan's algorithm, iteratively, so a long imported chain cannot overflow the stack.
+const stronglyConnected = (letters: string[], edges: Adjacency): string[][] => {
+    const index = new Map<string, number>();
+    const low = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    letters.forEach(root => {
+        if (index.has(root)) return;
+        const work: [string, number][] = [[root, 0]];
+        while (work.length > 0) {
+            const frame = work[work.length - 1];
+            const [letter, next] = frame;
+            if (next === 0) {
+                index.set(letter, index.size);
+                low.set(letter, index.get(letter)!);
+                stack.push(letter);
+                onStack.add(letter);
+            }
+            const targets = edges.get(letter)!;
+            if (next < targets.length) {
+                frame[1]++;
+                const target = targets[next];
+                if (!index.has(target)) work.push([target, 0]);
+                else if (onStack.has(target)) low.set(letter, Math.min(low.get(letter)!, index.get(target)!));
+                continue;
+            }
+            work.pop();
+            if (work.length > 0) {
+                const parent = work[work.length - 1][0];
+                low.set(parent, Math.min(low.get(parent)!, low.get(letter)!));
+            }
+            if (low.get(letter) === index.get(letter)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== letter);
+                components.push(component.sort((a, b) => letters.indexOf(a) - letters.indexOf(b)));
+            }
+        }
+    });
+    return components.sort((a, b) => letters.indexOf(a[0]) - letters.indexOf(b[0]));
+};
+
+const weaklyConnected = (letters: string[], edges: Adjacency): string[][] => {
+    const neighbours = new Map(letters.map(letter => [letter, new Set<string>()]));
+    edges.forEach((targets, letter) => targets.forEach(target => {
+        neighbours.get(letter)!.add(target);
+        neighbours.get(target)!.add(letter);
+    }));
+    const seen = new Set<string>();
+    const components: string[][] = [];
+    letters.forEach(start => {
+        if (seen.has(start)) return;
+        const component: string[] = [];
+        const pending = [start];
+        seen.add(start);
+        while (pending.length > 0) {
+            const letter = pending.pop()!;
+            component.push(letter);
+            neighbours.get(letter)!.forEach(next => {
+                if (!seen.has(next)) { seen.add(next); pending.push(next); }
+            });
+        }
+        components.push(component.sort((a, b) => letters.indexOf(a) - letters.indexOf(b)));
+    });
+    return components;
+};
+
+// Every elementary cycle within one strongly connected component, each found once from its earliest letter.
+const componentCycles = (component: string[], edges: Adjacency, limit: number): string[][] => {
+    const cycles: string[][] = [];
+    component.forEach((start, s) => {
+        const allowed = new Set(component.slice(s));
+        const path = [start];
+        const onPath = new Set(path);
+        const walk = (letter: string) => {
+            for (const next of edges.get(letter)!) {
+                if (cycles.length >= limit) return;
+                if (next === start) cycles.push([...path]);
+                else if (allowed.has(next) && !onPath.has(next)) {
+                    path.push(next);
+                    onPath.add(next);
+                    walk(next);
+                    path.pop();
+                    onPath.delete(next);
+                }
+            }
+        };
+        walk(start);
+    });
+    return cycles;
+};
+
+// Brandes' algorithm over the directed, unweighted spelling edges, normalized by (n - 1)(n - 2).
+const betweennessCentrality = (letters: string[], edges: Adjacency): Map<string, number> => {
+    const centrality = new Map(letters.map(letter => [letter, 0]));
+    letters.forEach(source => {
+        const order: string[] = [];
+        const predecessors = new Map(letters.map(letter => [letter, [] as string[]]));
+        const paths = new Map(letters.map(letter => [letter, 0]));
+        const distance = new Map<string, number>([[source, 0]]);
+        paths.set(source, 1);
+        const queue = [source];
+        for (let head = 0; head < queue.length; head++) {
+            const letter = queue[head];
+            order.push(letter);
+            edges.get(letter)!.forEach(next => {
+                if (!distance.has(next)) { distance.set(next, distance.get(letter)! + 1); queue.push(next); }
+                if (distance.get(next) === distance.get(letter)! + 1) {
+                    paths.set(next, paths.get(next)! + paths.get(letter)!);
+                    predecessors.get(next)!.push(letter);
+                }
+            });
+        }
+        const dependency = new Map(letters.map(letter => [letter, 0]));
+        order.reverse().forEach(letter => {
+            predecessors.get(letter)!.forEach(previous => dependency.set(previous,
+                dependency.get(previous)! + paths.get(previous)! / paths.get(letter)! * (1 + dependency.get(letter)!)));
+            if (letter !== source) centrality.set(letter, centrality.get(letter)! + dependency.get(letter)!);
+        });
+    });
+    const scale = letters.length > 2 ? 1 / ((letters.length - 1) * (letters.length - 2)) : 0;
+    centrality.forEach((value, letter) => centrality.set(letter, value * scale));
+    return centrality;
+};
+
+const islandName = (loop: string[], nodes: Map<string, HebrewLetterNode>): string =>
+    loop.map(letter => {
+        const phonetic = nodes.get(letter)!.phonetic;
+        return phonetic ? phonetic.charAt(0).toUpperCase() + phonetic.slice(1) : letter;
+    }).join('-');
+
+// Each letter joins the loop its spelling reaches in the fewest steps; a breadth-first walk meets the earliest edge first.
+const deriveIslands = (letters: string[], edges: Adjacency, loops: string[][], nodes: Map<string, HebrewLetterNode>): NetworkIsland[] => {
+    const loopOf = new Map<string, number>();
+    loops.forEach((loop, i) => loop.forEach(letter => loopOf.set(letter, i)));
+    const members: string[][] = loops.map(loop => [...loop]);
+    const isolated: string[] = [];
+    letters.filter(letter => !loopOf.has(letter)).forEach(letter => {
+        const seen = new Set([letter]);
+        const queue = [letter];
+        let found: number | undefined;
+        for (let head = 0; head < queue.length && found === undefined; head++) {
+            for (const next of edges.get(queue[head])!) {
+                if (seen.has(next)) continue;
+                if (loopOf.has(next)) { found = loopOf.get(next); break; }
+                seen.add(next);
+                queue.push(next);
+            }
+        }
+        if (found === undefined) isolated.push(letter); else members[found].push(letter);
+    });
+
+    const gematriaOf = (group: string[]) => group.reduce((sum, letter) => sum + nodes.get(letter)!.gematria, 0);
+    const islands = loops.map((loop, i) => ({ name: islandName(loop, nodes), loop, letters: members[i], gematria: gematriaOf(members[i]), tier: 0 }));
+    if (isolated.length > 0) islands.push({ name: ISOLATED_ISLAND, loop: [], letters: isolated, gematria: gematriaOf(isolated), tier: 0 });
+    [...islands].sort((a, b) => b.gematria - a.gematria).forEach((island, i) => island.tier = i + 1);
+    islands.forEach(island => island.letters.sort((a, b) => letters.indexOf(a) - letters.indexOf(b)));
+    return islands;
+};
+
+/**
+ * Computes components, cycles, centrality, hubs and islands of a network's spelling edges.
+ * @param nodes - The network's letters, as returned by `HebrewAlphabetNetwork.getAllNodes`; their order is the network's order.
+ */
+export const analyzeNetwork = (nodes: Map<string, HebrewLetterNode>): NetworkAnalysis => {
+    const letters = Array.from(nodes.keys());
+    const edges = spellingEdges(nodes);
+    const selfLoops = findSelfLoops(nodes);
+
+    const stronglyConnectedComponents = stronglyConnected(letters, edges);
+    const loops = stronglyConnectedComponents.filter(component => component.length > 1 || selfLoops.includes(component[0]));
+    const cycles: string[][] = [];
+    loops.filter(loop => loop.length > 1).forEach(loop => cycles.push(...componentCycles(loop, edges, MAX_CYCLES - cycles.length)));
+
+    const centrality = betweennessCentrality(letters, edges);
+    const inDegree = new Map(letters.map(letter => [letter, 0]));
+    edges.forEach(targets => targets.forEach(target => inDegree.set(target, inDegree.get(target)! + 1)));
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / Math.max(values.length, 1);
+    const meanBetweenness = mean(Array.from(centrality.values()));
+    const meanInDegree = mean(Array.from(inDegree.values()));
+
+    const metrics: NetworkLetterMetrics[] = letters.map(letter => ({
+        letter,
+        inDegree: inDegree.get(letter)!,
+        outDegree: edges.get(letter)!.length,
+        betweenness: centrality.get(letter)!,
+        isHub: meanBetweenness > 0 && centrality.get(letter)! >= HUB_FACTOR * meanBetweenness && inDegree.get(letter)! >= HUB_FACTOR * meanInDegree,
+    }));
+
+    return {
+        stronglyConnected: stronglyConnectedComponents,
+        weaklyConnected: weaklyConnected(letters, edges),
+        cycles,
+        selfLoops,
+        metrics,
+        hubs: metrics.filter(metric => metric.isHub).map(metric => metric.letter),
+        islands: deriveIslands(letters, edges, loops, nodes),
+    };
+};
@@ -0,0 +1,67 @@
+import { NetworkAnalysis } from '../../types';
+import { HebrewLetterNode } from '../dataModels';
+
+/**
+ * src/network/layout.ts
+ *
+ * A radial layout of the alphabet network for drawing. Each island takes a
+ * sector of the circle in proportion to its size, with its loop on an inner
+ * ring and the letters that drain into the loop on an outer ring, so the
+ * direction of the spelling edges reads from the outside in.
+ */
+
+export interface NetworkPoint {
+    x: number;
+    y: number;
+}
+
+export interface NetworkLayout {
+    /** Width and height of the square the layout fills. */
+    size: number;
+    positions: Map<string, NetworkPoint>;
+    /** Spelling edges between different letters; self-loops are in `NetworkAnalysis.selfLoops`. */
+    edges: { from: string, to: string }[];
+    /** Where each island's name is drawn, just outside its sector. */
+    islandLabels: (NetworkPoint & { name: string })[];
+}
+
+const INNER_RING = 0.2;
+const OUTER_RING = 0.38;
+const LABEL_RING = 0.47;
+
+const polar = (size: number, ring: number, angle: number): NetworkPoint => ({
+    x: size / 2 + Math.cos(angle) * ring * size,
+    y: size / 2 + Math.sin(angle) * ring * size,
+});
+
+// Spreads points evenly across a sector, away from its edges.
+const spread = (count: number, start: number, width: number): number[] =>
+    Array.from({ length: count }, (_, i) => start + width * (i + 0.5) / count);
+
+/**
+ * Lays the network out in a square.
+ * @param nodes - The network's letters, as returned by `HebrewAlphabetNetwork.getAllNodes`.
+ * @param analysis - The network's analysis, for its islands.
+ */
+export const layoutNetwork = (nodes: Map<string, HebrewLetterNode>, analysis: NetworkAnalysis, size = 600): NetworkLayout => {
+    const positions = new Map<string, NetworkPoint>();
+    const islandLabels: NetworkLayout['islandLabels'] = [];
+    // One empty slot between islands keeps their sectors apart.
+    const slots = analysis.islands.reduce((sum, island) => sum + island.letters.length + 1, 0);
+    let angle = -Math.PI / 2;
+    analysis.islands.forEach(island => {
+        const width = 2 * Math.PI * (island.letters.length + 1) / slots;
+        const start = angle + width / (2 * (island.letters.length + 1));
+        const sector = width - width / (island.letters.length + 1);
+        const tributaries = island.letters.filter(letter => !island.loop.includes(letter));
+        spread(island.loop.length, start, sector).forEach((a, i) => positions.set(island.loop[i], polar(size, INNER_RING, a)));
+        spread(tributaries.length, start, sector).forEach((a, i) => positions.set(tributaries[i], polar(size, OUTER_RING, a)));
+        islandLabels.push({ name: island.name, ...polar(size, LABEL_RING, start + sector / 2) });
+        angle += width;
+    });
+
+    const edges = Array.from(nodes.values()).flatMap(node => Array.from(new Set(node.spelling.slice(1)))
+        .filter(letter => letter !== node.letter && positions.has(letter))
+        .map(letter => ({ from: node.letter, to: letter })));
+    return { size, positions, edges, islandLabels };
+};
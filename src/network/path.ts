@@ -0,0 +1,84 @@
+import { NetworkAnalysis, NetworkPathAnalysis, NetworkPathStep } from '../../types';
+import { HebrewLetterNode } from '../dataModels';
+import { extractHebrewLetters } from '../corpus/hebrewNormalizer';
+
+/**
+ * src/network/path.ts
+ *
+ * Projects a word or verse onto the spelling network as a walk: each letter
+ * is a node and each pair of neighbouring letters a step, which may or may
+ * not follow a spelling edge. The walk is summarized by the islands it
+ * visits, the loops and hubs it touches and how far apart its letters lie.
+ */
+
+// Shortest hop counts between letters with edges taken in either direction, per analysis (a network's analysis is replaced whenever it changes).
+const distanceCache = new WeakMap<NetworkAnalysis, Map<string, Map<string, number>>>();
+
+const undirectedDistances = (nodes: Map<string, HebrewLetterNode>, analysis: NetworkAnalysis): Map<string, Map<string, number>> => {
+    const cached = distanceCache.get(analysis);
+    if (cached) return cached;
+    const neighbours = new Map(Array.from(nodes.keys()).map(letter => [letter, new Set<string>()]));
+    nodes.forEach(node => node.spelling.slice(1).filter(letter => letter !== node.letter && nodes.has(letter)).forEach(letter => {
+        neighbours.get(node.letter)!.add(letter);
+        neighbours.get(letter)!.add(node.letter);
+    }));
+    const distances = new Map(Array.from(nodes.keys()).map(source => {
+        const distance = new Map([[source, 0]]);
+        const queue = [source];
+        for (let head = 0; head < queue.length; head++) {
+            neighbours.get(queue[head])!.forEach(next => {
+                if (!distance.has(next)) { distance.set(next, distance.get(queue[head])! + 1); queue.push(next); }
+            });
+        }
+        return [source, distance];
+    }));
+    distanceCache.set(analysis, distances);
+    return distances;
+};
+
+/**
+ * The walk of a text over a network.
+ * @param text - Hebrew text; niqqud, cantillation, spaces and anything that is not a letter are ignored.
+ * @param nodes - The network's letters, as returned by `HebrewAlphabetNetwork.getAllNodes`.
+ * @param analysis - The network's analysis, for its islands, loops and hubs.
+ */
+export const projectNetworkPath = (text: string, nodes: Map<string, HebrewLetterNode>, analysis: NetworkAnalysis): NetworkPathAnalysis => {
+    const letters = extractHebrewLetters(text, true).filter(letter => nodes.has(letter));
+    const islandOf = new Map(analysis.islands.flatMap(island => island.letters.map(letter => [letter, island.name] as [string, string])));
+    const loopLetters = new Set([...analysis.cycles.flat(), ...analysis.selfLoops]);
+    const distances = undirectedDistances(nodes, analysis);
+
+    const steps: NetworkPathStep[] = letters.slice(1).map((to, i) => {
+        const from = letters[i];
+        return {
+            from,
+            to,
+            followsEdge: nodes.get(from)!.spelling.slice(1).includes(to),
+            distance: distances.get(from)!.get(to) ?? null,
+            crossesIsland: islandOf.get(from) !== islandOf.get(to),
+        };
+    });
+
+    const islands: NetworkPathAnalysis['islands'] = [];
+    letters.forEach(letter => {
+        const name = islandOf.get(letter);
+        if (name === undefined) return;
+        const visited = islands.find(island => island.name === name);
+        if (visited) visited.letterCount++; else islands.push({ name, letterCount: 1 });
+    });
+
+    const connected = steps.filter(step => step.distance !== null);
+    const edgeSteps = steps.filter(step => step.followsEdge).length;
+    return {
+        letters,
+        steps,
+        islands,
+        islandTransitions: steps.filter(step => step.crossesIsland).length,
+        edgeSteps,
+        edgeRatio: steps.length > 0 ? edgeSteps / steps.length : 0,
+        loopHits: letters.filter(letter => loopLetters.has(letter)).length,
+        hubHits: letters.filter(letter => analysis.hubs.includes(letter)).length,
+        meanDistance: connected.length > 0 ? connected.reduce((sum, step) => sum + step.distance!, 0) / connected.length : null,
+        gematria: letters.reduce((sum, letter) => sum + nodes.get(letter)!.gematria, 0),
+    };
+};
@@ -0,0 +1,365 @@
+import { NetworkFileFormat, NetworkFormat } from '../../types';
+import { HebrewLetterNode } from '../dataModels';
+import { foldFinalForm, HEBREW_LETTERS } from '../corpus/hebrewNormalizer';
+import { standardGematria } from '../gematria/hebrewGematria';
+
+/**
+ * src/network/serializers.ts
+ *
+ * The alphabet network written out for external graph tools and read back in:
+ * GraphML for Gephi, yEd and NetworkX, DOT for Graphviz, JSON-LD for linked-data
+ * tooling. Each letter is a node carrying its gematria, full value, phonetic
+ * name, island and color, and each letter of its name after the first is an
+ * edge, repeats included, so a name (and with it the full value and any
+ * self-loop) survives the round trip.
+ *
+ * Reading forgives what other tools add: unknown attributes are ignored, a
+ * node's letter is its label or else its id, and a missing gematria is the
+ * standard value. The full value is always recomputed from the edges. Whatever
+ * stops the file from being a network of Hebrew letters is reported at once.
+ */
+
+export const NETWORK_FORMATS: NetworkFormat[] = [
+    { id: 'graphml', name: 'GraphML', extensions: ['graphml', 'xml'], mimeType: 'application/graphml+xml' },
+    { id: 'dot', name: 'Graphviz DOT', extensions: ['dot', 'gv'], mimeType: 'text/vnd.graphviz' },
+    { id: 'jsonld', name: 'JSON-LD', extensions: ['jsonld', 'json'], mimeType: 'application/ld+json' },
+];
+
+export const findNetworkFormat = (id: string): NetworkFormat | undefined =>
+    NETWORK_FORMATS.find(format => format.id === id);
+
+/** The format a file is read as, by its extension. */
+export const networkFormatOfFile = (fileName: string): NetworkFormat | undefined => {
+    const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+    return NETWORK_FORMATS.find(format => format.extensions.includes(extension));
+};
+
+/** The vocabulary of the JSON-LD export: letters are `letter:א` and `spells` lists a name's letters in order. */
+export const NETWORK_JSON_LD_CONTEXT = {
+    '@vocab': 'urn:astrian-key:network:',
+    letter: 'urn:astrian-key:letter:',
+    spells: { '@type': '@id', '@container': '@list' },
+};
+
+// The node attributes every format writes, in order; the letter goes under `label`, which graph tools display.
+const NODE_ATTRIBUTES: { name: string, numeric: boolean, value: (node: HebrewLetterNode) => string | number }[] = [
+    { name: 'label', numeric: false, value: node => node.letter },
+    { name: 'gematria', numeric: true, value: node => node.gematria },
+    { name: 'fullValue', numeric: true, value: node => node.fullValue },
+    { name: 'phonetic', numeric: false, value: node => node.phonetic },
+    { name: 'island', numeric: false, value: node => node.island },
+    { name: 'color', numeric: false, value: node => node.color },
+];
+
+// The other letters of a node's name, one edge each.
+const nameEdges = (node: HebrewLetterNode, nodes: Map<string, HebrewLetterNode>): string[] =>
+    node.spelling.slice(1).filter(letter => nodes.has(letter));
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const quoteDot = (text: string): string => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const toGraphML = (nodes: Map<string, HebrewLetterNode>, name: string): string => {
+    const letters = Array.from(nodes.values());
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+        ...NODE_ATTRIBUTES.map(attribute => `  <key id="${attribute.name}" for="node" attr.name="${attribute.name}" attr.type="${attribute.numeric ? 'int' : 'string'}"/>`),
+        '  <graph id="G" edgedefault="directed">',
+        `    <desc>${escapeXml(name)}</desc>`,
+        ...letters.flatMap(node => [
+            `    <node id="${escapeXml(node.letter)}">`,
+            ...NODE_ATTRIBUTES.map(attribute => `      <data key="${attribute.name}">${escapeXml(String(attribute.value(node)))}</data>`),
+            '    </node>',
+        ]),
+        ...letters.flatMap(node => nameEdges(node, nodes).map(letter => `    <edge source="${escapeXml(node.letter)}" target="${escapeXml(letter)}"/>`)),
+        '  </graph>',
+        '</graphml>',
+        '',
+    ].join('\n');
+};
+
+// Graphviz reads `color` as the outline, so the island color is written as the fill.
+const toDot = (nodes: Map<string, HebrewLetterNode>, name: string): string => {
+    const letters = Array.from(nodes.values());
+    const attributesOf = (node: HebrewLetterNode) => NODE_ATTRIBUTES
+        .filter(attribute => attribute.name !== 'color' || node.color)
+        .map(attribute => {
+            const value = attribute.value(node);
+            return `${attribute.name === 'color' ? 'fillcolor' : attribute.name}=${attribute.numeric ? value : quoteDot(String(value))}`;
+        }).join(', ');
+    return [
+        `digraph ${quoteDot(name)} {`,
+        '  node [shape=circle, style=filled];',
+        ...letters.map(node => `  ${quoteDot(node.letter)} [${attributesOf(node)}];`),
+        ...letters.flatMap(node => nameEdges(node, nodes).map(letter => `  ${quoteDot(node.letter)} -> ${quoteDot(letter)};`)),
+        '}',
+        '',
+    ].join('\n');
+};
+
+const toJsonLd = (nodes: Map<string, HebrewLetterNode>, name: string): string => JSON.stringify({
+    '@context': NETWORK_JSON_LD_CONTEXT,
+    '@type': 'AlphabetNetwork',
+    name,
+    letters: Array.from(nodes.values()).map(node => ({
+        '@id': `letter:${node.letter}`,
+        '@type': 'Letter',
+        ...Object.fromEntries(NODE_ATTRIBUTES.map(attribute => [attribute.name, attribute.value(node)])),
+        spells: nameEdges(node, nodes).map(letter => `letter:${letter}`),
+    })),
+}, null, 2);
+
+/**
+ * Writes a network in one of the `NETWORK_FORMATS`.
+ * @param nodes - The network's letters, as returned by `HebrewAlphabetNetwork.getAllNodes`.
+ * @param name - The network's name, as the file's title.
+ */
+export const serializeNetwork = (nodes: Map<string, HebrewLetterNode>, format: NetworkFileFormat, name = 'Hebrew Alphabet Network'): string => {
+    switch (format) {
+        case 'graphml': return toGraphML(nodes, name);
+        case 'dot': return toDot(nodes, name);
+        case 'jsonld': return toJsonLd(nodes, name);
+    }
+};
+
+// A graph as read from a file, before its nodes are made letters.
+interface ParsedGraph {
+    nodes: { id: string, attributes: Record<string, string> }[];
+    edges: { source: string, target: string }[];
+    problems: string[];
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXmlEntity = (entity: string, match: string): string => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity] ?? match;
+};
+
+// The text of an element's content: CDATA kept as it is, entities decoded and any markup (such as a yEd label's) dropped.
+const xmlText = (content: string): string =>
+    content.replace(/<!\[CDATA\[([\s\S]*?)\]\]>|<[^>]*>|&(#x[\da-f]+|#\d+|\w+);/gi, (match, cdata, entity) =>
+        cdata !== undefined ? cdata : entity !== undefined ? decodeXmlEntity(entity, match) : '').trim();
+
+const xmlAttributes = (source: string): Record<string, string> =>
+    Object.fromEntries(Array.from(source.matchAll(/([^\s=\/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g), ([, name, double, single]) => [name, xmlText(double ?? single)]));
+
+// Reads the flat GraphML that graph tools write; nested graphs and hyperedges are ignored.
+const parseGraphML = (text: string): ParsedGraph => {
+    const xml = text.replace(/<!--[\s\S]*?-->/g, '');
+    if (!/<graphml[\s>]/.test(xml)) return { nodes: [], edges: [], problems: ['it has no <graphml> element'] };
+    const problems: string[] = [];
+
+    const keyNames = new Map<string, string>();
+    const defaults: Record<string, string> = {};
+    for (const [, source, content] of xml.matchAll(/<key\b([^>]*?)(?:\/>|>([\s\S]*?)<\/key>)/g)) {
+        const key = xmlAttributes(source);
+        if (key.for && key.for !== 'node' && key.for !== 'all') continue;
+        // yEd keeps a node's label inside its graphics.
+        const name = key['attr.name'] ?? (key['yfiles.type'] === 'nodegraphics' ? 'label' : key.id);
+        keyNames.set(key.id, name);
+        const fallback = content?.match(/<default>([\s\S]*?)<\/default>/);
+        if (fallback) defaults[name] = xmlText(fallback[1]);
+    }
+
+    const nodes: ParsedGraph['nodes'] = [];
+    for (const [, source, content] of xml.matchAll(/<node\b([^>]*?)(?:\/>|>([\s\S]*?)<\/node>)/g)) {
+        const { id } = xmlAttributes(source);
+        if (!id) { problems.push('a node has no id'); continue; }
+        const attributes = { ...defaults };
+        for (const [, dataSource, value] of (content ?? '').matchAll(/<data\b([^>]*?)(?:\/>|>([\s\S]*?)<\/data>)/g)) {
+            const { key } = xmlAttributes(dataSource);
+            if (key) attributes[keyNames.get(key) ?? key] = xmlText(value ?? '');
+        }
+        nodes.push({ id, attributes });
+    }
+
+    const edges: ParsedGraph['edges'] = [];
+    for (const [, source] of xml.matchAll(/<edge\b([^>]*?)(?:\/>|>[\s\S]*?<\/edge>)/g)) {
+        const edge = xmlAttributes(source);
+        if (edge.source && edge.target) edges.push({ source: edge.source, target: edge.target });
+        else problems.push('an edge has no source or target');
+    }
+    return { nodes, edges, problems };
+};
+
+interface DotToken {
+    value: string;
+    /** Punctuation and edge operators, as opposed to IDs. */
+    punctuation: boolean;
+}
+
+// Comments, preprocessor lines, quoted and HTML strings, punctuation, then bare IDs and numerals.
+const DOT_TOKEN = /\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/|^#[^\n]*|"((?:[^"\\]|\\[\s\S])*)"|(<(?:[^<>]|<[^<>]*>)*>)|(->|--|[{}[\];,=:])|([A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*|-?(?:\.\d+|\d+(?:\.\d*)?))/gmy;
+
+const tokenizeDot = (text: string): DotToken[] => {
+    const tokens: DotToken[] = [];
+    DOT_TOKEN.lastIndex = 0;
+    while (DOT_TOKEN.lastIndex < text.length) {
+        const at = DOT_TOKEN.lastIndex;
+        const match = DOT_TOKEN.exec(text);
+        if (!match) throw new Error(`unexpected "${text[at]}" at character ${at + 1}`);
+        const [, quoted, html, punctuation, bare] = match;
+        if (quoted !== undefined) tokens.push({ value: quoted.replace(/\\\r?\n/g, '').replace(/\\"/g, '"'), punctuation: false });
+        else if (html !== undefined) tokens.push({ value: xmlText(html.slice(1, -1)), punctuation: false });
+        else if (punctuation !== undefined) tokens.push({ value: punctuation, punctuation: true });
+        else if (bare !== undefined) tokens.push({ value: bare, punctuation: false });
+    }
+    return tokens;
+};
+
+// Reads DOT with subgraphs flattened into the graph; the edges of an undirected graph are taken in the direction written.
+const parseDot = (text: string): ParsedGraph => {
+    const nodes = new Map<string, ParsedGraph['nodes'][number]>();
+    const edges: ParsedGraph['edges'] = [];
+    try {
+        const tokens = tokenizeDot(text);
+        let position = 0;
+        const peek = () => tokens[position];
+        const isPunctuation = (value: string) => peek()?.punctuation === true && peek().value === value;
+        const isKeyword = (...words: string[]) => peek()?.punctuation === false && words.includes(peek().value.toLowerCase());
+        const expectId = (): string => {
+            const token = tokens[position++];
+            if (!token || token.punctuation) throw new Error(token ? `expected a name but found "${token.value}"` : 'it ends unexpectedly');
+            return token.value;
+        };
+        const attributeList = (): Record<string, string> => {
+            const attributes: Record<string, string> = {};
+            while (isPunctuation('[')) {
+                position++;
+                while (!isPunctuation(']')) {
+                    const name = expectId();
+                    if (isPunctuation('=')) { position++; attributes[name] = expectId(); }
+                    if (isPunctuation(',') || isPunctuation(';')) position++;
+                }
+                position++;
+            }
+            return attributes;
+        };
+        // A node ID, without any port.
+        const nodeId = (): string => {
+            const id = expectId();
+            while (isPunctuation(':')) { position++; expectId(); }
+            return id;
+        };
+
+        if (isKeyword('strict')) position++;
+        if (!isKeyword('graph', 'digraph')) throw new Error('it does not begin with "graph" or "digraph"');
+        position++;
+        if (peek() && !peek().punctuation) position++;
+        if (!isPunctuation('{')) throw new Error('expected "{" after the graph\'s name');
+
+        const nodeDefaults: Record<string, string> = {};
+        const declare = (id: string) => {
+            if (!nodes.has(id)) nodes.set(id, { id, attributes: { ...nodeDefaults } });
+            return nodes.get(id)!;
+        };
+        let depth = 0;
+        while (position < tokens.length) {
+            if (isPunctuation('{')) { depth++; position++; continue; }
+            if (isPunctuation('}')) { depth--; position++; if (depth === 0) break; continue; }
+            if (isPunctuation(';')) { position++; continue; }
+            if (isKeyword('subgraph')) { position++; if (peek() && !peek().punctuation) position++; continue; }
+            if (isKeyword('graph', 'node', 'edge') && tokens[position + 1]?.punctuation && tokens[position + 1].value === '[') {
+                const kind = tokens[position++].value.toLowerCase();
+                const attributes = attributeList();
+                if (kind === 'node') Object.assign(nodeDefaults, attributes);
+                continue;
+            }
+            const chain = [nodeId()];
+            if (isPunctuation('=')) { position++; expectId(); continue; }
+            while (isPunctuation('->') || isPunctuation('--')) {
+                position++;
+                if (isPunctuation('{') || isKeyword('subgraph')) throw new Error('edges to or from subgraphs are not supported');
+                chain.push(nodeId());
+            }
+            const attributes = attributeList();
+            chain.forEach(declare);
+            if (chain.length === 1) Object.assign(declare(chain[0]).attributes, attributes);
+            chain.slice(1).forEach((target, i) => edges.push({ source: chain[i], target }));
+        }
+        if (depth !== 0) throw new Error('a "{" is never closed');
+    } catch (e) {
+        return { nodes: [], edges: [], problems: [e instanceof Error ? e.message : String(e)] };
+    }
+    return { nodes: Array.from(nodes.values()), edges, problems: [] };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Reads JSON-LD compacted with `NETWORK_JSON_LD_CONTEXT`, as the export writes it.
+const parseJsonLd = (text: string): ParsedGraph => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        return { nodes: [], edges: [], problems: [`it is not JSON (${e instanceof Error ? e.message : e})`] };
+    }
+    const entries = Array.isArray(data) ? data : isRecord(data) ? data.letters ?? data['@graph'] : undefined;
+    if (!Array.isArray(entries)) return { nodes: [], edges: [], problems: ['expected a "letters" or "@graph" array'] };
+
+    const graph: ParsedGraph = { nodes: [], edges: [], problems: [] };
+    const idOf = (value: unknown) => typeof value === 'string' ? value : isRecord(value) && typeof value['@id'] === 'string' ? value['@id'] : undefined;
+    entries.forEach((entry, i) => {
+        const id = isRecord(entry) ? idOf(entry) ?? (typeof entry.label === 'string' ? entry.label : undefined) : undefined;
+        if (!isRecord(entry) || id === undefined) { graph.problems.push(`letter ${i + 1} has neither an @id nor a label`); return; }
+        const attributes: Record<string, string> = {};
+        NODE_ATTRIBUTES.forEach(({ name }) => {
+            if (typeof entry[name] === 'string' || typeof entry[name] === 'number') attributes[name] = String(entry[name]);
+        });
+        graph.nodes.push({ id, attributes });
+        const spells = isRecord(entry.spells) ? entry.spells['@list'] : entry.spells;
+        (Array.isArray(spells) ? spells : spells === undefined ? [] : [spells]).forEach(target => {
+            const targetId = idOf(target);
+            if (targetId === undefined) graph.problems.push(`"${id}".spells holds something that is not a letter's @id`);
+            else graph.edges.push({ source: id, target: targetId });
+        });
+    });
+    return graph;
+};
+
+// The letter a node stands for: its label, else the end of its id (so `letter:א` is א).
+const letterOfNode = (id: string, attributes: Record<string, string>): string =>
+    foldFinalForm((attributes.label ?? attributes.letter ?? id.replace(/^.*[:#/]/, '')).trim());
+
+/**
+ * Reads a network written in one of the `NETWORK_FORMATS`, by this app or by another graph tool.
+ * Each node must stand for one Hebrew letter, and each edge adds its target to its source's name.
+ * @returns The letters, in the file's order, ready for `HebrewAlphabetNetwork.addNode`.
+ * @throws Error listing every problem found.
+ */
+export const parseNetwork = (text: string, format: NetworkFileFormat): HebrewLetterNode[] => {
+    const graph = format === 'graphml' ? parseGraphML(text) : format === 'dot' ? parseDot(text) : parseJsonLd(text);
+    const problems = [...graph.problems];
+    const ids = new Set(graph.nodes.map(node => node.id));
+    const letterOf = new Map<string, HebrewLetterNode>();
+    const letters: HebrewLetterNode[] = [];
+
+    graph.nodes.forEach(({ id, attributes }) => {
+        const letter = letterOfNode(id, attributes);
+        if (!HEBREW_LETTERS.includes(letter)) { problems.push(`node "${id}" is not a Hebrew letter; give it one as its label`); return; }
+        if (letters.some(node => node.letter === letter)) { problems.push(`${letter} appears more than once`); return; }
+        const gematria = attributes.gematria === undefined ? standardGematria(letter) : Number(attributes.gematria);
+        if (attributes.gematria !== undefined && (!attributes.gematria.trim() || !Number.isFinite(gematria))) problems.push(`${letter} has gematria "${attributes.gematria}", which is not a number`);
+        const node = { letter, gematria, phonetic: attributes.phonetic ?? '', spelling: [letter], fullValue: 0, connections: [], island: attributes.island ?? '', color: attributes.fillcolor ?? attributes.color ?? '' };
+        letterOf.set(id, node);
+        letters.push(node);
+    });
+
+    graph.edges.forEach(({ source, target }) => {
+        const missing = [source, target].filter(id => !ids.has(id));
+        if (missing.length > 0) { problems.push(`the edge ${source} → ${target} names "${missing[0]}", which is not a node`); return; }
+        const from = letterOf.get(source), to = letterOf.get(target);
+        if (from && to) from.spelling.push(to.letter);
+    });
+    if (graph.nodes.length === 0 && problems.length === 0) problems.push('it has no nodes');
+
+    if (problems.length > 0) throw new Error(`Invalid ${findNetworkFormat(format)?.name ?? format} network:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    const gematriaOf = new Map(letters.map(node => [node.letter, node.gematria]));
+    letters.forEach(node => node.fullValue = node.spelling.reduce((sum, letter) => sum + gematriaOf.get(letter)!, 0));
+    return letters;
+};
@@ -1,21 +1,14 @@
-import hebrewAlphabetData from '../data/hebrewAlphabetData.json';
+import hebrewAlphabetData from '../../data/hebrewAlphabetData.json';
+import { HebrewAlphabetData } from '../../types';
+import { validateHebrewAlphabetData } from '../gematria/alphabetData';
+import { foldFinalForm } from '../corpus/hebrewNormalizer';
 
-interface HebrewLetterData {
-  hebrew: string;
-  transliteration_key: string;
-  standard_gematria: number;
-  traditional_spelling: string[];
-  full_value_gematria: number;
-  network_connections: string[];
-  island: string;
-  color: string;
-}
-
-const alphabetData: { [key: string]: HebrewLetterData } = hebrewAlphabetData;
+const alphabetData: HebrewAlphabetData = validateHebrewAlphabetData(hebrewAlphabetData);
 
 /**
  * Calculates the Standard Gematria value of a given string.
  * Supports both Hebrew characters and transliterated English keys from the data structure.
+ * Final forms count as their regular forms.
  * Ignores characters that are not Hebrew letters.
  * @param inputText The string to calculate Gematria for.
  * @returns The Standard Gematria value.
@@ -32,8 +25,8 @@ export function calculateStandardGematria(inputText: string): number {
   for (const char of lowerInputText) {
     let letterKey: string | undefined;
 
-    if (hebrewToKeyMap[char]) {
-      letterKey = hebrewToKeyMap[char];
+    if (hebrewToKeyMap[foldFinalForm(char)]) {
+      letterKey = hebrewToKeyMap[foldFinalForm(char)];
     } else if (alphabetData[char]) {
       letterKey = char;
     }
@@ -52,6 +45,7 @@ export function calculateStandardGematria(inputText: string): number {
 /**
  * Calculates the Full Value Gematria of a given string.
  * Supports both Hebrew characters and transliterated English keys.
+ * Final forms count as their regular forms.
  * Ignores characters that are not Hebrew letters.
  * @param inputText The string to calculate Gematria for.
  * @returns The Full Value Gematria value.
@@ -68,8 +62,8 @@ export function calculateFullValueGematria(inputText: string): number {
   for (const char of lowerInputText) {
     let letterKey: string | undefined;
 
-    if (hebrewToKeyMap[char]) {
-      letterKey = hebrewToKeyMap[char];
+    if (hebrewToKeyMap[foldFinalForm(char)]) {
+      letterKey = hebrewToKeyMap[foldFinalForm(char)];
     } else if (alphabetData[char]) {
       letterKey = char;
     }
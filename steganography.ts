@@ -1,4 +1,7 @@
 
+import { StructuredCorpora } from './types';
+import { loadStructuredCorpora } from './src/corpus/verseIndex';
+
 /**
  * steganography.ts
  *
@@ -14,7 +17,10 @@
 
 // This function is a stand-in for a proper compression algorithm like Gzip
 // or LZW, which would be used in a real implementation to maximize data density.
-// Using a simple RLE for demonstration purposes.
+// Using a simple RLE for demonstration purposes. Digits in the input (e.g. in
+// "1 Samuel") are escaped so they are not mistaken for run lengths.
+const DIGIT_ESCAPE = '\uE000';
+
 const simpleCompress = (input: string): string => {
     let output = '';
     let count = 1;
@@ -22,7 +28,7 @@ const simpleCompress = (input: string): string => {
         if (input[i] === input[i + 1]) {
             count++;
         } else {
-            output += count > 1 ? `${count}${input[i]}` : input[i];
+            output += (count > 1 ? String(count) : '') + (/\d/.test(input[i]) ? DIGIT_ESCAPE : '') + input[i];
             count = 1;
         }
     }
@@ -30,66 +36,85 @@ const simpleCompress = (input: string): string => {
 }
 
 const simpleDecompress = (input: string): string => {
-    return input.replace(/(\d+)(\D)/g, (_, count, char) => char.repeat(parseInt(count)));
+    return input.replace(/(\d*)(\uE000\d|\D)/g, (_, count, char) => char.replace(DIGIT_ESCAPE, '').repeat(count ? parseInt(count) : 1));
 }
 
-const getCorporaPayload = (): Record<string, Record<string, string>> => {
+// Each book is a list of chapters, each a list of verses with their words separated by spaces.
+// The books are short excerpts, always starting at chapter 1, verse 1 (for Jubilees and the
+// Meqabyan books, the numbering counts from the start of the excerpt).
+const getCorporaPayload = (): Record<string, Record<string, string[][]>> => {
     // In a real application, these would be loaded from source files.
     // They are stored here to be "embedded" in the simulated steganographic process.
-    const tanakhCorpus: Record<string, string> = {
-        'Genesis': 'בראשיתבראאלהיםאתהשמיםואתהארץוהארץהיתהתהוובהווחשךעלפניתוהםורוחאלהיםמרחפתעלפנימיםויאמראלהיםיהיאורויהיאור',
-        'Exodus': 'ואלהשמותבניישראלהבאיםמצרימהאתיעקבאיוביתובאוראובןשמעוןלויביהודה',
-        'Leviticus': 'ויקראאלמשהוידבראדניאליומאהלמועדלאמר',
-        'Numbers': 'וידבראדניאלמשהבמדברסיניבאהלמועדבאחדלחדשהשניבשנההשניתלצאתמארץמצריםלאמר',
-        'Deuteronomy': 'אלההדבריםאשרדברמשהאלכלישראלבעברהירדןבמדברבערבהמולסוףביןפארןוביןתפלוביןלבןוחצרתודזהב',
-        'Joshua': 'ויהימשהעבדיהוהויאמריהוהאליהושעבןנוןמשרתמשהלאמר',
-        'Judges': 'ויהיאחרימותיהושעוישאלובישראליאמריעלהלנואלהכנעניבתחלהלהלחםבו',
-        '1 Samuel': 'ויהאישמןהרמתיםצופיםמהראפריםושמואלקנהבןירחםבןאליהואבןתחובןצוףאפרתי',
-        'Isaiah': 'חזונישעיהובןאמוץאשרחזהעליהודהוירושלםבימיעזיהויתםאחזיחזקיהומלכיהודה',
-        'Jeremiah': 'דברירמיהובןחלקיהומןהכהניםאשרבענתותבארץבנימן',
-        'Ezekiel': 'ויהיבשלשיםשנהברביעיבחמשהלחדשואניבתוךהגולהעלנהרכברנפתחוהשמיםואראהמראותאלהים',
-        'Psalms': 'אשריאשרהלךבעצתרשעיםובדרךחטאיםלאעמדובמושבלציםלאישב',
-        'Proverbs': 'משלישלמהבןדודמלךישראל',
-        'Job': 'אישהיהבארץעוץאיובשמווהיההאישההואתםוישריראאלהיםוסרמרע',
+    const tanakhCorpus: Record<string, string[][]> = {
+        'Genesis': [[
+            'בראשית ברא אלהים את השמים ואת הארץ',
+            'והארץ היתה תהו ובהו וחשך על פני תוהם ורוח אלהים מרחפת על פני מים',
+            'ויאמר אלהים יהי אור ויהי אור',
+        ]],
+        'Exodus': [[
+            'ואלה שמות בני ישראל הבאים מצרימה את יעקב אי וביתו באו',
+            'ראובן שמעון לוי ביהודה',
+        ]],
+        'Leviticus': [['ויקרא אל משה וידבר אדני אליו מאהל מועד לאמר']],
+        'Numbers': [['וידבר אדני אל משה במדבר סיני באהל מועד באחד לחדש השני בשנה השנית לצאת מארץ מצרים לאמר']],
+        'Deuteronomy': [['אלה הדברים אשר דבר משה אל כל ישראל בעבר הירדן במדבר בערבה מול סוף בין פארן ובין תפל ובין לבן וחצרת וד זהב']],
+        'Joshua': [['ויהי משה עבד יהוה ויאמר יהוה אל יהושע בן נון משרת משה לאמר']],
+        'Judges': [['ויהי אחרי מות יהושע וישאלו בישראל יאמר יעלה לנו אל הכנעני בתחלה להלחם בו']],
+        '1 Samuel': [['ויה איש מן הרמתים צופים מהר אפרים ושמו אלקנה בן ירחם בן אליהוא בן תחו בן צוף אפרתי']],
+        'Isaiah': [['חזונ ישעיהו בן אמוץ אשר חזה על יהודה וירושלם בימי עזיהו יתם אחז יחזקיהו מלכי הודה']],
+        'Jeremiah': [['דבר ירמיהו בן חלקיהו מן הכהנים אשר בענתות בארץ בנימן']],
+        'Ezekiel': [['ויהי בשלשים שנה ברביעי בחמשה לחדש ואני בתוך הגולה על נהר כבר נפתחו השמים ואראה מראות אלהים']],
+        'Psalms': [['אשרי אשר הלך בעצת רשעים ובדרך חטאים לא עמד ובמושב לצים לא ישב']],
+        'Proverbs': [['משלי שלמה בן דוד מלך ישראל']],
+        'Job': [['איש היה בארץ עוץ איוב שמו והיה האיש ההוא תם וישר ירא אלהים וסר מרע']],
     };
-    const newTestamentCorpus: Record<string, string> = {
-      'Matthew': 'βιβλοςγενεσεωςιησουχριστουυιουδαυιδυιουαβρααμ',
-      'Mark': 'αρχητουευαγγελιουιησουχριστουυιουθεου',
-      'Luke': 'επειδηπερπολλοιεπεχειρησαναναταξασθαιδιηγησινπεριτωνπεπληροφορημενωνενημινπραγματων',
-      'John': 'ενηαρχηνλογοςκαιλογοσηνπροςτονθεονκαιθεοσηνλογος',
-      'Acts': 'τονμενπρωτονλογονεποιησαμηνπεριπαντωνωθεοφιλεωνηρξατοοΙησουςποιειντεκαιδιδασκειν',
-      'Romans': 'παυλοςδουλοςιησουχριστουκλητοςαποστολοςαφωρισμενοςειςευαγγελιονθεου',
-      '1 Corinthians': 'παυλοςκλητοςαποστολοςιησουχριστουδιαθεληματοςθεουκαισωσθενηςοαδελφος',
-      'Galatians': 'παυλοςαποστολοςουκαπανθρωπωνουδεδιΑνθρωπουαλλαδιαΙησουΧριστουκαιθεουπατροςτουεγειραντοςαυτονεκνεκρων',
-      'Ephesians': 'παυλοςαποστολοςιησουχριστουδιαθεληματοςθεουτοιςαγιοιςτοιςουσινενεφεσωκαιπιστοιςενχριστωιησου',
-      'Hebrews': 'πολυμερωςκαιπολυτροπωσπαλαιοθεοςλαλησαστοιςπατρασινεντοιςπροφηταις',
-      'James': 'ιακωβοςθεουκαικυριουιησουχριστουδουλοςταιςδωδεκαφυλαιςταιςεντηδιασποραχαιρειν',
-      'Revelation': 'αποκαλυψισιησουχριστουηνεδωκεναυτωοθεοςδειξαιτοιςδουλοιςαυτουαδειγενεσθαιενταχει',
+    const newTestamentCorpus: Record<string, string[][]> = {
+      'Matthew': [['βιβλος γενεσεως ιησου χριστου υιου δαυιδ υιου αβρααμ']],
+      'Mark': [['αρχη του ευαγγελιου ιησου χριστου υιου θεου']],
+      'Luke': [['επειδηπερ πολλοι επεχειρησαν αναταξασθαι διηγησιν περι των πεπληροφορημενων εν ημιν πραγματων']],
+      'John': [['εν η αρχην λογος και λογοσ ην προς τον θεον και θεοσ ην λογος']],
+      'Acts': [['τον μεν πρωτον λογον εποιησαμην περι παντων ω θεοφιλε ων ηρξατο ο Ιησους ποιειν τε και διδασκειν']],
+      'Romans': [['παυλος δουλος ιησου χριστου κλητος αποστολος αφωρισμενος εις ευαγγελιον θεου']],
+      '1 Corinthians': [['παυλος κλητος αποστολος ιησου χριστου δια θεληματος θεου και σωσθενης ο αδελφος']],
+      'Galatians': [['παυλος αποστολος ουκ απ ανθρωπων ουδε δι Ανθρωπου αλλα δια Ιησου Χριστου και θεου πατρος του εγειραντος αυτον εκ νεκρων']],
+      'Ephesians': [['παυλος αποστολος ιησου χριστου δια θεληματος θεου τοις αγιοις τοις ουσιν εν εφεσω και πιστοις εν χριστω ιησου']],
+      'Hebrews': [['πολυμερως και πολυτροπωσ παλαι ο θεος λαλησασ τοις πατρασιν εν τοις προφηταις']],
+      'James': [['ιακωβος θεου και κυριου ιησου χριστου δουλος ταις δωδεκα φυλαις ταις εν τη διασπορα χαιρειν']],
+      'Revelation': [['αποκαλυψισ ιησου χριστου ην εδωκεν αυτω ο θεος δειξαι τοις δουλοις αυτου α δει γενεσθαι εν ταχει']],
     };
-    const englishKJVBibleCorpus: Record<string, string> = {
-        'Genesis': 'InthebeginningGodcreatedtheheavenandtheearthAndtheearthwaswithoutformandvoidanddarknesswasuponthefaceofthedeepAndtheSpiritofGodmoveduponthefaceofthewaters',
-        'Exodus': 'NowthesearethenamesofthechildrenofIsraelwhichcameintoEgypt',
-        'Psalms': 'Blessedisthemanthatwalkethnotinthecounseloftheungodlynorstandethinthewayofsinnersnorsittethintheseatofthescornful',
-        'Isaiah': 'ThevisionofIsaiahsonofAmozwhichhesawconcerningJudahandJerusaleminthedaysofUzziahJothamAhazandHezekiahkingsofJudah',
-        'John': 'InthebeginningwastheWordandtheWordwaswithGodandtheWordwasGodThesamewasinthebeginningwithGod',
-        'Romans': 'PaulaservantofJesusChristcalledtobeanapostleseparateduntothegospelofGod',
-        'Revelation': 'TheRevelationofJesusChristwhichGodgaveuntohimtoshewuntohisservantsthingswhichmustshortlycometopass',
+    const englishKJVBibleCorpus: Record<string, string[][]> = {
+        'Genesis': [[
+            'In the beginning God created the heaven and the earth.',
+            'And the earth was without form, and void; and darkness was upon the face of the deep. And the Spirit of God moved upon the face of the waters.',
+        ]],
+        'Exodus': [['Now these are the names of the children of Israel, which came into Egypt.']],
+        'Psalms': [['Blessed is the man that walketh not in the counsel of the ungodly, nor standeth in the way of sinners, nor sitteth in the seat of the scornful.']],
+        'Isaiah': [['The vision of Isaiah son of Amoz, which he saw concerning Judah and Jerusalem in the days of Uzziah, Jotham, Ahaz, and Hezekiah, kings of Judah.']],
+        'John': [[
+            'In the beginning was the Word, and the Word was with God, and the Word was God.',
+            'The same was in the beginning with God.',
+        ]],
+        'Romans': [['Paul, a servant of Jesus Christ, called to be an apostle, separated unto the gospel of God,']],
+        'Revelation': [['The Revelation of Jesus Christ, which God gave unto him, to shew unto his servants things which must shortly come to pass;']],
     };
-    const tewahedoCorpus: Record<string, string> = {
-      'Enoch': 'ThewordsoftheblessingofEnochwherewithheblessedtheelectandrighteouswhowillbelivinginthedayoftribulationwhenallthewickedandgodlessaretobeṛemoved',
-      'Jubilees': 'AndithappenedafterthedeathofAbrahamthatGodblessedhisṣonIsaacandIsaaclivedinBeerlahairoiAndthesearethegenerationsofIshmaelthesonofAbrahamwhomHagartheEgyptianSarahshandmaidboretoAbraham',
-      '1 Meqabyan': 'AnditcameṭopassinthereignofkingAntiochushehavingcapturedJerusalemsetouttoreturntoAntioch',
-      '2 Meqabyan': 'AcertainmanofBenjaminwhoseṇamewasMeqabiswentouttofightforthepeopleofIsrael',
-      '3 Meqabyan': 'NowthekingofMoabsenttothekingofAmmonandsaidComeletusgotowarwithIsrael',
+    const tewahedoCorpus: Record<string, string[][]> = {
+      'Enoch': [['The words of the blessing of Enoch, wherewith he blessed the elect and righteous, who will be living in the day of tribulation, when all the wicked and godless are to be ṛemoved.']],
+      'Jubilees': [[
+          'And it happened after the death of Abraham that God blessed his ṣon Isaac, and Isaac lived in Beer-lahai-roi.',
+          'And these are the generations of Ishmael the son of Abraham, whom Hagar the Egyptian, Sarah\'s handmaid, bore to Abraham.',
+      ]],
+      '1 Meqabyan': [['And it came ṭo pass in the reign of king Antiochus, he having captured Jerusalem, set out to return to Antioch.']],
+      '2 Meqabyan': [['A certain man of Benjamin whose ṇame was Meqabis went out to fight for the people of Israel.']],
+      '3 Meqabyan': [['Now the king of Moab sent to the king of Ammon and said, Come, let us go to war with Israel.']],
     };
-    const apocryphaCorpus: Record<string, string> = {
-      'Tobit': 'ThebookofthewordsofTobitsonofTobielthesonofAnanielthesonofAduelthesonofGabaeloftheseedofAsaelofthetribeofNaphtali',
-      'Judith': 'InthetwelfthyearofthereignofNabuchodonosorwhoreignedinNinevethegreatcityinthedaysofArphaxadwhichreignedovertheMedesinEcbatane',
-      'Wisdom': 'LoverighteousnessyethatbejudgesoftheearththinkoftheLordwithagoodheartandinsimplicityofheartseekhim',
-      'Sirach': 'AllwisdomcomethfromtheLordandiswithhimforever',
-      'Baruch': 'AndthesearethewordsofthebookwhichBaruchthesonofNeriasthesonofMaasiasthesonofSedeciasthesonofAsadiasthesonofHelciaswroteinBabylon',
-      '1 Maccabees': 'AndithappenedafterthatAlexandersonofPhiliptheMacedonianwhocameoutofthelandofChettiimhadsmitenDariusthekingofthePersiansandMedesthatheignedinhissteadthefirstoverGreece',
-      '2 Maccabees': 'ThebrethrentheJewsthatbeinJerusalemandinthelandofJudeawishuntthebrethrentheJewsthatarethroughoutEgypthealthandpeace',
+    const apocryphaCorpus: Record<string, string[][]> = {
+      'Tobit': [['The book of the words of Tobit, son of Tobiel, the son of Ananiel, the son of Aduel, the son of Gabael, of the seed of Asael, of the tribe of Naphtali;']],
+      'Judith': [['In the twelfth year of the reign of Nabuchodonosor, who reigned in Nineve, the great city; in the days of Arphaxad, which reigned over the Medes in Ecbatane,']],
+      'Wisdom': [['Love righteousness, ye that be judges of the earth: think of the Lord with a good heart, and in simplicity of heart seek him.']],
+      'Sirach': [['All wisdom cometh from the Lord, and is with him for ever.']],
+      'Baruch': [['And these are the words of the book, which Baruch the son of Nerias, the son of Maasias, the son of Sedecias, the son of Asadias, the son of Helcias, wrote in Babylon,']],
+      '1 Maccabees': [['And it happened, after that Alexander son of Philip, the Macedonian, who came out of the land of Chettiim, had smiten Darius the king of the Persians and Medes, that he igned in his stead, the first over Greece,']],
+      '2 Maccabees': [['The brethren, the Jews that be in Jerusalem and in the land of Judea, wish unt the brethren, the Jews that are throughout Egypt health and peace:']],
     };
 
     return {
@@ -107,11 +132,11 @@ const getCorporaPayload = (): Record<string, Record<string, string>> => {
  * and reconstructing text from it.
  *
  * @param imageUrl - The URL of the source image to decode. (Currently unused in simulation).
- * @returns A promise that resolves with the structured corpora object.
+ * @returns A promise that resolves with the corpora, structured as book → chapter → verse → words.
  */
 export const decodeCorporaFromImage = (
     imageUrl: string
-): Promise<Record<string, Record<string, string>>> => {
+): Promise<StructuredCorpora> => {
     return new Promise((resolve, reject) => {
         try {
             // 1. In a real app: `const img = new Image(); img.src = imageUrl;`
@@ -131,7 +156,7 @@ export const decodeCorporaFromImage = (
             //    We imagine an offscreen canvas has been created, the image drawn to it,
             //    and pixel data extracted. Now we decompress and parse it.
             const decompressedData = simpleDecompress(compressedData);
-            const finalCorpora = JSON.parse(decompressedData);
+            const finalCorpora = loadStructuredCorpora(JSON.parse(decompressedData));
 
             // Simulate a delay to represent the decoding process.
             setTimeout(() => {
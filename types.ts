@@ -10,17 +10,41 @@
 // --- CORE ANALYSIS TYPES ---
 // =================================================================================================
 
-/** Represents a full Gematria analysis for a word. */
-export interface GematriaAnalysis {
-    word: string;
-    englishMeaning: string;
-    transliteration: string;
+/** Every Hebrew gematria method for one word, computed locally by `computeHebrewGematria`. */
+export interface HebrewGematriaValues {
     standard: number;
+    /** Standard, with final forms valued 500–900. */
+    gadol: number;
     ordinal: number;
     reduced: number;
     kolel: number;
     atbashWord: string;
     atbashValue: number;
+    albamWord: string;
+    albamValue: number;
+    /** The letters' names spelled out, in standard gematria. */
+    milui: number;
+}
+
+/** Represents a full Gematria analysis for a word: the model's reading of it, with locally computed values. */
+export interface GematriaAnalysis extends HebrewGematriaValues {
+    word: string;
+    englishMeaning: string;
+    transliteration: string;
+}
+
+/** Every Greek isopsephy method for one word, computed locally by `computeIsopsephy`. */
+export interface GreekIsopsephyValues {
+    /** Standard isopsephy. */
+    value: number;
+    ordinal: number;
+    reduced: number;
+}
+
+/** An isopsephy analysis for a word: the model's choice of word, with locally computed values. */
+export interface IsopsephyAnalysis extends GreekIsopsephyValues {
+    word: string;
+    englishMeaning?: string;
 }
 
 /** Represents a found Equidistant Letter Sequence (ELS). */
@@ -32,12 +56,277 @@ export interface ELSResult {
     skip: number;
     verses: string;
     path: { row: number, col: number }[];
+    /** Index of the first letter in the original (uncleaned) text, when known. */
+    startIndex?: number;
+    /** Monte Carlo baseline for this finding's skip, when a significance test was run. */
+    monteCarlo?: ElsMonteCarloStat & { trials: number };
+}
+
+/** The direction in which an ELS is read through the linear text. */
+export type ElsDirection = 'forward' | 'backward';
+
+/**
+ * How an ELS runs across the text. 'linear' reads the text as one line; the
+ * others read a cylinder of `cylinderWidth` columns, where `skip` counts rows.
+ * 'diagonal' steps one column with each row, 'antiDiagonal' one column back.
+ */
+export type ElsAxis = 'linear' | 'vertical' | 'diagonal' | 'antiDiagonal';
+
+/** A single raw hit produced by the ELS engine. */
+export interface ElsHit {
+    /** The term as searched, which may be a pattern such as "ד[ו]?ד". */
+    term: string;
+    /** The letters actually found, in reading order. */
+    matched: string;
+    /** The distance between consecutive letters in the cleaned text. */
+    skip: number;
+    direction: ElsDirection;
+    axis: ElsAxis;
+    /** Set for grid axes: the cylinder width the hit was found on. */
+    cylinderWidth?: number;
+    /** Letter positions in the cleaned (letters-only) text. */
+    cleanedIndices: number[];
+    /** The same positions mapped back onto the original text. */
+    indices: number[];
+}
+
+/** The parameters of an ELS search job. */
+export interface ElsSearchRequest {
+    text: string;
+    /** Identifies `text` for index caching, e.g. "corpus/book". Defaults to the text itself. */
+    textKey?: string;
+    /** Plain terms or patterns; see `src/els/pattern.ts`. */
+    terms: string[];
+    /** Treat final and non-final letter forms as the same letter. */
+    matchFinalForms?: boolean;
+    /** For grid axes, skips count cylinder rows rather than letters. */
+    minSkip: number;
+    /** Inclusive. Defaults to half the cleaned text length. */
+    maxSkip?: number;
+    directions: ElsDirection[];
+    /** Defaults to ['linear']. */
+    axes?: ElsAxis[];
+    /** The cylinder width for grid axes. Defaults to the square root of the cleaned text length. */
+    cylinderWidth?: number;
+    /** Stop the job once this many hits have been found. Unlimited when omitted. */
+    maxResults?: number;
+    /** Run the significance pass over the hits once the search completes. */
+    significance?: boolean;
+    /** Correlate the findings with these external events: the significant ones if `significance` is set, otherwise every term and skip with hits. */
+    externalEvents?: ElsExternalEventOptions;
+    /** Rerun the search over shuffled control texts to obtain empirical p-values. */
+    monteCarlo?: ElsMonteCarloOptions;
+    /** Lay the hits of the first term out on a cylinder together with related terms. */
+    matrix?: ElsMatrixOptions;
+}
+
+/** The parameters of a multi-term matrix search around the hits of a primary term. */
+export interface ElsMatrixOptions {
+    relatedTerms: string[];
+    /** Largest skip searched for related terms, besides the candidate widths. Defaults to 50. */
+    maxRelatedSkip?: number;
+    /** How many cylinder rows above and below a primary hit are searched. Defaults to 10. */
+    rowRadius?: number;
+}
+
+/** How tightly a primary term and its related terms sit together on one cylinder width. */
+export interface ElsMatrixSummary {
+    primaryTerm: string;
+    width: number;
+    /** Letters of all terms divided by the area of their bounding box; 1 is perfectly packed. */
+    compactness: number;
+    /** The largest cylinder (Chebyshev) distance from the primary term to a related term. */
+    maxDistance: number;
+    missingTerms: string[];
+}
+
+/** How a Monte Carlo control text is derived from the original. */
+export type ElsControlKind = 'letter' | 'word';
+
+/** The parameters of a Monte Carlo significance test. */
+export interface ElsMonteCarloOptions {
+    /** Number of shuffled copies per control kind. */
+    trials: number;
+    controls: ElsControlKind[];
+    /** Seed for the shuffles, so a run can be reproduced. Random when omitted. */
+    seed?: number;
 }
 
+/** Observed vs. expected hit counts for one skip (or the whole range) across the control texts. */
+export interface ElsMonteCarloStat {
+    skip: number;
+    observed: number;
+    /** Mean hit count per control text, by control kind. */
+    expected: Partial<Record<ElsControlKind, number>>;
+    /** Empirical p-value: the share of control texts with at least as many hits. */
+    pValue: Partial<Record<ElsControlKind, number>>;
+}
+
+/** The outcome of a Monte Carlo significance test. */
+export interface ElsMonteCarloResult {
+    trials: number;
+    controls: ElsControlKind[];
+    seed: number;
+    /** Totals across the whole skip range; `skip` is 0. */
+    total: ElsMonteCarloStat;
+    /** By letter skip; only skips with observed or expected hits are listed. */
+    perSkip: ElsMonteCarloStat[];
+}
+
+/** Progress for an ELS job, reported once per completed skip range (or Monte Carlo trial). */
+export interface ElsJobProgress {
+    phase: 'search' | 'monteCarlo';
+    percent: number;
+    skipRange: [number, number];
+    hitsSoFar: number;
+}
+
+/** ELS sequences of one term at one skip, with the reasons they stand out. */
+export interface ElsSignificantFinding {
+    skip: number;
+    indices: number[][];
+    significance: string[];
+    /** The summed weights of the significance rules that matched. */
+    score?: number;
+    ruleMatches?: ElsSignificanceRuleMatch[];
+    /** Structured results of the external-event pass; each also appears as a reason in `significance`. */
+    correlations?: ExternalEventCorrelation[];
+}
+
+/** One significance rule that matched an ELS sequence. */
+export interface ElsSignificanceRuleMatch {
+    ruleId: string;
+    name: string;
+    weight: number;
+    reasons: string[];
+}
+
+/** A real-world event whose name, date, keywords and location are searched for near ELS findings. */
+export interface ExternalEvent {
+    id: string;
+    name: string;
+    /** YYYY-MM-DD */
+    date: string;
+    /** Hebrew keywords, searched as ELS terms. */
+    keywords: string[];
+    location?: string;
+}
+
+/** How far the external-event pass searches, and how close an encoding must be to count. */
+export interface ExternalEventThresholds {
+    /** The largest skip at which event terms are searched. */
+    maxSkip: number;
+    /** The largest distance, in letters, between the endpoints of a finding and an event term. */
+    proximity: number;
+}
+
+/** The events and thresholds of one external-event correlation run. */
+export interface ElsExternalEventOptions extends Partial<ExternalEventThresholds> {
+    events: ExternalEvent[];
+}
+
+/** Which part of an event correlated with a finding; a `date` is its Hebrew year in letters. */
+export type ExternalEventCorrelationKind = 'convergence' | 'name' | 'date' | 'keyword' | 'location' | 'gematria';
+
+/** One correlation between an ELS finding and an external event. */
+export interface ExternalEventCorrelation {
+    eventId: string;
+    eventName: string;
+    kind: ExternalEventCorrelationKind;
+    /** The event term (or, for gematria, the number) that correlated. */
+    term: string;
+    /** For gematria correlations, which part of the date the finding's value matched. */
+    datePart?: 'year' | 'month' | 'day' | 'fullDate';
+    /** The text of the reason also added to the finding's `significance`. */
+    reason: string;
+}
+
+/** The settled outcome of an ELS job. */
+export interface ElsJobResult {
+    hits: ElsHit[];
+    /** The findings of the significance and external-event passes; empty when the request runs neither. */
+    findings: ElsSignificantFinding[];
+    monteCarlo?: ElsMonteCarloResult;
+    matrix?: DeepELSAnalysisResult;
+    cancelled: boolean;
+}
+
+/** Which books a batch ELS search covers. */
+export type ElsBatchScope = 'book' | 'corpus' | 'all';
+
+/** One finding of a batch ELS search across books and corpora. */
+export interface ElsBatchRow {
+    corpus: string;
+    book: string;
+    hit: ElsHit;
+    /** Reasons from the significance pass, then the Monte Carlo controls the finding's skip beats, if a test was run; empty if neither applies. */
+    significance: string[];
+    /** The significance score; 0 if no rule matched. */
+    score: number;
+}
+
+/** Progress for a batch ELS search, reported once per book. */
+export interface ElsBatchProgress {
+    booksDone: number;
+    booksTotal: number;
+    /** The book being searched, as "corpus / book". */
+    current: string;
+}
+
+/** Messages sent from the UI thread to the ELS worker. */
+export type ElsWorkerRequest =
+    | { type: 'start'; jobId: string; request: ElsSearchRequest }
+    | { type: 'cancel'; jobId: string };
+
+/** Messages streamed back from the ELS worker. */
+export type ElsWorkerResponse =
+    | { type: 'hits'; jobId: string; hits: ElsHit[] }
+    | { type: 'progress'; jobId: string; progress: ElsJobProgress }
+    | { type: 'monteCarlo'; jobId: string; result: ElsMonteCarloResult }
+    | { type: 'findings'; jobId: string; findings: ElsSignificantFinding[] }
+    | { type: 'matrix'; jobId: string; result: DeepELSAnalysisResult }
+    | { type: 'done'; jobId: string; cancelled: boolean }
+    | { type: 'error'; jobId: string; message: string };
+
 /** The complete result of a deep ELS analysis, including the character grid. */
 export interface DeepELSAnalysisResult {
     textGrid: { text: string; explanation: string; };
     elsAnalysis: ELSResult[];
+    /** Present when the grid was built locally by the matrix search rather than by the model. */
+    matrix?: ElsMatrixSummary;
+}
+
+/**
+ * The kinds of numeric claim the integrity check recomputes. Gematria and isopsephy values are not claims:
+ * the model is only asked for words and meanings, and the values are computed locally.
+ */
+export type IntegrityClaimKind = 'els';
+
+/** A model claim that did not match its local recomputation. */
+export interface IntegrityDiscrepancy {
+    kind: IntegrityClaimKind;
+    /** Where the claim sits in the result, e.g. "deepElsAnalysis.elsAnalysis.0.skip". */
+    path: string;
+    /** The word the claim is about. */
+    subject: string;
+    claimed: number | string;
+    /** The recomputed value, now in the result; null if the claim could not be recomputed at all. */
+    corrected: number | string | null;
+    reason: string;
+}
+
+/** The outcome of the integrity check on one model response. */
+export interface IntegrityReport {
+    /** How many claims of each kind were recomputed. */
+    checked: Record<IntegrityClaimKind, number>;
+    discrepancies: IntegrityDiscrepancy[];
+}
+
+/** Integrity check totals for the session. */
+export interface IntegrityStats {
+    responses: number;
+    responsesWithDiscrepancies: number;
+    byKind: Record<IntegrityClaimKind, { checked: number, mismatched: number }>;
 }
 
 /** The complete analysis results from a Cartographer. */
@@ -48,7 +337,7 @@ export interface CartographerAnalysisResults {
     transliteration: string;
     englishTranslation: string;
     gematriaAnalysis?: GematriaAnalysis[];
-    isopsephyAnalysis?: {word: string, value: number}[];
+    isopsephyAnalysis?: IsopsephyAnalysis[];
     vibrationalAnalysis: { title: string; explanation: string; };
     cosmicArchitecture: { title: string; explanation: string; };
     archetypalDrivers: { title: string; explanation: string; };
@@ -56,6 +345,12 @@ export interface CartographerAnalysisResults {
     hebraicKeysOfMastery?: { title: string; generatedText: string; };
     gnosticSynthesis?: {title: string; explanation: string; };
     protocolUnflinchingTruth: { challenge: string; softLanding: string; };
+    /** Set once the model's numbers have been recomputed; the values above are already corrected. */
+    integrity?: IntegrityReport;
+    /** The pointed source text, when it carries ta'amim, for chanting; see `src/music/cantillation.ts`. */
+    cantillationText?: string;
+    /** The passage's walk over the Willow network, computed locally. */
+    networkPath?: NetworkPathAnalysis;
 }
 
 /** The multi-modal resonance profile for a given numerical value. */
@@ -71,9 +366,16 @@ export interface ResonanceProfile {
 }
 
 /** The full result of the client-side exhaustive resonance check. */
+/** The English gematria and numerology ciphers; see `src/gematria/englishCiphers.ts`. */
+export type EnglishCipherId = 'chaldean' | 'pythagorean' | 'ordinal' | 'reverseOrdinal' | 'reverseReduced' | 'sumerian';
+
 export interface ExhaustiveResonanceResult {
     query: string;
+    /** The value under `cipher`, from which the resonance profile and cascade are derived. */
     gematriaValue: number;
+    cipher: EnglishCipherId;
+    /** The query's value under every cipher, for comparison. */
+    cipherValues: Record<EnglishCipherId, number>;
     primaryResonance: ResonanceProfile;
     resonanceCascade: CascadeCorrespondence[];
 }
@@ -137,12 +439,231 @@ export interface AstrianDayPlannerResult {
     }[];
 }
 
+// =================================================================================================
+// --- CORPUS TYPES ---
+// =================================================================================================
+
+/** A book as chapters of verses of words: chapter c, verse v is `book[c - 1][v - 1]`. */
+export type StructuredBook = string[][][];
+
+/** Corpus name → book name → structured book. */
+export type StructuredCorpora = Record<string, Record<string, StructuredBook>>;
+
+/** What `normalizeHebrew` keeps; each option defaults as in `DEFAULT_HEBREW_NORMALIZATION`. */
+export interface HebrewNormalizationOptions {
+    /** Keep vowel points, dagesh and shin/sin dots. Default false. */
+    keepNiqqud?: boolean;
+    /** Keep the ta'amim and meteg. Default false. */
+    keepCantillation?: boolean;
+    /** Write final forms (ך ם ן ף ץ) as their regular forms. Default false. */
+    foldFinals?: boolean;
+    /** Separate words, including words joined by maqaf, with single spaces. Default true. */
+    keepWordBoundaries?: boolean;
+}
+
+/** One Hebrew spelling of an English name, with its confidence relative to the other spellings (0–1). */
+export interface TransliterationCandidate {
+    hebrew: string;
+    confidence: number;
+}
+
+/** A chapter and verse; without a verse, the whole chapter. */
+export interface VerseRef {
+    chapter: number;
+    verse?: number;
+}
+
+/** Where a text position falls: its book, and its 1-based chapter, verse and word. */
+export interface VerseLocation {
+    book: string;
+    chapter: number;
+    verse: number;
+    word: number;
+}
+
+/** One resolved scripture reference: a book of a corpus and an inclusive verse range. */
+export interface ScriptureReference {
+    corpus: string;
+    book: string;
+    from: VerseRef;
+    to: VerseRef;
+    /** The reference as the user typed it. */
+    source: string;
+}
+
+/** A parsed °reference command: one or more references and the ELS options that apply to all of them. */
+export interface ScriptureReferenceCommand {
+    references: ScriptureReference[];
+    keyword?: string;
+    skip?: number;
+    directions: ElsDirection[];
+}
+
+/** How a word is valued in the reverse gematria index: Hebrew standard, Greek isopsephy or English Chaldean. */
+export type GematriaSystem = 'hebrew' | 'greek' | 'english';
+
+/** A distinct word or phrase of one corpus in the reverse gematria index. */
+export interface GematriaIndexEntry {
+    /** The word or phrase as first found in the corpus. */
+    text: string;
+    system: GematriaSystem;
+    value: number;
+    corpus: string;
+    wordCount: number;
+    /** Every occurrence in the corpus; `locations` keeps only the first few. */
+    occurrences: number;
+    locations: VerseLocation[];
+}
+
+/** Optional narrowing of a reverse gematria lookup. */
+export interface GematriaLookupFilter {
+    system?: GematriaSystem;
+    corpus?: string;
+}
+
+/** One letter of data/hebrewAlphabetData.json, keyed there by its `transliteration_key`. */
+export interface HebrewAlphabetEntry {
+    hebrew: string;
+    transliteration_key: string;
+    standard_gematria: number;
+    /** The letter's name, as the keys of the letters that spell it. */
+    traditional_spelling: string[];
+    /** The standard gematria of `traditional_spelling`. */
+    full_value_gematria: number;
+    network_connections: string[];
+    island: string;
+    color: string;
+}
+
+/** The contents of data/hebrewAlphabetData.json: letter key → letter. */
+export type HebrewAlphabetData = Record<string, HebrewAlphabetEntry>;
+
+/** A way of spelling out the letters' names; letters it leaves out keep the spelling in the alphabet data. */
+export interface SpellingTradition {
+    id: string;
+    name: string;
+    description: string;
+    /** Hebrew letter → its name in Hebrew letters, e.g. 'א' → 'אלף'. */
+    spellings: Record<string, string>;
+}
+
+/** One letter's place in the spelling network. Edges run from a letter to the other letters of its name. */
+export interface NetworkLetterMetrics {
+    letter: string;
+    /** How many letters' names contain this letter. */
+    inDegree: number;
+    /** How many letters this letter's name contains. */
+    outDegree: number;
+    /** Normalized betweenness centrality, 0–1: the share of shortest spelling paths between other letters that pass through it. */
+    betweenness: number;
+    isHub: boolean;
+}
+
+/** A loop of the spelling network and every letter whose spelling reaches it before any other loop. */
+export interface NetworkIsland {
+    /** The loop's letter names, e.g. "Aleph-Pey"; "Isolated" for the letters that reach no loop. */
+    name: string;
+    /** The loop's letters; empty for the isolated island. */
+    loop: string[];
+    letters: string[];
+    gematria: number;
+    /** 1 for the island of highest gematria, and so on. */
+    tier: number;
+}
+
+/** The graph analytics of the spelling network, as computed by `analyzeNetwork`. */
+export interface NetworkAnalysis {
+    stronglyConnected: string[][];
+    weaklyConnected: string[][];
+    /** Every elementary cycle of two or more letters, each starting from its earliest letter in the network. */
+    cycles: string[][];
+    /** Letters whose name contains the letter itself again, as מם. */
+    selfLoops: string[];
+    metrics: NetworkLetterMetrics[];
+    hubs: string[];
+    islands: NetworkIsland[];
+}
+
+/** One step of a word's walk over the spelling network, from a letter to the next. */
+export interface NetworkPathStep {
+    from: string;
+    to: string;
+    /** True if `to` is in the name of `from`, so the step follows a spelling edge (a self-loop for a doubled letter). */
+    followsEdge: boolean;
+    /** Fewest edges between the two letters, in either direction; 0 for a doubled letter, null if they are not connected. */
+    distance: number | null;
+    /** True if the step moves to another island. */
+    crossesIsland: boolean;
+}
+
+/** A word or verse projected onto the spelling network as a walk from letter to letter. */
+export interface NetworkPathAnalysis {
+    /** The walk's letters, final forms as their regular forms; anything not in the network is left out. */
+    letters: string[];
+    steps: NetworkPathStep[];
+    /** The islands visited, in the order first reached, with how many of the walk's letters fall in each. */
+    islands: { name: string, letterCount: number }[];
+    islandTransitions: number;
+    edgeSteps: number;
+    /** `edgeSteps` over the number of steps; 0 for a walk of one letter. */
+    edgeRatio: number;
+    /** Letters of the walk that lie on a loop (a cycle or a self-loop). */
+    loopHits: number;
+    hubHits: number;
+    /** Mean `distance` of the connected steps; null if there are none. */
+    meanDistance: number | null;
+    gematria: number;
+}
+
+/** One level of a milui expansion: the text with every letter spelled out `depth` times. */
+export interface MiluiLevel {
+    depth: number;
+    letterCount: number;
+    gematria: number;
+    /** This level's gematria over the previous level's; null at depth 0 or after a level worth 0. */
+    growth: number | null;
+}
+
+/** A letter of a milui expansion and the letters of its name, spelled out in turn. */
+export interface MiluiTreeNode {
+    letter: string;
+    value: number;
+    /** The gematria of this letter spelled out to the expansion's full depth. */
+    expandedValue: number;
+    children: MiluiTreeNode[];
+}
+
+/** A text spelled out letter by letter, and those letters spelled out in turn, to a depth. */
+export interface MiluiExpansion {
+    text: string;
+    depth: number;
+    /** Depth 0 (the text itself) to `depth`. */
+    levels: MiluiLevel[];
+    /** One root per letter of the text. */
+    tree: MiluiTreeNode[];
+    /** True if the tree stops short of `depth` to stay within its node limit; `levels` always reach it. */
+    treeTruncated: boolean;
+    /** The first depth from which the growth ratio holds steady; null if it has not settled by `depth`. */
+    convergedAt: number | null;
+}
+
+/** The file formats the alphabet network is written to and read from; see `src/network/serializers.ts`. */
+export type NetworkFileFormat = 'graphml' | 'dot' | 'jsonld';
+
+export interface NetworkFormat {
+    id: NetworkFileFormat;
+    name: string;
+    /** File extensions read as this format; the first is the one written. */
+    extensions: string[];
+    mimeType: string;
+}
+
 // =================================================================================================
 // --- FORM & UI STATE TYPES ---
 // =================================================================================================
 
 /** Main application view states for components rendered inside chat. */
-export type View = 'aweForm' | 'atcForm' | 'session' | 'entrainment' | 'oracularLens' | 'elsInvestigator' | 'palmistry' | 'voiceAnalysis' | 'entrainmentSelection';
+export type View = 'aweForm' | 'atcForm' | 'session' | 'entrainment' | 'oracularLens' | 'elsInvestigator' | 'externalEvents' | 'palmistry' | 'voiceAnalysis' | 'entrainmentSelection' | 'gematriaLookup' | 'willowNetwork' | 'miluiExpansion' | 'cantillation';
 
 export type GuidingIntent = "Neutral" | "Harmony & Health" | "Clarity & Focus" | "Creativity & Inspiration" | "Love & Connection";
 
@@ -158,20 +679,46 @@ export interface AWEFormData {
     relationalNodeChallenging: string;
     geographicAnchor: string;
     centralQuestion: string;
+    /** The cipher that turns the birth name into the entrainment profile's name signature. Defaults to Chaldean. */
+    cipher?: EnglishCipherId;
 }
 
 /** The data structure for the ATC form. */
 export interface TextualCartographerFormData {
     corpus: string;
     book: string;
+    /** Narrow the analysis to one chapter, or to one verse of it. */
+    chapter?: number;
+    verse?: number;
 }
 
 /** The data structure for the ELS Investigator form */
-export interface ELSInvestigatorFormData {
+export interface ELSInvestigatorFormData extends ElsSearchOptions {
     corpus: string;
     book: string;
     searchTerm: string;
     contextualSeed?: string;
+    /** Shuffled control texts per kind for the significance test; 0 disables it. */
+    monteCarloTrials?: number;
+    /** Comma-separated terms for a matrix search around the search term. */
+    relatedTerms?: string;
+    /** Search this book only, or every book of the corpus or of every corpus (comma-separated terms allowed). */
+    scope?: ElsBatchScope;
+    /** Run the significance and external-event passes, with these per-run thresholds. */
+    correlateEvents?: boolean;
+    eventMaxSkip?: number;
+    eventProximity?: number;
+}
+
+/** Optional search parameters for `AstrianEngine.findELS`. A contextual seed overrides the skip range. */
+export interface ElsSearchOptions {
+    minSkip?: number;
+    maxSkip?: number;
+    directions?: ElsDirection[];
+    axes?: ElsAxis[];
+    cylinderWidth?: number;
+    maxResults?: number;
+    matchFinalForms?: boolean;
 }
 
 // =================================================================================================